@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { detectChromiumBrowser } from './browser-detection.js';
+
+describe('browser-detection', () => {
+  describe('detectChromiumBrowser', () => {
+    it('should detect Chrome', () => {
+      expect(detectChromiumBrowser('chrome')).toEqual({ name: 'chrome', optionsKey: 'goog:chromeOptions' });
+      expect(detectChromiumBrowser('Google Chrome')).toEqual({ name: 'chrome', optionsKey: 'goog:chromeOptions' });
+      expect(detectChromiumBrowser('chrome-headless-shell')).toEqual({ name: 'chrome', optionsKey: 'goog:chromeOptions' });
+    });
+
+    it('should detect Chromium', () => {
+      expect(detectChromiumBrowser('chromium')).toEqual({ name: 'chromium', optionsKey: 'goog:chromeOptions' });
+      expect(detectChromiumBrowser('Chromium')).toEqual({ name: 'chromium', optionsKey: 'goog:chromeOptions' });
+    });
+
+    it('should detect Microsoft Edge', () => {
+      expect(detectChromiumBrowser('MicrosoftEdge')).toEqual({ name: 'edge', optionsKey: 'ms:edgeOptions' });
+      expect(detectChromiumBrowser('msedge')).toEqual({ name: 'edge', optionsKey: 'ms:edgeOptions' });
+      expect(detectChromiumBrowser('edge')).toEqual({ name: 'edge', optionsKey: 'ms:edgeOptions' });
+    });
+
+    it('should detect Brave', () => {
+      expect(detectChromiumBrowser('brave')).toEqual({ name: 'brave', optionsKey: 'goog:chromeOptions' });
+      expect(detectChromiumBrowser('Brave Browser')).toEqual({ name: 'brave', optionsKey: 'goog:chromeOptions' });
+    });
+
+    it('should detect Opera', () => {
+      expect(detectChromiumBrowser('opera')).toEqual({ name: 'opera', optionsKey: 'goog:chromeOptions' });
+      expect(detectChromiumBrowser('Opera')).toEqual({ name: 'opera', optionsKey: 'goog:chromeOptions' });
+    });
+
+    it('should return null for non-Chromium browsers', () => {
+      expect(detectChromiumBrowser('firefox')).toBeNull();
+      expect(detectChromiumBrowser('safari')).toBeNull();
+      expect(detectChromiumBrowser('')).toBeNull();
+      expect(detectChromiumBrowser(undefined)).toBeNull();
+    });
+  });
+});
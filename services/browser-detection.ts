@@ -0,0 +1,36 @@
+export type ChromiumBrowserName = 'chrome' | 'chromium' | 'edge' | 'brave' | 'opera';
+
+/**
+ * Capability key holding the command line arguments of a Chromium-based browser
+ */
+export type ChromiumOptionsKey = 'goog:chromeOptions' | 'ms:edgeOptions';
+
+export interface ChromiumBrowser {
+  name: ChromiumBrowserName;
+  optionsKey: ChromiumOptionsKey;
+}
+
+/**
+ * Known Chromium-based browsers, matched in order against the lowercased browserName
+ * Brave and Opera are driven by chromedriver (with a custom binary) and read goog:chromeOptions
+ */
+const CHROMIUM_BROWSERS: Array<ChromiumBrowser & { pattern: RegExp }> = [
+  { pattern: /edge/, name: 'edge', optionsKey: 'ms:edgeOptions' },
+  { pattern: /brave/, name: 'brave', optionsKey: 'goog:chromeOptions' },
+  { pattern: /opera/, name: 'opera', optionsKey: 'goog:chromeOptions' },
+  { pattern: /chromium/, name: 'chromium', optionsKey: 'goog:chromeOptions' },
+  { pattern: /chrome/, name: 'chrome', optionsKey: 'goog:chromeOptions' },
+];
+
+/**
+ * Detect the Chromium-based browser for a browserName capability, or null for any other browser
+ */
+export function detectChromiumBrowser(browserName: string | undefined): ChromiumBrowser | null {
+  const normalizedName = browserName?.toLowerCase();
+  if (!normalizedName) {
+    return null;
+  }
+
+  const match = CHROMIUM_BROWSERS.find(({ pattern }) => pattern.test(normalizedName));
+  return match ? { name: match.name, optionsKey: match.optionsKey } : null;
+}
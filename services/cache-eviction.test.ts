@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { selectEvictions } from './cache-eviction.js';
+
+describe('cache-eviction', () => {
+  const now = 1_000_000;
+  const entries = [
+    { fileName: 'recent.mjpeg', size: 300, lastAccessedAt: now - 10 },
+    { fileName: 'oldest.mjpeg', size: 200, lastAccessedAt: now - 1000 },
+    { fileName: 'older.mjpeg', size: 100, lastAccessedAt: now - 500 },
+  ];
+
+  describe('selectEvictions', () => {
+    it('should keep everything without limits', () => {
+      expect(selectEvictions(entries, {}, new Set(), now)).toEqual([]);
+    });
+
+    it('should evict least recently used entries until the cache fits', () => {
+      expect(selectEvictions(entries, { maxSize: 400 }, new Set(), now)).toEqual(['oldest.mjpeg']);
+      expect(selectEvictions(entries, { maxSize: 300 }, new Set(), now)).toEqual(['oldest.mjpeg', 'older.mjpeg']);
+    });
+
+    it('should evict entries unused for longer than maxAge', () => {
+      expect(selectEvictions(entries, { maxAge: 400 }, new Set(), now)).toEqual(['oldest.mjpeg', 'older.mjpeg']);
+    });
+
+    it('should count expired entries towards the size limit', () => {
+      expect(selectEvictions(entries, { maxAge: 600, maxSize: 400 }, new Set(), now)).toEqual(['oldest.mjpeg']);
+    });
+
+    it('should never evict entries in use, even over the limits', () => {
+      const inUse = new Set(['oldest.mjpeg']);
+
+      expect(selectEvictions(entries, { maxSize: 250 }, inUse, now)).toEqual(['older.mjpeg', 'recent.mjpeg']);
+      expect(selectEvictions(entries, { maxAge: 0 }, inUse, now)).toEqual(['older.mjpeg', 'recent.mjpeg']);
+      expect(selectEvictions(entries, { maxSize: 0 }, new Set(entries.map((entry) => entry.fileName)), now)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * A file in the cache directory considered for eviction
+ */
+export interface CacheEntryInfo {
+  fileName: string;
+  size: number;
+  /** Epoch milliseconds of the last conversion or cache hit */
+  lastAccessedAt: number;
+}
+
+export interface CacheLimits {
+  /** Maximum total size of the cache in bytes */
+  maxSize?: number;
+  /** Maximum time in milliseconds since an entry was last used */
+  maxAge?: number;
+}
+
+/**
+ * Select the entries to delete to honour the cache limits
+ * Expired entries go first, then the least recently used until the cache fits in maxSize.
+ * Entries in use by the current run are never selected, even if the cache stays over its limits.
+ */
+export function selectEvictions(
+  entries: CacheEntryInfo[],
+  limits: CacheLimits,
+  inUse: ReadonlySet<string>,
+  now: number = Date.now(),
+): string[] {
+  const candidates = entries
+    .filter((entry) => !inUse.has(entry.fileName))
+    .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+  const evicted = new Set<string>();
+
+  if (limits.maxAge !== undefined) {
+    for (const entry of candidates) {
+      if (now - entry.lastAccessedAt > limits.maxAge) {
+        evicted.add(entry.fileName);
+      }
+    }
+  }
+
+  if (limits.maxSize !== undefined) {
+    let totalSize = entries
+      .filter((entry) => !evicted.has(entry.fileName))
+      .reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of candidates) {
+      if (totalSize <= limits.maxSize) {
+        break;
+      }
+      if (!evicted.has(entry.fileName)) {
+        evicted.add(entry.fileName);
+        totalSize -= entry.size;
+      }
+    }
+  }
+
+  return candidates.filter((entry) => evicted.has(entry.fileName)).map((entry) => entry.fileName);
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('node:fs');
+
+// Import after mocking
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import { claimManifestEntry, getEntriesInUse, readManifest, recordManifestEntry, updateManifest, writeManifest } from './cache-manifest.js';
+
+const mockFs = vi.mocked(fs);
+const LOCK_TOKEN = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Give every lock the same token and let lock files read it back, as a lock is only removed by its holder
+ */
+function mockLockToken() {
+  vi.spyOn(crypto, 'randomUUID').mockReturnValue(LOCK_TOKEN);
+  const readFileSync = mockFs.readFileSync.getMockImplementation();
+  mockFs.readFileSync.mockImplementation(((filePath: fs.PathOrFileDescriptor, options?: unknown) => (
+    String(filePath).endsWith('.lock') ? JSON.stringify({ token: LOCK_TOKEN }) : readFileSync?.(filePath, options as never)
+  )) as typeof fs.readFileSync);
+}
+
+describe('cache-manifest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('readManifest', () => {
+    it('should parse the manifest in the cache directory', () => {
+      const manifest = { version: 1, entries: { 'a.mjpeg': { source: '/a.mp4', key: 'a', size: 1, createdAt: '2026-01-01T00:00:00.000Z' } } };
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(manifest));
+
+      expect(readManifest('/videos/.cache')).toEqual(manifest);
+      expect(mockFs.readFileSync).toHaveBeenCalledWith('/videos/.cache/manifest.json', 'utf8');
+    });
+
+    it('should start empty when the manifest is missing', () => {
+      mockFs.readFileSync.mockImplementation(() => {
+        throw new Error('ENOENT');
+      });
+
+      expect(readManifest('/videos/.cache')).toEqual({ version: 1, entries: {} });
+    });
+
+    it('should start empty when the manifest is corrupt or from another version', () => {
+      mockFs.readFileSync.mockReturnValue('{"version":');
+      expect(readManifest('/videos/.cache')).toEqual({ version: 1, entries: {} });
+
+      mockFs.readFileSync.mockReturnValue('{"version":2,"entries":{}}');
+      expect(readManifest('/videos/.cache')).toEqual({ version: 1, entries: {} });
+    });
+  });
+
+  describe('writeManifest', () => {
+    it('should write through a temp file and rename it', () => {
+      writeManifest('/videos/.cache', { version: 1, entries: {} });
+
+      const [tempPath, content] = mockFs.writeFileSync.mock.calls[0];
+      expect(String(tempPath)).toMatch(/^\/videos\/\.cache\/manifest\.json\.\d+\.tmp$/);
+      expect(JSON.parse(String(content))).toEqual({ version: 1, entries: {} });
+      expect(mockFs.renameSync).toHaveBeenCalledWith(tempPath, '/videos/.cache/manifest.json');
+    });
+  });
+
+  describe('recordManifestEntry', () => {
+    it('should add the entry next to existing ones', async () => {
+      const existing = { source: '/a.mp4', key: 'a', size: 1, createdAt: '2026-01-01T00:00:00.000Z' };
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ version: 1, entries: { 'a.mjpeg': existing } }));
+      mockFs.statSync.mockReturnValue({ size: 2048 } as fs.Stats);
+
+      await recordManifestEntry('/videos/.cache', '/videos/.cache/b.mjpeg', '/b.mp4', 'b');
+
+      const manifest = JSON.parse(String(mockFs.writeFileSync.mock.calls[0][1]));
+      expect(manifest.entries['a.mjpeg']).toEqual(existing);
+      expect(manifest.entries['b.mjpeg']).toMatchObject({ source: '/b.mp4', key: 'b', size: 2048, usedBy: [process.pid] });
+      expect(Date.parse(manifest.entries['b.mjpeg'].createdAt)).not.toBeNaN();
+    });
+  });
+
+  describe('manifest lock', () => {
+    it('should update the manifest while holding its lock', async () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ version: 1, entries: {} }));
+      mockFs.statSync.mockReturnValue({ size: 1 } as fs.Stats);
+      mockLockToken();
+
+      await recordManifestEntry('/videos/.cache', '/videos/.cache/a.mjpeg', '/a.mp4', 'a');
+
+      expect(mockFs.openSync).toHaveBeenCalledWith('/videos/.cache/manifest.json.lock', 'wx');
+      expect(mockFs.openSync.mock.invocationCallOrder[0]).toBeLessThan(mockFs.writeFileSync.mock.invocationCallOrder[0]);
+      expect(mockFs.unlinkSync).toHaveBeenCalledWith('/videos/.cache/manifest.json.lock');
+    });
+
+    it('should wait for another process holding the lock', async () => {
+      let lockHeld = true;
+      mockFs.openSync.mockImplementation(() => {
+        if (lockHeld) {
+          lockHeld = false;
+          throw Object.assign(new Error('EEXIST'), { code: 'EEXIST' });
+        }
+        return 1;
+      });
+      mockFs.statSync.mockReturnValue({ size: 1, mtimeMs: Date.now() } as fs.Stats);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ version: 1, entries: {} }));
+
+      await updateManifest('/videos/.cache', (manifest) => {
+        delete manifest.entries['a.mjpeg'];
+      });
+
+      expect(mockFs.openSync).toHaveBeenCalledTimes(2);
+      expect(mockFs.writeFileSync).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('claimManifestEntry', () => {
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+    });
+
+    it('should update the last access time of an entry', async () => {
+      const entry = { source: '/a.mp4', key: 'a', size: 1, createdAt: '2026-01-01T00:00:00.000Z', lastAccessedAt: '2026-01-01T00:00:00.000Z' };
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ version: 1, entries: { 'a.mjpeg': entry } }));
+
+      await expect(claimManifestEntry('/videos/.cache', 'a.mjpeg')).resolves.toBe(true);
+
+      const manifest = JSON.parse(String(mockFs.writeFileSync.mock.calls[0][1]));
+      expect(manifest.entries['a.mjpeg'].createdAt).toBe(entry.createdAt);
+      expect(Date.parse(manifest.entries['a.mjpeg'].lastAccessedAt)).toBeGreaterThan(Date.parse(entry.lastAccessedAt));
+    });
+
+    it('should add this process to the users of an entry, dropping exited ones', async () => {
+      vi.spyOn(process, 'kill').mockImplementation((pid) => {
+        if (pid === 4242) {
+          return true;
+        }
+        throw Object.assign(new Error('kill ESRCH'), { code: 'ESRCH' });
+      });
+      const entry = { source: '/a.mp4', key: 'a', size: 1, createdAt: '2026-01-01T00:00:00.000Z', usedBy: [4242, 4343] };
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ version: 1, entries: { 'a.mjpeg': entry } }));
+
+      await claimManifestEntry('/videos/.cache', 'a.mjpeg');
+
+      const manifest = JSON.parse(String(mockFs.writeFileSync.mock.calls[0][1]));
+      expect(manifest.entries['a.mjpeg'].usedBy).toEqual([4242, process.pid]);
+    });
+
+    it('should not write the manifest for unknown entries', async () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ version: 1, entries: {} }));
+
+      await expect(claimManifestEntry('/videos/.cache', 'a.mjpeg')).resolves.toBe(true);
+
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should report a file evicted before the manifest lock was acquired', async () => {
+      const entry = { source: '/a.mp4', key: 'a', size: 1, createdAt: '2026-01-01T00:00:00.000Z' };
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ version: 1, entries: { 'a.mjpeg': entry } }));
+      mockFs.existsSync.mockReturnValue(false);
+
+      await expect(claimManifestEntry('/videos/.cache', 'a.mjpeg')).resolves.toBe(false);
+
+      expect(mockFs.existsSync).toHaveBeenCalledWith('/videos/.cache/a.mjpeg');
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getEntriesInUse', () => {
+    it('should list the entries used by a running process', () => {
+      vi.spyOn(process, 'kill').mockImplementation((pid) => {
+        if (pid === 4242) {
+          return true;
+        }
+        throw Object.assign(new Error(pid === 4444 ? 'kill EPERM' : 'kill ESRCH'), { code: pid === 4444 ? 'EPERM' : 'ESRCH' });
+      });
+      const entry = { source: '/a.mp4', key: 'a', size: 1, createdAt: '2026-01-01T00:00:00.000Z' };
+
+      const inUse = getEntriesInUse({
+        version: 1,
+        entries: {
+          'running.mjpeg': { ...entry, usedBy: [4343, 4242] },
+          'other-user.mjpeg': { ...entry, usedBy: [4444] },
+          'exited.mjpeg': { ...entry, usedBy: [4343] },
+          'old.mjpeg': entry,
+        },
+      });
+
+      expect([...inUse]).toEqual(['running.mjpeg', 'other-user.mjpeg']);
+    });
+  });
+
+  describe('updateManifest', () => {
+    it('should write the changed manifest', async () => {
+      const entry = { source: '/a.mp4', key: 'a', size: 1, createdAt: '2026-01-01T00:00:00.000Z' };
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ version: 1, entries: { 'a.mjpeg': entry, 'b.mjpeg': entry } }));
+
+      await updateManifest('/videos/.cache', (manifest) => {
+        delete manifest.entries['a.mjpeg'];
+      });
+
+      const manifest = JSON.parse(String(mockFs.writeFileSync.mock.calls[0][1]));
+      expect(Object.keys(manifest.entries)).toEqual(['b.mjpeg']);
+    });
+
+    it('should not write the manifest when the update returns false', async () => {
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ version: 1, entries: {} }));
+
+      await updateManifest('/videos/.cache', () => false);
+
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { acquireFileLock } from './file-lock.js';
+
+export const MANIFEST_FILE = 'manifest.json';
+
+/** A manifest lock not refreshed for this long was left behind by a crashed process, updates take milliseconds */
+const MANIFEST_LOCK_STALE_TIMEOUT = 10_000;
+const MANIFEST_LOCK_POLL_INTERVAL = 10;
+
+/**
+ * A converted file in the cache directory
+ */
+export interface CacheManifestEntry {
+  /** Source file path, or the JSON descriptor of a generated source */
+  source: string;
+  key: string;
+  /** Size of the converted file in bytes */
+  size: number;
+  /** ISO timestamp of the conversion */
+  createdAt: string;
+  /** ISO timestamp of the last conversion or cache hit, drives LRU eviction */
+  lastAccessedAt?: string;
+  /** Processes on this machine that converted or reused the file, it is not evicted while one of them runs */
+  usedBy?: number[];
+}
+
+export interface CacheManifest {
+  version: 1;
+  /** Entries by file name, relative to the cache directory */
+  entries: Record<string, CacheManifestEntry>;
+}
+
+/**
+ * Read the cache manifest, an unreadable or missing manifest is treated as empty
+ */
+export function readManifest(cacheDir: string): CacheManifest {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(path.join(cacheDir, MANIFEST_FILE), 'utf8')) as CacheManifest;
+    if (manifest?.version === 1 && typeof manifest.entries === 'object' && manifest.entries !== null) {
+      return manifest;
+    }
+  } catch {
+    // Missing or corrupt, rebuilt from the next conversions
+  }
+  return { version: 1, entries: {} };
+}
+
+/**
+ * Write the cache manifest atomically (temp file + rename)
+ */
+export function writeManifest(cacheDir: string, manifest: CacheManifest): void {
+  const manifestPath = path.join(cacheDir, MANIFEST_FILE);
+  const tempPath = `${manifestPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(manifest, null, 2));
+  fs.renameSync(tempPath, manifestPath);
+}
+
+/**
+ * Check if a process is running, signal 0 only probes it (EPERM: running as another user)
+ */
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Add this process to the users of an entry, dropping the ones that have exited
+ */
+function addCurrentProcess(usedBy: number[] | undefined): number[] {
+  return [...(usedBy ?? []).filter((pid) => pid !== process.pid && isProcessRunning(pid)), process.pid];
+}
+
+/**
+ * Read, change and write the manifest under a lock shared by every process, so workers updating it
+ * at the same time don't overwrite each other's entries. The manifest is not written when `update` returns false
+ */
+export async function updateManifest(cacheDir: string, update: (manifest: CacheManifest) => boolean | void): Promise<void> {
+  const release = await acquireFileLock(path.join(cacheDir, `${MANIFEST_FILE}.lock`), {
+    staleTimeout: MANIFEST_LOCK_STALE_TIMEOUT,
+    pollInterval: MANIFEST_LOCK_POLL_INTERVAL,
+  });
+  try {
+    const manifest = readManifest(cacheDir);
+    if (update(manifest) !== false) {
+      writeManifest(cacheDir, manifest);
+    }
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Record a converted file in the cache manifest, as used by this process
+ */
+export function recordManifestEntry(cacheDir: string, outputPath: string, source: string, key: string): Promise<void> {
+  const fileName = path.relative(cacheDir, outputPath);
+  const size = fs.statSync(outputPath).size;
+  return updateManifest(cacheDir, (manifest) => {
+    const now = new Date().toISOString();
+    manifest.entries[fileName] = {
+      source,
+      key,
+      size,
+      createdAt: now,
+      lastAccessedAt: now,
+      usedBy: addCurrentProcess(manifest.entries[fileName]?.usedBy),
+    };
+  });
+}
+
+/**
+ * Mark a cached file as used now, by this process, if it is still in the cache directory
+ * The file is checked under the manifest lock, which pruneCache holds while evicting
+ * Returns false when the file was evicted
+ */
+export async function claimManifestEntry(cacheDir: string, fileName: string): Promise<boolean> {
+  let exists = false;
+  await updateManifest(cacheDir, (manifest) => {
+    exists = fs.existsSync(path.join(cacheDir, fileName));
+    const entry = manifest.entries[fileName];
+    if (!exists || !entry) {
+      return false;
+    }
+    entry.lastAccessedAt = new Date().toISOString();
+    entry.usedBy = addCurrentProcess(entry.usedBy);
+  });
+  return exists;
+}
+
+/**
+ * File names of the entries used by a running process (the launcher or another worker), never evicted
+ */
+export function getEntriesInUse(manifest: CacheManifest): Set<string> {
+  return new Set(Object.keys(manifest.entries).filter((fileName) => manifest.entries[fileName].usedBy?.some(isProcessRunning)));
+}
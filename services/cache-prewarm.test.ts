@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('tinyglobby');
+
+// Import after mocking
+import { glob } from 'tinyglobby';
+import { expandFeedGlobs, formatPrewarmSummary, prewarmCache } from './cache-prewarm.js';
+import { ConversionError } from './errors.js';
+import type { FormatConverter } from './format-converter.js';
+
+const mockGlob = vi.mocked(glob);
+
+/**
+ * Build a converter stub whose conversions resolve after a tick
+ */
+function createConverter(cached: string[] = []) {
+  let inFlight = 0;
+  const converter = {
+    maxInFlight: 0,
+    isCached: vi.fn((source: unknown) => cached.includes(String(source))),
+    convert: vi.fn(async (source: unknown) => {
+      inFlight++;
+      converter.maxInFlight = Math.max(converter.maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return `/videos/.cache/${String(source)}.mjpeg`;
+    }),
+  };
+  return converter;
+}
+
+describe('cache-prewarm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('expandFeedGlobs', () => {
+    it('should return absolute matches sorted', async () => {
+      vi.spyOn(process, 'cwd').mockReturnValue('/project');
+      mockGlob.mockResolvedValueOnce(['/project/camera/b.mp4', '/project/camera/a.mp4']);
+
+      const files = await expandFeedGlobs(['./camera/**/*.mp4']);
+
+      expect(mockGlob).toHaveBeenCalledWith(['./camera/**/*.mp4'], { cwd: '/project', absolute: true, onlyFiles: true });
+      expect(files).toEqual(['/project/camera/a.mp4', '/project/camera/b.mp4']);
+    });
+
+    it('should not glob without patterns', async () => {
+      expect(await expandFeedGlobs([])).toEqual([]);
+      expect(mockGlob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prewarmCache', () => {
+    it('should count conversions, cache hits and native feeds', async () => {
+      const converter = createConverter(['cached.mp4']);
+
+      const summary = await prewarmCache(converter as unknown as FormatConverter, [
+        { source: 'new.mp4', options: {} },
+        { source: 'cached.mp4', options: {} },
+        { source: 'native.mjpeg', options: {} },
+        { source: { pattern: 'bars' }, options: {} },
+      ], 2);
+
+      expect(summary).toMatchObject({ converted: 2, cached: 1, native: 1 });
+      expect(converter.convert).toHaveBeenCalledWith('new.mp4', {});
+      expect(converter.convert).toHaveBeenCalledWith({ pattern: 'bars' }, {});
+    });
+
+    it('should re-encode native feeds that have conversion options', async () => {
+      const converter = createConverter();
+
+      const summary = await prewarmCache(converter as unknown as FormatConverter, [
+        { source: 'native.mjpeg', options: { mirror: true } },
+      ], 1);
+
+      expect(summary.converted).toBe(1);
+    });
+
+    it('should limit the number of conversions in flight', async () => {
+      const converter = createConverter();
+      const jobs = ['a', 'b', 'c', 'd', 'e'].map((name) => ({ source: `${name}.mp4`, options: {} }));
+
+      await prewarmCache(converter as unknown as FormatConverter, jobs, 2);
+
+      expect(converter.convert).toHaveBeenCalledTimes(5);
+      expect(converter.maxInFlight).toBe(2);
+    });
+
+    it('should convert identical jobs once', async () => {
+      const converter = createConverter();
+
+      await prewarmCache(converter as unknown as FormatConverter, [
+        { source: 'a.mp4', options: { width: 320 } },
+        { source: 'a.mp4', options: { width: 320 } },
+        { source: 'a.mp4', options: { width: 640 } },
+      ], 4);
+
+      expect(converter.convert).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail fast on the first conversion error', async () => {
+      const converter = createConverter();
+      converter.convert.mockRejectedValueOnce(new ConversionError('a.mp4', 'Invalid data'));
+      const jobs = ['a', 'b', 'c'].map((name) => ({ source: `${name}.mp4`, options: {} }));
+
+      await expect(prewarmCache(converter as unknown as FormatConverter, jobs, 1)).rejects.toThrow(ConversionError);
+      expect(converter.convert).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail fast when checking the cache fails', async () => {
+      const converter = createConverter();
+      converter.isCached.mockRejectedValueOnce(new Error('Unknown test pattern "gradient"'));
+      const jobs = ['a', 'b', 'c'].map((name) => ({ source: `${name}.mp4`, options: {} }));
+
+      await expect(prewarmCache(converter as unknown as FormatConverter, jobs, 2)).rejects.toThrow('Unknown test pattern "gradient"');
+      // Let the other worker finish its conversion, it must not start the next one
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(converter.convert).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let unknown formats reach the converter', async () => {
+      const converter = createConverter();
+
+      await prewarmCache(converter as unknown as FormatConverter, [{ source: 'notes.txt', options: {} }], 1);
+
+      expect(converter.convert).toHaveBeenCalledWith('notes.txt', {});
+    });
+  });
+
+  describe('formatPrewarmSummary', () => {
+    it('should describe the run', () => {
+      expect(formatPrewarmSummary({ converted: 2, cached: 3, native: 1, durationMs: 1460 }))
+        .toBe('Camera feed cache pre-warmed in 1.5s: 6 feeds, 2 converted, 3 cache hits, 1 native');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { glob } from 'tinyglobby';
+import { detectFormat, requiresConversion } from './format-converter.js';
+import type { FormatConverter } from './format-converter.js';
+import { isGeneratedSource } from './camera-source.js';
+import type { CameraSource } from './camera-source.js';
+import type { ConversionOptions } from './conversion-options.js';
+
+/**
+ * A source to convert ahead of the test run, with the options it will be requested with
+ */
+export interface PrewarmJob {
+  source: CameraSource;
+  options: ConversionOptions;
+}
+
+export interface PrewarmSummary {
+  /** Sources converted (or rendered) during pre-warming */
+  converted: number;
+  /** Sources already in the cache */
+  cached: number;
+  /** Native sources that need no conversion */
+  native: number;
+  durationMs: number;
+}
+
+/**
+ * Expand glob patterns (relative to the working directory) to absolute file paths
+ */
+export async function expandFeedGlobs(patterns: string[]): Promise<string[]> {
+  if (patterns.length === 0) {
+    return [];
+  }
+  const files = await glob(patterns, { cwd: process.cwd(), absolute: true, onlyFiles: true });
+  return files.sort();
+}
+
+/**
+ * Drop jobs that convert to the same output, they would race on the same temp file
+ */
+function dedupeJobs(jobs: PrewarmJob[]): PrewarmJob[] {
+  const seen = new Set<string>();
+  return jobs.filter((job) => {
+    const key = JSON.stringify([job.source, job.options]);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Convert every job with at most `concurrency` conversions in flight
+ * Fails fast: the first error stops new conversions from starting and is rethrown
+ */
+export async function prewarmCache(converter: FormatConverter, jobs: PrewarmJob[], concurrency: number): Promise<PrewarmSummary> {
+  const startTime = Date.now();
+  const summary: PrewarmSummary = { converted: 0, cached: 0, native: 0, durationMs: 0 };
+  const queue = dedupeJobs(jobs);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < queue.length) {
+      const { source, options } = queue[nextIndex++];
+      // Unknown formats go through convert, which rejects them
+      if (!isGeneratedSource(source) && !requiresConversion(source, options) && detectFormat(source) !== 'unknown') {
+        summary.native++;
+        continue;
+      }
+      try {
+        // Cache hits still go through convert, which marks them as used by this run
+        const cached = await converter.isCached(source, options);
+        await converter.convert(source, options);
+        summary[cached ? 'cached' : 'converted']++;
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, queue.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  summary.durationMs = Date.now() - startTime;
+  return summary;
+}
+
+/**
+ * One-line summary of a pre-warm run for the launcher log
+ */
+export function formatPrewarmSummary(summary: PrewarmSummary): string {
+  const total = summary.converted + summary.cached + summary.native;
+  const seconds = (summary.durationMs / 1000).toFixed(1);
+  return `Camera feed cache pre-warmed in ${seconds}s: ${total} feeds, ${summary.converted} converted, ${summary.cached} cache hits, ${summary.native} native`;
+}
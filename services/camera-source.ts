@@ -0,0 +1,32 @@
+import { validateCodeDescriptor } from './code-generator.js';
+import type { CodeDescriptor } from './code-generator.js';
+import { validateTestPattern } from './test-pattern.js';
+import type { TestPatternDescriptor } from './test-pattern.js';
+
+/**
+ * A camera source: a file path, a synthetic test pattern or a generated QR code/barcode
+ */
+export type CameraSource = string | TestPatternDescriptor | CodeDescriptor;
+
+/**
+ * Check if a camera source is generated (test pattern or code) rather than read from a file
+ */
+export function isGeneratedSource(source: CameraSource): source is TestPatternDescriptor | CodeDescriptor {
+  return typeof source !== 'string';
+}
+
+/**
+ * Check that a generated source is a test pattern or a code descriptor, so a typo fails with the supported values
+ * instead of being handled as a file path
+ */
+export function validateGeneratedSource(source: object): void {
+  if ('pattern' in source) {
+    validateTestPattern(source);
+    return;
+  }
+  if ('type' in source) {
+    validateCodeDescriptor(source);
+    return;
+  }
+  throw new Error(`Invalid camera source ${JSON.stringify(source)}, expected a file path, a test pattern { pattern } or a code { type, data }`);
+}
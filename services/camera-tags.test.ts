@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { findCameraTag } from './camera-tags.js';
+
+describe('camera-tags', () => {
+  describe('findCameraTag', () => {
+    it('should read the source of a camera tag in a title', () => {
+      expect(findCameraTag(['Scanner should read a valid code @camera:qrValid'])).toBe('qrValid');
+      expect(findCameraTag(['@camera:./fixtures/qr.png should read a code'])).toBe('./fixtures/qr.png');
+    });
+
+    it('should read Cucumber tags', () => {
+      expect(findCameraTag(['@smoke', '@camera:qrValid'])).toBe('qrValid');
+    });
+
+    it('should let the last tag win', () => {
+      expect(findCameraTag(['Scanner @camera:blank should read a code @camera:qrValid'])).toBe('qrValid');
+      expect(findCameraTag(['@camera:blank', '@camera:qrRotated'])).toBe('qrRotated');
+    });
+
+    it('should ignore titles without a camera tag', () => {
+      expect(findCameraTag(['should mail user@camera:42', '@cameras', undefined])).toBeUndefined();
+      expect(findCameraTag([])).toBeUndefined();
+    });
+  });
+});
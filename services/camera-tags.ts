@@ -0,0 +1,16 @@
+/** `@camera:<source>` in a test title or a Cucumber tag, the source is a feed name or a path without spaces */
+const CAMERA_TAG = /(?:^|\s)@camera:(\S+)/g;
+
+/**
+ * Camera source named by the last `@camera:<source>` tag found in test titles or Cucumber tags
+ * The last tag wins, so a test's own tag overrides its suite's (and a scenario's tag its feature's)
+ */
+export function findCameraTag(texts: Array<string | undefined>): string | undefined {
+  let source: string | undefined;
+  for (const text of texts) {
+    for (const match of (text ?? '').matchAll(CAMERA_TAG)) {
+      source = match[1];
+    }
+  }
+  return source;
+}
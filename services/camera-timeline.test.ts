@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { getSegmentFrameCount, validateTimeline, writeTimelineFeed } from './camera-timeline.js';
+
+/** A JPEG frame of the given size: SOI, SOF0 with the size, SOS with one marker byte of image data, EOI */
+const jpegFrame = (width: number, height: number, marker: number) => Buffer.from([
+  0xff, 0xd8,
+  0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, height, 0x00, width, 0x01, 0x01, 0x11, 0x00,
+  0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00, marker,
+  0xff, 0xd9,
+]);
+
+/** A Y4M frame of a 4x2 stream, filled with one byte */
+const y4mFrame = (fill: number) => Buffer.concat([Buffer.from('FRAME\n'), Buffer.alloc(12, fill)]);
+
+describe('camera-timeline', () => {
+  let directory: string;
+
+  const writeFeed = (fileName: string, ...parts: (string | Buffer)[]) => {
+    const filePath = path.join(directory, fileName);
+    fs.writeFileSync(filePath, Buffer.concat(parts.map((part) => (typeof part === 'string' ? Buffer.from(part) : part))));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'camera-timeline-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('validateTimeline', () => {
+    it('should accept segments with positive durations', () => {
+      expect(() => validateTimeline([{ source: 'blank', duration: 2000 }, { source: 'qr.png', duration: 0.5 }], { fps: 25 })).not.toThrow();
+    });
+
+    it('should reject empty timelines', () => {
+      expect(() => validateTimeline([], {})).toThrow('A camera timeline needs at least one segment');
+    });
+
+    it('should reject invalid durations', () => {
+      expect(() => validateTimeline([{ source: 'blank', duration: 1000 }, { source: 'qr.png', duration: 0 }], {}))
+        .toThrow('Invalid duration "0" of timeline segment 2, expected a positive number of milliseconds');
+      expect(() => validateTimeline([{ source: 'blank', duration: Infinity }], {})).toThrow('timeline segment 1');
+    });
+
+    it('should reject invalid timeline options', () => {
+      expect(() => validateTimeline([{ source: 'blank', duration: 1000 }], { fps: -1 }))
+        .toThrow('Invalid conversion option fps "-1", expected a positive number');
+    });
+  });
+
+  describe('getSegmentFrameCount', () => {
+    it('should round durations to whole frames, at least one', () => {
+      expect(getSegmentFrameCount(2000, 30)).toBe(60);
+      expect(getSegmentFrameCount(1010, 30)).toBe(30);
+      expect(getSegmentFrameCount(10, 30)).toBe(1);
+    });
+  });
+
+  describe('writeTimelineFeed', () => {
+    it('should concatenate MJPEG feeds, looping the frames of each one', () => {
+      const blank = writeFeed('blank.mjpeg', jpegFrame(4, 2, 1));
+      const clip = writeFeed('clip.mjpeg', jpegFrame(4, 2, 2), jpegFrame(4, 2, 3));
+      const outputPath = path.join(directory, 'timeline.mjpeg');
+
+      writeTimelineFeed([{ feedPath: blank, frameCount: 2 }, { feedPath: clip, frameCount: 3 }], outputPath, 'mjpeg', 30);
+
+      expect(fs.readFileSync(outputPath)).toEqual(Buffer.concat([
+        jpegFrame(4, 2, 1), jpegFrame(4, 2, 1), jpegFrame(4, 2, 2), jpegFrame(4, 2, 3), jpegFrame(4, 2, 2),
+      ]));
+    });
+
+    it('should concatenate Y4M feeds at the timeline frame rate', () => {
+      const blank = writeFeed('blank.y4m', 'YUV4MPEG2 W4 H2 F25:1 Ip C420jpeg\n', y4mFrame(1));
+      const clip = writeFeed('clip.y4m', 'YUV4MPEG2 W4 H2 F60:1 C420jpeg\n', y4mFrame(2), y4mFrame(3));
+      const outputPath = path.join(directory, 'timeline.y4m');
+
+      writeTimelineFeed([{ feedPath: blank, frameCount: 1 }, { feedPath: clip, frameCount: 3 }], outputPath, 'y4m', 30);
+
+      expect(fs.readFileSync(outputPath)).toEqual(Buffer.concat([
+        Buffer.from('YUV4MPEG2 W4 H2 F30:1 Ip C420jpeg\n'), y4mFrame(1), y4mFrame(2), y4mFrame(3), y4mFrame(2),
+      ]));
+    });
+
+    it('should write fractional frame rates as a ratio', () => {
+      const blank = writeFeed('blank.y4m', 'YUV4MPEG2 W4 H2 F30:1\n', y4mFrame(1));
+      const outputPath = path.join(directory, 'timeline.y4m');
+
+      writeTimelineFeed([{ feedPath: blank, frameCount: 1 }], outputPath, 'y4m', 29.97);
+
+      expect(fs.readFileSync(outputPath, 'latin1')).toMatch(/^YUV4MPEG2 W4 H2 F29970:1000\n/);
+    });
+
+    it('should reject segments of another frame size', () => {
+      const blank = writeFeed('blank.mjpeg', jpegFrame(4, 2, 1));
+      const wide = writeFeed('wide.mjpeg', jpegFrame(8, 2, 1));
+
+      expect(() => writeTimelineFeed([{ feedPath: blank, frameCount: 1 }, { feedPath: wide, frameCount: 1 }], path.join(directory, 'out.mjpeg'), 'mjpeg', 30))
+        .toThrow(`Timeline segment 2 (${wide}) is 8x2, the first segment is 4x2. Set width and height in the timeline options`);
+    });
+
+    it('should reject invalid feeds', () => {
+      const broken = writeFeed('broken.y4m', 'YUV4MPEG2 W4 H2 F30:1\n', 'FRAME\n', Buffer.alloc(4));
+
+      expect(() => writeTimelineFeed([{ feedPath: broken, frameCount: 1 }], path.join(directory, 'out.y4m'), 'y4m', 30))
+        .toThrow(expect.objectContaining({ name: 'InvalidCameraFeedError' }));
+    });
+  });
+});
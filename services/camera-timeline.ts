@@ -0,0 +1,146 @@
+import fs from 'node:fs';
+import { readMjpegLayout, readY4mLayout } from './feed-validator.js';
+import { validateConversionOptions } from './conversion-options.js';
+import type { ConversionOptions } from './conversion-options.js';
+import type { CameraSource } from './camera-source.js';
+
+/** Frame rate of a timeline without fps option, the rate Chrome plays MJPEG feeds at */
+export const DEFAULT_TIMELINE_FPS = 30;
+
+/**
+ * A camera source shown for a fixed time within a timeline
+ */
+export interface TimelineSegment {
+  /** A file, a URL, a named feed, a test pattern or a code */
+  source: CameraSource;
+  /** How long the source is shown, in milliseconds */
+  duration: number;
+  /** Transforms of this source, merged over the service conversionOptions (fps is the timeline's) */
+  options?: ConversionOptions;
+}
+
+export interface TimelineOptions {
+  /** Frames per second of the timeline feed (defaults to 30), MJPEG feeds repeat the frames up to 30 fps */
+  fps?: number;
+  /** Frame size every segment is scaled to, needed when the sources differ in size */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * A segment converted to a native feed file, with the number of frames it lasts
+ */
+export interface TimelineFeed {
+  feedPath: string;
+  frameCount: number;
+}
+
+/**
+ * Check a timeline before converting any of its sources
+ */
+export function validateTimeline(segments: TimelineSegment[], options: TimelineOptions): void {
+  if (!Array.isArray(segments) || segments.length === 0) {
+    throw new Error('A camera timeline needs at least one segment');
+  }
+  segments.forEach((segment, index) => {
+    if (!(segment.duration > 0) || !Number.isFinite(segment.duration)) {
+      throw new Error(`Invalid duration "${segment.duration}" of timeline segment ${index + 1}, expected a positive number of milliseconds`);
+    }
+  });
+  validateConversionOptions({ fps: options.fps, width: options.width, height: options.height });
+}
+
+/**
+ * Number of frames a segment lasts at a frame rate, at least one
+ */
+export function getSegmentFrameCount(duration: number, fps: number): number {
+  return Math.max(1, Math.round((duration * fps) / 1000));
+}
+
+/**
+ * Check that a segment has the frame size of the first one, as a feed cannot change size
+ */
+function checkFrameSize(
+  feedPath: string,
+  index: number,
+  size: { width?: number; height?: number },
+  firstSize: { width?: number; height?: number },
+): void {
+  if (size.width !== firstSize.width || size.height !== firstSize.height) {
+    throw new Error(
+      `Timeline segment ${index + 1} (${feedPath}) is ${size.width}x${size.height}, the first segment is ${firstSize.width}x${firstSize.height}. `
+      + 'Set width and height in the timeline options to scale every segment to one size',
+    );
+  }
+}
+
+/**
+ * Concatenate MJPEG feeds, looping the frames of each one for its frame count
+ */
+function writeMjpegTimeline(feeds: TimelineFeed[], fd: number): void {
+  let firstSize: { width?: number; height?: number } | undefined;
+
+  feeds.forEach(({ feedPath, frameCount }, index) => {
+    const { width, height, frames } = readMjpegLayout(feedPath);
+    firstSize ??= { width, height };
+    checkFrameSize(feedPath, index, { width, height }, firstSize);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      fs.writeSync(fd, frames[frame % frames.length]);
+    }
+  });
+}
+
+/**
+ * Y4M frame rate parameter, as a ratio of integers ("F30:1", "F29970:1000")
+ */
+function formatY4mFrameRate(fps: number): string {
+  return Number.isInteger(fps) ? `F${fps}:1` : `F${Math.round(fps * 1000)}:1000`;
+}
+
+/**
+ * Concatenate Y4M feeds under the stream header of the first one at the timeline frame rate,
+ * looping the frames of each feed for its frame count
+ */
+function writeY4mTimeline(feeds: TimelineFeed[], fd: number, fps: number): void {
+  let firstSize: { width: number; height: number } | undefined;
+
+  feeds.forEach(({ feedPath, frameCount }, index) => {
+    const { header, width, height, frameSize, frameOffsets } = readY4mLayout(feedPath);
+    if (!firstSize) {
+      firstSize = { width, height };
+      const params = header.split(' ').map((param) => (param.startsWith('F') ? formatY4mFrameRate(fps) : param));
+      fs.writeSync(fd, `${params.join(' ')}\n`);
+    }
+    checkFrameSize(feedPath, index, { width, height }, firstSize);
+
+    const frame = Buffer.alloc(frameSize);
+    const source = fs.openSync(feedPath, 'r');
+    try {
+      for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+        fs.readSync(source, frame, 0, frameSize, frameOffsets[frameIndex % frameOffsets.length]);
+        fs.writeSync(fd, 'FRAME\n');
+        fs.writeSync(fd, frame);
+      }
+    } finally {
+      fs.closeSync(source);
+    }
+  });
+}
+
+/**
+ * Write the timeline feed: the frames of every segment feed in order, without re-encoding them
+ * All segment feeds must be in the output format and share one frame size
+ */
+export function writeTimelineFeed(feeds: TimelineFeed[], outputPath: string, format: 'mjpeg' | 'y4m', fps: number): void {
+  const fd = fs.openSync(outputPath, 'w');
+  try {
+    if (format === 'y4m') {
+      writeY4mTimeline(feeds, fd, fps);
+    } else {
+      writeMjpegTimeline(feeds, fd);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
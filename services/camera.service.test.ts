@@ -2,21 +2,46 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SevereServiceError } from 'webdriverio';
 import fs from 'node:fs';
 import path from 'node:path';
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import type { Frameworks } from '@wdio/types';
 
-// Hoist the mock function so it's available during vi.mock hoisting
+// Hoist the mock functions so they're available during vi.mock hoisting
 const mockExecAsync = vi.hoisted(() => vi.fn());
+const mockRunFfmpeg = vi.hoisted(() => vi.fn());
+const mockDownloadRemoteSource = vi.hoisted(() => vi.fn());
 
 vi.mock('node:fs');
 vi.mock('webdriverio');
 vi.mock('node:util', () => ({
   promisify: () => mockExecAsync,
 }));
+vi.mock('./ffmpeg-runner.js', async (importOriginal) => ({
+  ...await importOriginal<Record<string, unknown>>(),
+  runFfmpeg: mockRunFfmpeg,
+}));
+vi.mock('./remote-source.js', async (importOriginal) => ({
+  ...await importOriginal<Record<string, unknown>>(),
+  downloadRemoteSource: mockDownloadRemoteSource,
+}));
 
 // Import after mocking
 import CameraService from './camera.service.js';
+import { MAX_SHIM_FEED_SIZE } from './media-shim.js';
+import { InvalidCameraFeedError, UnknownFeedError, UnsupportedFormatError } from './errors.js';
 
 const mockFs = vi.mocked(fs);
 
+/**
+ * FFmpeg conversions run by the service, arguments joined by spaces
+ */
+function ffmpegCommands(): string[] {
+  return mockRunFfmpeg.mock.calls.map(([executable, args]: [string, string[]]) => [executable, ...args].join(' '));
+}
+
+/** A one-frame MJPEG feed, the content native feeds are checked for */
+const mockMjpegFeed = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x02, 0xff, 0xd9]);
+
 describe('CameraService', () => {
   const validOptions = {
     defaultCameraFeed: '/path/to/default.mjpeg',
@@ -26,10 +51,11 @@ describe('CameraService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockFs.existsSync.mockReturnValue(true);
-    mockFs.readFileSync.mockReturnValue(Buffer.from('mock video data'));
+    mockFs.readFileSync.mockReturnValue(mockMjpegFeed);
     mockFs.writeFileSync.mockReturnValue(undefined);
     mockFs.mkdirSync.mockReturnValue(undefined);
     mockFs.statSync.mockReturnValue({ size: 1000 } as fs.Stats);
+    mockFs.createReadStream.mockImplementation(() => Readable.from([Buffer.alloc(1000)]) as unknown as fs.ReadStream);
     mockFs.openSync.mockReturnValue(1);
     mockFs.readSync.mockReturnValue(1000);
     mockFs.closeSync.mockReturnValue(undefined);
@@ -64,6 +90,10 @@ describe('CameraService', () => {
       expect(() => new CameraService(invalidOptions)).toThrow(SevereServiceError);
     });
 
+    it('should throw SevereServiceError when BiDi injection is combined with Y4M output', () => {
+      expect(() => new CameraService({ ...validOptions, injectionMode: 'bidi', outputFormat: 'y4m' })).toThrow(SevereServiceError);
+    });
+
     it('should accept new format conversion options', () => {
       const options = {
         ...validOptions,
@@ -112,9 +142,6 @@ describe('CameraService', () => {
         stderr: '',
       });
 
-      // Conversion call
-      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
-
       // Source file exists but cache doesn't
       mockFs.existsSync.mockImplementation((p) => {
         if (String(p).includes('.cache')) {return false;}
@@ -123,9 +150,7 @@ describe('CameraService', () => {
 
       await service.onPrepare();
 
-      expect(mockExecAsync).toHaveBeenCalledWith(
-        expect.stringContaining('ffmpeg'),
-      );
+      expect(mockExecAsync).toHaveBeenCalledWith('ffmpeg', ['-version'], expect.anything());
     });
 
     it('should throw FfmpegNotFoundError when FFmpeg is needed but not available', async () => {
@@ -140,15 +165,67 @@ describe('CameraService', () => {
       await expect(service.onPrepare()).rejects.toThrow('FFmpeg is required');
     });
 
+    it('should not require FFmpeg for a still image default feed', async () => {
+      const service = new CameraService({
+        ...validOptions,
+        defaultCameraFeed: '/path/to/default.png',
+        imageEngine: 'native',
+      });
+      mockFs.existsSync.mockImplementation((p) => !String(p).includes('.cache'));
+      mockFs.readFileSync.mockReturnValue(Buffer.from('not an image'));
+
+      // The image itself is invalid, but FFmpeg is never looked up
+      await expect(service.onPrepare()).rejects.toThrow('not a PNG, JPEG or BMP');
+      expect(mockExecAsync).not.toHaveBeenCalled();
+    });
+
+    it('should require FFmpeg for still images when imageEngine is ffmpeg', async () => {
+      const service = new CameraService({
+        ...validOptions,
+        defaultCameraFeed: '/path/to/default.png',
+        imageEngine: 'ffmpeg',
+      });
+
+      mockExecAsync.mockRejectedValueOnce(new Error('Command not found'));
+
+      await expect(service.onPrepare()).rejects.toThrow('FFmpeg is required');
+    });
+
+    it('should require FFmpeg for degraded still images', async () => {
+      const service = new CameraService({
+        ...validOptions,
+        defaultCameraFeed: '/path/to/default.png',
+        imageEngine: 'native',
+        conversionOptions: { degrade: 'low-light' },
+      });
+
+      mockExecAsync.mockRejectedValueOnce(new Error('Command not found'));
+
+      await expect(service.onPrepare()).rejects.toThrow('FFmpeg is required to convert /path/to/default.png');
+    });
+
     it('should not check FFmpeg when using native mjpeg format', async () => {
       const service = new CameraService(validOptions);
 
       await service.onPrepare();
 
       // Should not have called ffmpeg -version
-      expect(mockExecAsync).not.toHaveBeenCalledWith(
-        expect.stringContaining('-version'),
-      );
+      expect(mockExecAsync).not.toHaveBeenCalled();
+    });
+
+    it('should reject a native default feed Chrome cannot play', async () => {
+      // The last frame was cut off
+      mockFs.readFileSync.mockReturnValue(Buffer.concat([mockMjpegFeed, mockMjpegFeed.subarray(0, 4)]));
+      const service = new CameraService(validOptions);
+
+      await expect(service.onPrepare()).rejects.toThrow(InvalidCameraFeedError);
+      await expect(service.onPrepare()).rejects.toThrow('frame 2 is truncated');
+    });
+
+    it('should reject a default feed of an unsupported format', async () => {
+      const service = new CameraService({ ...validOptions, defaultCameraFeed: 'notes.txt' });
+
+      await expect(service.onPrepare()).rejects.toThrow(UnsupportedFormatError);
     });
 
     it('should pre-convert default feed if non-native format', async () => {
@@ -164,9 +241,6 @@ describe('CameraService', () => {
         stderr: '',
       });
 
-      // Conversion call
-      mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
-
       mockFs.existsSync.mockImplementation((p) => {
         if (String(p).includes('.cache')) {return false;}
         return true;
@@ -175,10 +249,227 @@ describe('CameraService', () => {
       await service.onPrepare();
 
       // Should have called ffmpeg for conversion (second call)
-      expect(mockExecAsync).toHaveBeenCalledWith(
+      expect(ffmpegCommands()).toContainEqual(
         expect.stringContaining('-q:v 2'),
       );
     });
+
+    it('should request FFmpeg progress output with logConversionProgress', async () => {
+      const service = new CameraService({ ...validOptions, defaultCameraFeed: '/path/to/video.mp4', logConversionProgress: true });
+      mockExecAsync.mockResolvedValue({ stdout: 'ffmpeg version 6.0', stderr: '' });
+      mockFs.existsSync.mockImplementation((p) => !String(p).includes('.cache'));
+
+      await service.onPrepare();
+
+      expect(ffmpegCommands()).toContainEqual(expect.stringContaining('-progress pipe:1 -nostats'));
+    });
+
+    it('should download a remote default feed before converting it', async () => {
+      const url = 'https://artifacts.example.com/feeds/scan.mp4';
+      const service = new CameraService({ ...validOptions, defaultCameraFeed: url, downloadOptions: { retries: 5 } });
+      mockDownloadRemoteSource.mockResolvedValueOnce('/path/to/videos/.cache/downloads/0123abcd.mp4');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'ffmpeg version 6.0', stderr: '' });
+      mockFs.existsSync.mockImplementation((p) => !String(p).includes('.cache') || String(p).includes('downloads'));
+
+      await service.onPrepare();
+
+      expect(mockDownloadRemoteSource).toHaveBeenCalledWith(url, path.join('/path/to/videos', '.cache', 'downloads'), { retries: 5 });
+      expect(ffmpegCommands()).toContainEqual(expect.stringContaining('-i /path/to/videos/.cache/downloads/0123abcd.mp4'));
+    });
+
+    it('should record a downloaded default feed in the cache manifest', async () => {
+      const url = 'https://artifacts.example.com/feeds/scan.mp4';
+      const service = new CameraService({ ...validOptions, defaultCameraFeed: url });
+      mockDownloadRemoteSource.mockResolvedValueOnce('/path/to/videos/.cache/downloads/0123abcd.mp4');
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'ffmpeg version 6.0', stderr: '' });
+      mockFs.existsSync.mockImplementation((p) => !String(p).includes('.cache') || String(p).includes('downloads'));
+
+      await service.onPrepare();
+
+      const manifestWrite = mockFs.writeFileSync.mock.calls.find(([file]) => String(file).includes('manifest.json'));
+      expect(JSON.parse(String(manifestWrite?.[1])).entries[path.join('downloads', '0123abcd.mp4')])
+        .toMatchObject({ source: url, usedBy: [process.pid] });
+    });
+
+    it('should check a remote native default feed once downloaded', async () => {
+      const service = new CameraService({ ...validOptions, defaultCameraFeed: 'https://artifacts.example.com/feeds/scan.mjpeg' });
+      mockDownloadRemoteSource.mockResolvedValueOnce('/path/to/videos/.cache/downloads/0123abcd.mjpeg');
+      mockFs.readFileSync.mockReturnValue(Buffer.from('<html>Sign in</html>'));
+
+      await expect(service.onPrepare()).rejects.toThrow(InvalidCameraFeedError);
+      expect(mockExecAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onPrepare with a named default feed', () => {
+    it('should render the registered feed with its options', async () => {
+      const service = new CameraService({
+        ...validOptions,
+        defaultCameraFeed: 'blank',
+        feeds: { blank: { source: { pattern: 'solid', color: 'black' }, options: { width: 320 } } },
+      });
+
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'ffmpeg version 6.0', stderr: '' });
+      mockFs.existsSync.mockImplementation((p) => !String(p).includes('pattern-'));
+
+      await service.onPrepare();
+
+      expect(ffmpegCommands()).toContainEqual(
+        expect.stringContaining('-i color=c=black:s=640x480:r=30:d=1,scale=320:-2 '),
+      );
+    });
+
+    it('should pre-warm every registered feed and log a summary', async () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const service = new CameraService({
+        ...validOptions,
+        feeds: {
+          intro: 'fixtures/intro.mp4',
+          blank: { pattern: 'solid', color: 'black' },
+          native: 'fixtures/native.mjpeg',
+        },
+        prewarmConcurrency: 1,
+      });
+
+      mockExecAsync.mockResolvedValue({ stdout: 'ffmpeg version 6.0', stderr: '' });
+      mockFs.existsSync.mockImplementation((p) => !String(p).includes('.cache'));
+
+      await service.onPrepare();
+
+      expect(ffmpegCommands()).toContainEqual(expect.stringContaining('fixtures/intro.mp4'));
+      expect(ffmpegCommands()).toContainEqual(expect.stringContaining('color=c=black'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringMatching(/3 feeds, 2 converted, 0 cache hits, 1 native$/));
+    });
+
+    it('should check FFmpeg for registered feeds that need it', async () => {
+      const service = new CameraService({ ...validOptions, feeds: { intro: 'fixtures/intro.mp4' } });
+      mockExecAsync.mockRejectedValueOnce(new Error('Command not found'));
+
+      await expect(service.onPrepare()).rejects.toThrow('FFmpeg is required to convert fixtures/intro.mp4');
+    });
+
+    it('should not pre-warm when caching is disabled', async () => {
+      const service = new CameraService({ ...validOptions, cacheEnabled: false, feeds: { intro: 'fixtures/intro.mp4' } });
+
+      await service.onPrepare();
+
+      expect(mockExecAsync).not.toHaveBeenCalled();
+      expect(mockRunFfmpeg).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnknownFeedError for an unregistered default feed', () => {
+      mockFs.existsSync.mockImplementation((p) => !String(p).endsWith('missing'));
+
+      expect(() => new CameraService({ ...validOptions, defaultCameraFeed: 'missing', feeds: {} }))
+        .toThrow(UnknownFeedError);
+    });
+  });
+
+  describe('onPrepare with cache limits', () => {
+    it('should evict cache entries over the limits and log what was freed', async () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const service = new CameraService({ ...validOptions, cacheMaxSize: 500 });
+      mockFs.readdirSync.mockReturnValue(['stale.mjpeg'] as unknown as ReturnType<typeof fs.readdirSync>);
+
+      await service.onPrepare();
+
+      expect(mockFs.unlinkSync).toHaveBeenCalledWith(path.join('/path/to/videos', '.cache', 'stale.mjpeg'));
+      expect(logSpy).toHaveBeenCalledWith('Evicted 1 camera feed cache entries (1000 bytes)');
+    });
+
+    it('should not prune without limits', async () => {
+      const service = new CameraService(validOptions);
+
+      await service.onPrepare();
+
+      expect(mockFs.readdirSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onPrepare with a test pattern', () => {
+    it('should render a test pattern default feed', async () => {
+      const service = new CameraService({
+        ...validOptions,
+        defaultCameraFeed: { pattern: 'bars' },
+      });
+
+      // FFmpeg available
+      mockExecAsync.mockResolvedValueOnce({
+        stdout: 'ffmpeg version 6.0',
+        stderr: '',
+      });
+
+      // Rendering call
+
+      mockFs.existsSync.mockImplementation((p) => !String(p).includes('pattern-'));
+
+      await service.onPrepare();
+
+      expect(ffmpegCommands()).toContainEqual(
+        expect.stringContaining('smptebars'),
+      );
+    });
+
+    it('should describe the test pattern when FFmpeg is not available', async () => {
+      const service = new CameraService({
+        ...validOptions,
+        defaultCameraFeed: { pattern: 'solid', color: '#00ff00' },
+      });
+
+      mockExecAsync.mockRejectedValueOnce(new Error('Command not found'));
+
+      await expect(service.onPrepare()).rejects.toThrow('FFmpeg is required to convert {"pattern":"solid","color":"#00ff00"}');
+    });
+  });
+
+  describe('onPrepare with defaultAudioFeed', () => {
+    it('should pre-convert default audio feed if non-native format', async () => {
+      const options = {
+        ...validOptions,
+        defaultAudioFeed: '/path/to/speech.mp3',
+      };
+      const service = new CameraService(options);
+
+      // FFmpeg available
+      mockExecAsync.mockResolvedValueOnce({
+        stdout: 'ffmpeg version 6.0',
+        stderr: '',
+      });
+
+      mockFs.existsSync.mockImplementation((p) => {
+        if (String(p).includes('.cache')) {return false;}
+        return true;
+      });
+
+      await service.onPrepare();
+
+      expect(ffmpegCommands()).toContainEqual(
+        expect.stringContaining('-acodec pcm_s16le'),
+      );
+    });
+
+    it('should throw FfmpegNotFoundError naming the audio feed when FFmpeg is not available', async () => {
+      const options = {
+        ...validOptions,
+        defaultAudioFeed: '/path/to/speech.mp3',
+      };
+      const service = new CameraService(options);
+
+      mockExecAsync.mockRejectedValueOnce(new Error('Command not found'));
+
+      await expect(service.onPrepare()).rejects.toThrow('FFmpeg is required to convert /path/to/speech.mp3');
+    });
+
+    it('should not check FFmpeg when using native wav format', async () => {
+      const service = new CameraService({
+        ...validOptions,
+        defaultAudioFeed: '/path/to/speech.wav',
+      });
+
+      await service.onPrepare();
+
+      expect(mockExecAsync).not.toHaveBeenCalled();
+    });
   });
 
   describe('onWorkerStart', () => {
@@ -268,7 +559,63 @@ describe('CameraService', () => {
       ]);
     });
 
-    it('should log message for non-Chrome browsers', async () => {
+    it('should add fake audio capture flag when defaultAudioFeed is configured', async () => {
+      service = new CameraService({
+        ...validOptions,
+        defaultAudioFeed: '/path/to/speech.wav',
+      });
+      await service.onPrepare();
+
+      const capabilities = { ...mockCapabilities };
+      await service.onWorkerStart('test-cid', capabilities, [], {}, []);
+
+      expect(mockFs.readFileSync).toHaveBeenCalledWith(expect.stringContaining('speech.wav'));
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+        expect.stringContaining('test-cid.wav'),
+        expect.any(Uint8Array),
+      );
+      expect(capabilities['goog:chromeOptions']).toEqual({
+        args: [
+          '--use-fake-device-for-media-stream',
+          '--use-fake-ui-for-media-stream',
+          expect.stringContaining('--use-file-for-fake-video-capture='),
+          expect.stringContaining('--use-file-for-fake-audio-capture='),
+        ],
+      });
+    });
+
+    it('should use Android directory for the audio session file on Android Chrome', async () => {
+      service = new CameraService({
+        ...validOptions,
+        defaultAudioFeed: '/path/to/speech.wav',
+      });
+      await service.onPrepare();
+
+      const capabilities = { ...mockCapabilities, platformName: 'android' };
+      await service.onWorkerStart('test-cid', capabilities, [], {}, []);
+
+      expect(capabilities['goog:chromeOptions']).toEqual({
+        args: expect.arrayContaining([
+          expect.stringContaining('--use-file-for-fake-audio-capture=/storage/emulated/0/Android'),
+        ]),
+      });
+    });
+
+    it('should not add fake audio capture flag without defaultAudioFeed', async () => {
+      const capabilities = { ...mockCapabilities };
+
+      await service.onWorkerStart('test-cid', capabilities, [], {}, []);
+
+      expect(capabilities['goog:chromeOptions']).toEqual({
+        args: expect.not.arrayContaining([
+          expect.stringContaining('--use-file-for-fake-audio-capture='),
+        ]),
+      });
+    });
+
+    it('should log message for non-Chrome browsers when injectionMode is flags', async () => {
+      service = new CameraService({ ...validOptions, injectionMode: 'flags' });
+      await service.onPrepare();
       const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
       const capabilities = {
         ...mockCapabilities,
@@ -278,8 +625,49 @@ describe('CameraService', () => {
       await service.onWorkerStart('test-cid', capabilities, [], {}, []);
 
       expect(consoleSpy).toHaveBeenCalledWith(
-        'Injecting camera source only supported in Chrome browsers (current browserName: firefox)',
+        'Camera injection with injectionMode \'flags\' is not supported in firefox, it needs a Chromium-based browser',
+      );
+      expect(capabilities['goog:chromeOptions']).toBeUndefined();
+    });
+
+    it('should enable BiDi and fake media prefs for Firefox', async () => {
+      const capabilities: WebdriverIO.Capabilities = {
+        browserName: 'firefox',
+      };
+
+      await service.onWorkerStart('test-cid', capabilities, [], {}, []);
+
+      expect(capabilities.webSocketUrl).toBe(true);
+      expect(capabilities['moz:firefoxOptions']?.prefs).toEqual({
+        'media.navigator.permission.disabled': true,
+        'media.navigator.streams.fake': true,
+      });
+      expect(capabilities['goog:chromeOptions']).toBeUndefined();
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should not inject non-Chromium browsers with Y4M output in auto mode', async () => {
+      service = new CameraService({ ...validOptions, outputFormat: 'y4m' });
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const capabilities: WebdriverIO.Capabilities = { browserName: 'firefox' };
+
+      await service.onWorkerStart('test-cid', capabilities, [], {}, []);
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Camera injection via WebDriver BiDi plays MJPEG feeds only, firefox gets no camera feed with outputFormat \'y4m\'',
       );
+      expect(capabilities.webSocketUrl).toBeUndefined();
+      expect(capabilities['moz:firefoxOptions']).toBeUndefined();
+    });
+
+    it('should use BiDi injection for Chrome when injectionMode is bidi', async () => {
+      service = new CameraService({ ...validOptions, injectionMode: 'bidi' });
+      await service.onPrepare();
+      const capabilities: WebdriverIO.Capabilities = { browserName: 'chrome' };
+
+      await service.onWorkerStart('test-cid', capabilities, [], {}, []);
+
+      expect(capabilities.webSocketUrl).toBe(true);
       expect(capabilities['goog:chromeOptions']).toBeUndefined();
     });
 
@@ -295,6 +683,32 @@ describe('CameraService', () => {
       expect(capabilities['goog:chromeOptions']).toBeDefined();
     });
 
+    it('should write camera args into ms:edgeOptions for Microsoft Edge', async () => {
+      const capabilities: WebdriverIO.Capabilities = {
+        browserName: 'MicrosoftEdge',
+      };
+
+      await service.onWorkerStart('test-cid', capabilities, [], {}, []);
+
+      expect(capabilities['goog:chromeOptions']).toBeUndefined();
+      expect(capabilities['ms:edgeOptions']).toEqual({
+        args: [
+          '--use-fake-device-for-media-stream',
+          '--use-fake-ui-for-media-stream',
+          expect.stringContaining('--use-file-for-fake-video-capture='),
+        ],
+      });
+    });
+
+    it.each(['brave', 'opera', 'chromium'])('should write camera args into goog:chromeOptions for %s', async (browserName) => {
+      const capabilities: WebdriverIO.Capabilities = { browserName };
+
+      await service.onWorkerStart('test-cid', capabilities, [], {}, []);
+
+      expect(capabilities.webSocketUrl).toBeUndefined();
+      expect(capabilities['goog:chromeOptions']?.args).toContain('--use-fake-device-for-media-stream');
+    });
+
     it('should use y4m extension when outputFormat is y4m', async () => {
       const options = {
         ...validOptions,
@@ -360,6 +774,323 @@ describe('CameraService', () => {
       );
     });
 
+    it('should add showCodeToCamera command to browser', () => {
+      service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+
+      expect(mockBrowser.addCommand).toHaveBeenCalledWith(
+        'showCodeToCamera',
+        expect.any(Function),
+      );
+    });
+
+    describe('showCodeToCamera command', () => {
+      it('should render the code and overwrite the session feed', async () => {
+        service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+        const showCodeToCameraFn = mockBrowser.addCommand.mock.calls[2][1];
+        mockFs.existsSync.mockImplementation((p) => !String(p).includes('code-') || String(p).endsWith('.png'));
+        // FFmpeg available (imageEngine 'auto' checks once)
+        mockExecAsync.mockResolvedValueOnce({ stdout: 'ffmpeg version 6.0', stderr: '' });
+
+        await showCodeToCameraFn({ type: 'qr', data: 'https://webdriver.io' });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('flags=neighbor'),
+        );
+        expect(mockFs.readFileSync).toHaveBeenCalledWith(expect.stringMatching(/code-[0-9a-f]{64}\.mjpeg$/));
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('video.mjpeg'),
+          expect.any(Uint8Array),
+        );
+      });
+
+      it('should reject unsupported code types listing the supported ones', async () => {
+        service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+        const showCodeToCameraFn = mockBrowser.addCommand.mock.calls[2][1];
+
+        await expect(showCodeToCameraFn({ type: 'upc', data: '012345678905' }))
+          .rejects.toThrow('Unsupported code type "upc", expected one of qr, ean13, code128, datamatrix');
+        expect(mockExecAsync).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should add changeAudioSource command to browser', () => {
+      service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+
+      expect(mockBrowser.addCommand).toHaveBeenCalledWith(
+        'changeAudioSource',
+        expect.any(Function),
+      );
+    });
+
+    describe('changeAudioSource command', () => {
+      let changeAudioSourceFn: Function;
+
+      beforeEach(() => {
+        mockBrowser.requestedCapabilities = {
+          'goog:chromeOptions': {
+            args: [
+              '--use-file-for-fake-video-capture=/existing/path/video.mjpeg',
+              '--use-file-for-fake-audio-capture=/existing/path/audio.wav',
+            ],
+          },
+        };
+        service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+        changeAudioSourceFn = mockBrowser.addCommand.mock.calls[1][1];
+      });
+
+      it('should overwrite the audio session file for desktop Chrome', async () => {
+        await changeAudioSourceFn('new/audio/speech.wav');
+
+        expect(mockFs.readFileSync).toHaveBeenCalledWith(expect.stringContaining('new/audio/speech.wav'));
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('audio.wav'),
+          expect.any(Uint8Array),
+        );
+      });
+
+      it('should convert compressed audio to WAV before changing audio source', async () => {
+        mockFs.existsSync.mockImplementation((p) => {
+          if (String(p).includes('.cache')) {return false;}
+          return true;
+        });
+
+        await changeAudioSourceFn('new/audio/speech.mp3');
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('-f wav'),
+        );
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('audio.wav'),
+          expect.any(Uint8Array),
+        );
+      });
+
+      it('should throw error when new audio source does not exist', async () => {
+        mockFs.existsSync.mockReturnValue(false);
+
+        await expect(changeAudioSourceFn('missing/speech.wav')).rejects.toThrow(
+          'New source audio feed',
+        );
+      });
+
+      it('should not touch any file when no fake audio capture flag is present', async () => {
+        mockBrowser.requestedCapabilities = {
+          'goog:chromeOptions': { args: ['--use-file-for-fake-video-capture=/existing/path/video.mjpeg'] },
+        };
+
+        await changeAudioSourceFn('new/audio/speech.wav');
+
+        expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('getCameraSourceInfo command', () => {
+      let getCameraSourceInfoFn: Function;
+
+      beforeEach(async () => {
+        await service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+        getCameraSourceInfoFn = mockBrowser.addCommand.mock.calls[3][1];
+      });
+
+      it('should inspect the default feed before the source is changed', async () => {
+        expect(mockBrowser.addCommand).toHaveBeenCalledWith('getCameraSourceInfo', expect.any(Function));
+        expect(await getCameraSourceInfoFn()).toMatchObject({
+          path: expect.stringContaining('path/to/default.mjpeg'),
+          format: 'mjpeg',
+          fps: 30,
+          frameCount: 1,
+          durationMs: 33,
+          size: 1000,
+        });
+      });
+
+      it('should inspect the last camera source applied', async () => {
+        mockFs.readFileSync.mockReturnValue(Buffer.concat([mockMjpegFeed, mockMjpegFeed]));
+        await mockBrowser.addCommand.mock.calls[0][1]('new/video/two-frames.mjpeg');
+
+        expect(await getCameraSourceInfoFn()).toMatchObject({
+          path: expect.stringContaining('new/video/two-frames.mjpeg'),
+          frameCount: 2,
+        });
+      });
+    });
+
+    describe('resetCameraSource and withCameraSource commands', () => {
+      let changeCameraSourceFn: Function;
+      let resetCameraSourceFn: Function;
+      let withCameraSourceFn: Function;
+
+      /**
+       * Feed files copied into the session feed, in order
+       */
+      const playedFeeds = () => mockFs.writeFileSync.mock.calls
+        .filter(([filePath]) => String(filePath).endsWith('video.mjpeg'))
+        .map(([, data]) => Buffer.from(data as Uint8Array).subarray(mockMjpegFeed.length).toString());
+
+      beforeEach(async () => {
+        await service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+        [changeCameraSourceFn, , , , resetCameraSourceFn, withCameraSourceFn] = mockBrowser.addCommand.mock.calls.map(([, fn]) => fn);
+        // Every feed file ends with its own name, so the session feed shows which one plays
+        mockFs.readFileSync.mockImplementation(((filePath: string) => (
+          Buffer.concat([mockMjpegFeed, Buffer.from(path.basename(String(filePath)))])
+        )) as typeof fs.readFileSync);
+      });
+
+      it('should register the commands', () => {
+        expect(mockBrowser.addCommand).toHaveBeenCalledWith('resetCameraSource', expect.any(Function));
+        expect(mockBrowser.addCommand).toHaveBeenCalledWith('withCameraSource', expect.any(Function));
+      });
+
+      it('should go back to the default feed', async () => {
+        await changeCameraSourceFn('new/video/other.mjpeg');
+        await resetCameraSourceFn();
+
+        expect(playedFeeds()).toEqual(['other.mjpeg', 'default.mjpeg']);
+      });
+
+      it('should not rewrite the session feed when the default feed plays', async () => {
+        await resetCameraSourceFn();
+        await changeCameraSourceFn('new/video/other.mjpeg');
+        await resetCameraSourceFn();
+        await resetCameraSourceFn();
+
+        expect(playedFeeds()).toEqual(['other.mjpeg', 'default.mjpeg']);
+      });
+
+      it('should play a source while the callback runs and return its result', async () => {
+        const callback = vi.fn(async () => {
+          expect(playedFeeds()).toEqual(['scoped.mjpeg']);
+          return 'scanned';
+        });
+
+        await expect(withCameraSourceFn('new/video/scoped.mjpeg', callback)).resolves.toBe('scanned');
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(playedFeeds()).toEqual(['scoped.mjpeg', 'default.mjpeg']);
+      });
+
+      it('should restore the previous source when the callback throws', async () => {
+        await changeCameraSourceFn('new/video/outer.mjpeg');
+
+        await expect(withCameraSourceFn('new/video/scoped.mjpeg', async () => {
+          throw new Error('QR code not detected');
+        })).rejects.toThrow('QR code not detected');
+
+        expect(playedFeeds()).toEqual(['outer.mjpeg', 'scoped.mjpeg', 'outer.mjpeg']);
+      });
+
+      it('should restore the outer source of nested scopes', async () => {
+        await withCameraSourceFn('new/video/outer.mjpeg', () => withCameraSourceFn('new/video/inner.mjpeg', () => {}));
+
+        expect(playedFeeds()).toEqual(['outer.mjpeg', 'inner.mjpeg', 'outer.mjpeg', 'default.mjpeg']);
+      });
+
+      it('should reset after each test and scenario with autoResetCameraSource', async () => {
+        service = new CameraService({ ...validOptions, autoResetCameraSource: true });
+        mockBrowser.addCommand.mockClear();
+        await service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+        changeCameraSourceFn = mockBrowser.addCommand.mock.calls[0][1];
+
+        await changeCameraSourceFn('new/video/test.mjpeg');
+        await service.afterTest();
+        await changeCameraSourceFn('new/video/scenario.mjpeg');
+        await service.afterScenario();
+
+        expect(playedFeeds()).toEqual(['test.mjpeg', 'default.mjpeg', 'scenario.mjpeg', 'default.mjpeg']);
+      });
+
+      it('should not reset after tests by default', async () => {
+        await changeCameraSourceFn('new/video/other.mjpeg');
+        await service.afterTest();
+        await service.afterScenario();
+
+        expect(playedFeeds()).toEqual(['other.mjpeg']);
+      });
+
+      describe('camera tags', () => {
+        const mochaTest = (fullTitle: string) => ({ title: fullTitle, fullTitle, fullName: '' }) as Frameworks.Test;
+        const scenario = (...tags: string[]) => ({ pickle: { name: 'Scan', tags: tags.map((name) => ({ name })) } }) as Frameworks.World;
+
+        it('should play the source of a test title tag until the test ends', async () => {
+          await service.beforeTest(mochaTest('Scanner should read a code @camera:new/video/tagged.mjpeg'));
+          await service.afterTest();
+
+          expect(playedFeeds()).toEqual(['tagged.mjpeg', 'default.mjpeg']);
+        });
+
+        it('should prefer the test tag over the suite tag', async () => {
+          await service.beforeTest(mochaTest('Scanner @camera:new/video/suite.mjpeg should read a code @camera:new/video/test.mjpeg'));
+
+          expect(playedFeeds()).toEqual(['test.mjpeg']);
+        });
+
+        it('should read Jasmine full names', async () => {
+          await service.beforeTest({ title: 'should read a code', fullName: 'Scanner @camera:new/video/tagged.mjpeg should read a code' } as Frameworks.Test);
+
+          expect(playedFeeds()).toEqual(['tagged.mjpeg']);
+        });
+
+        it('should play the source of a scenario tag until the scenario ends', async () => {
+          await service.beforeScenario(scenario('@camera:new/video/feature.mjpeg', '@smoke', '@camera:new/video/scenario.mjpeg'));
+          await service.afterScenario();
+
+          expect(playedFeeds()).toEqual(['scenario.mjpeg', 'default.mjpeg']);
+        });
+
+        it('should leave untagged tests alone', async () => {
+          await changeCameraSourceFn('new/video/other.mjpeg');
+          await service.beforeTest(mochaTest('Scanner should read a code'));
+          await service.beforeScenario({ pickle: { name: 'Scan' } });
+          await service.afterTest();
+
+          expect(playedFeeds()).toEqual(['other.mjpeg']);
+        });
+      });
+    });
+
+    describe('playCameraTimeline command', () => {
+      let playCameraTimelineFn: Function;
+
+      beforeEach(async () => {
+        await service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+        playCameraTimelineFn = mockBrowser.addCommand.mock.calls[6][1];
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('timeline-'));
+      });
+
+      it('should register the command', () => {
+        expect(mockBrowser.addCommand).toHaveBeenCalledWith('playCameraTimeline', expect.any(Function));
+      });
+
+      it('should play every segment from one feed', async () => {
+        await playCameraTimelineFn([
+          { source: 'new/video/blank.mjpeg', duration: 1000 },
+          { source: 'new/video/qr.mjpeg', duration: 100 },
+        ]);
+
+        // 30 frames of the first feed, then 3 of the second one
+        expect(mockFs.writeSync.mock.calls.filter(([, data]) => Buffer.isBuffer(data))).toHaveLength(33);
+        expect(mockFs.readFileSync).toHaveBeenCalledWith(expect.stringMatching(/\.cache\/timeline-[0-9a-f]{64}\.mjpeg$/));
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('video.mjpeg'),
+          expect.any(Uint8Array),
+        );
+      });
+
+      it('should download remote segment sources', async () => {
+        const url = 'https://artifacts.example.com/feeds/qr.mjpeg';
+        mockDownloadRemoteSource.mockResolvedValueOnce('/path/to/videos/.cache/downloads/0123abcd.mjpeg');
+
+        await playCameraTimelineFn([{ source: url, duration: 500 }], { fps: 10 });
+
+        expect(mockDownloadRemoteSource).toHaveBeenCalledWith(url, path.join('/path/to/videos', '.cache', 'downloads'), undefined);
+        expect(mockFs.readFileSync).toHaveBeenCalledWith(expect.stringContaining('.cache/downloads/0123abcd.mjpeg'));
+      });
+
+      it('should reject an empty timeline', async () => {
+        await expect(playCameraTimelineFn([])).rejects.toThrow('A camera timeline needs at least one segment');
+        expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      });
+    });
+
     describe('changeCameraSource command', () => {
       let changeCameraSourceFn: Function;
 
@@ -383,7 +1114,7 @@ describe('CameraService', () => {
       it('should change camera source for Android Chrome using pushFile', async () => {
         mockBrowser.capabilities.platformName = 'android';
         const newVideoPath = 'new/video/path.mjpeg';
-        const mockVideoData = Buffer.from('new video data');
+        const mockVideoData = Buffer.concat([mockMjpegFeed, mockMjpegFeed]);
         mockFs.readFileSync.mockReturnValue(mockVideoData);
 
         await changeCameraSourceFn(newVideoPath);
@@ -395,6 +1126,51 @@ describe('CameraService', () => {
         );
       });
 
+      it('should change camera source for Microsoft Edge using ms:edgeOptions', async () => {
+        const edgeBrowser = {
+          ...mockBrowser,
+          capabilities: { browserName: 'MicrosoftEdge', platformName: 'windows' },
+          requestedCapabilities: {
+            'ms:edgeOptions': {
+              args: ['--use-file-for-fake-video-capture=/existing/path/edge.mjpeg'],
+            },
+          },
+          addCommand: vi.fn(),
+        };
+        service.before({}, {}, edgeBrowser as unknown as WebdriverIO.Browser);
+        const edgeChangeCameraSourceFn = edgeBrowser.addCommand.mock.calls[0][1];
+
+        await edgeChangeCameraSourceFn('new/video/path.mjpeg');
+
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('edge.mjpeg'),
+          expect.any(Uint8Array),
+        );
+      });
+
+      it('should reject a native camera source Chrome cannot play', async () => {
+        mockFs.readFileSync.mockReturnValue(Buffer.from('not a video'));
+
+        await expect(changeCameraSourceFn('new/video/broken.mjpeg')).rejects.toThrow(
+          'file does not start with a JPEG SOI marker',
+        );
+        expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      });
+
+      it('should reject an extensionless file that is not media', async () => {
+        const errorPage = Buffer.from('<!DOCTYPE html><html><body>Not Found</body></html>');
+        mockFs.readSync.mockImplementation((_fd, buffer, offset, length) => errorPage.copy(buffer as Buffer, offset, 0, length));
+
+        await expect(changeCameraSourceFn('new/video/download')).rejects.toThrow(UnsupportedFormatError);
+        await expect(changeCameraSourceFn('new/video/download')).rejects.toThrow('content: HTML document');
+        expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      });
+
+      it('should reject a file of an unsupported format', async () => {
+        await expect(changeCameraSourceFn('new/video/notes.txt')).rejects.toThrow(UnsupportedFormatError);
+        expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      });
+
       it('should throw error when new camera source does not exist', async () => {
         mockFs.existsSync.mockReturnValue(false);
         const newVideoPath = 'nonexistent/video/path.mjpeg';
@@ -424,7 +1200,7 @@ describe('CameraService', () => {
       it('should handle case when no camera source is found in capabilities', async () => {
         mockBrowser.requestedCapabilities = { 'goog:chromeOptions': { args: [] } };
         service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
-        const changeCameraSourceFnNoSource = mockBrowser.addCommand.mock.calls[1][1];
+        const changeCameraSourceFnNoSource = mockBrowser.addCommand.mock.calls[7][1];
 
         await changeCameraSourceFnNoSource('new/video/path.mjpeg');
 
@@ -441,8 +1217,54 @@ describe('CameraService', () => {
 
         service.before({}, {}, freshMockBrowser as unknown as WebdriverIO.Browser);
 
-        // Only one addCommand should be called in this case
-        expect(freshMockBrowser.addCommand).toHaveBeenCalledTimes(1);
+        // Only the camera, audio, code, source info, reset, scoped source and timeline commands should be added in this case
+        expect(freshMockBrowser.addCommand).toHaveBeenCalledTimes(7);
+      });
+
+      it('should download a remote camera source', async () => {
+        const url = 'https://artifacts.example.com/feeds/scan.mjpeg?version=2';
+        mockDownloadRemoteSource.mockResolvedValueOnce('/path/to/videos/.cache/downloads/0123abcd.mjpeg');
+
+        await changeCameraSourceFn(url);
+
+        expect(mockDownloadRemoteSource).toHaveBeenCalledWith(url, path.join('/path/to/videos', '.cache', 'downloads'), undefined);
+        expect(mockFs.readFileSync).toHaveBeenCalledWith(expect.stringContaining('.cache/downloads/0123abcd.mjpeg'));
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('video.mjpeg'),
+          expect.any(Uint8Array),
+        );
+      });
+
+      it('should write an in-memory feed to a content-addressed file', async () => {
+        const hash = crypto.createHash('sha256').update(mockMjpegFeed).digest('hex');
+
+        await changeCameraSourceFn(mockMjpegFeed, { format: 'mjpeg' });
+
+        expect(mockFs.readFileSync).toHaveBeenCalledWith(expect.stringContaining(`.cache/sources/${hash}.mjpeg`));
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('video.mjpeg'),
+          expect.any(Uint8Array),
+        );
+      });
+
+      it('should record an in-memory feed in the cache manifest', async () => {
+        const hash = crypto.createHash('sha256').update(mockMjpegFeed).digest('hex');
+
+        await changeCameraSourceFn(mockMjpegFeed, { format: 'mjpeg' });
+
+        const manifestWrite = mockFs.writeFileSync.mock.calls.find(([file]) => String(file).includes('manifest.json'));
+        expect(JSON.parse(String(manifestWrite?.[1])).entries[path.join('sources', `${hash}.mjpeg`)])
+          .toMatchObject({ source: 'in-memory mjpeg', usedBy: [process.pid] });
+      });
+
+      it('should convert an in-memory image with its conversion options', async () => {
+        mockFs.existsSync.mockImplementation((p) => !String(p).includes('.cache') || String(p).includes('sources'));
+        mockExecAsync.mockResolvedValueOnce({ stdout: 'ffmpeg version 6.0', stderr: '' });
+
+        await changeCameraSourceFn(Readable.from([Buffer.from('rendered document')]), { format: 'png', rotate: 90 });
+
+        const hash = crypto.createHash('sha256').update('rendered document').digest('hex');
+        expect(ffmpegCommands()).toContainEqual(expect.stringMatching(new RegExp(`-i \\S+/\\.cache/sources/${hash}\\.png .*transpose=clock`)));
       });
 
       it('should convert video format before changing camera source', async () => {
@@ -452,33 +1274,209 @@ describe('CameraService', () => {
           return true;
         });
 
-        mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
-
         const newVideoPath = 'new/video/path.mp4';
         await changeCameraSourceFn(newVideoPath);
 
         // Should have called FFmpeg for conversion
-        expect(mockExecAsync).toHaveBeenCalledWith(
+        expect(ffmpegCommands()).toContainEqual(
           expect.stringContaining('-q:v 2'),
         );
       });
 
+      it('should convert an image sequence pattern before changing camera source', async () => {
+        // The pattern is not a file, its frames are
+        mockFs.existsSync.mockImplementation((p) => !String(p).includes('%') && !String(p).includes('sequence-'));
+        mockFs.readdirSync.mockReturnValue(['frame_0002.png', 'frame_0001.png'] as unknown as ReturnType<typeof fs.readdirSync>);
+
+        await changeCameraSourceFn('new/frames/frame_%04d.png', { fps: 10 });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('-f concat -safe 0'),
+        );
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('video.mjpeg'),
+          expect.any(Uint8Array),
+        );
+      });
+
+      it('should render a test pattern before changing camera source', async () => {
+        mockFs.existsSync.mockImplementation((p) => !String(p).includes('pattern-'));
+
+        await changeCameraSourceFn({ pattern: 'noise', seed: 7 });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('all_seed=7'),
+        );
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('video.mjpeg'),
+          expect.any(Uint8Array),
+        );
+      });
+
       it('should convert image format before changing camera source', async () => {
         mockFs.existsSync.mockImplementation((p) => {
           if (String(p).includes('.cache')) {return false;}
           return true;
         });
 
-        mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+        // FFmpeg available (imageEngine 'auto' checks once)
+        mockExecAsync.mockResolvedValueOnce({ stdout: 'ffmpeg version 6.0', stderr: '' });
 
         const newImagePath = 'new/image/qrcode.png';
         await changeCameraSourceFn(newImagePath);
 
         // Should have called FFmpeg for image conversion (single frame)
-        expect(mockExecAsync).toHaveBeenCalledWith(
+        expect(ffmpegCommands()).toContainEqual(
           expect.stringContaining('-frames:v 1'),
         );
       });
+
+      it('should resolve registered feed names', async () => {
+        const feedsService = new CameraService({ ...validOptions, feeds: { qrValid: 'fixtures/qr.mjpeg' } });
+        const feedsBrowser = { ...mockBrowser, addCommand: vi.fn() };
+        await feedsService.before({}, {}, feedsBrowser as unknown as WebdriverIO.Browser);
+
+        await feedsBrowser.addCommand.mock.calls[0][1]('qrValid');
+
+        expect(mockFs.readFileSync).toHaveBeenCalledWith(expect.stringContaining('fixtures/qr.mjpeg'));
+      });
+
+      it('should reject unknown feed names listing the registered feeds', async () => {
+        const feedsService = new CameraService({ ...validOptions, feeds: { qrValid: 'fixtures/qr.mjpeg', blank: { pattern: 'solid' } } });
+        const feedsBrowser = { ...mockBrowser, addCommand: vi.fn() };
+        await feedsService.before({}, {}, feedsBrowser as unknown as WebdriverIO.Browser);
+        mockFs.existsSync.mockImplementation((p) => !String(p).endsWith('qrInvalid'));
+
+        await expect(feedsBrowser.addCommand.mock.calls[0][1]('qrInvalid'))
+          .rejects.toThrow('Registered feeds: qrValid, blank');
+      });
+
+      it('should re-encode a native feed with per-call conversion options', async () => {
+        mockFs.existsSync.mockImplementation((p) => !String(p).includes('.cache'));
+
+        await changeCameraSourceFn('new/video/path.mjpeg', { rotate: 180 });
+
+        expect(ffmpegCommands()).toContainEqual(expect.stringContaining('-vf hflip,vflip '));
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          expect.stringContaining('video.mjpeg'),
+          expect.any(Uint8Array),
+        );
+      });
+
+      it('should merge per-call options over the service conversionOptions', async () => {
+        const defaultsService = new CameraService({ ...validOptions, conversionOptions: { mirror: true, width: 640 } });
+        const defaultsBrowser = { ...mockBrowser, addCommand: vi.fn() };
+        await defaultsService.before({}, {}, defaultsBrowser as unknown as WebdriverIO.Browser);
+        mockFs.existsSync.mockImplementation((p) => !String(p).includes('.cache'));
+
+        await defaultsBrowser.addCommand.mock.calls[0][1]('new/video/path.mp4', { width: 320 });
+
+        expect(ffmpegCommands()).toContainEqual(expect.stringContaining('-vf hflip,scale=320:-2 '));
+      });
+    });
+  });
+
+  describe('before with BiDi injection', () => {
+    const jpegFrame = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x01, 0x02, 0xff, 0xd9]);
+    let service: CameraService;
+    let mockBrowser: {
+      isBidi: boolean;
+      capabilities: { browserName: string };
+      requestedCapabilities: object;
+      addCommand: ReturnType<typeof vi.fn>;
+      scriptAddPreloadScript: ReturnType<typeof vi.fn>;
+      scriptRemovePreloadScript: ReturnType<typeof vi.fn>;
+      execute: ReturnType<typeof vi.fn>;
+    };
+
+    beforeEach(async () => {
+      service = new CameraService(validOptions);
+      mockBrowser = {
+        isBidi: true,
+        capabilities: { browserName: 'firefox' },
+        requestedCapabilities: {},
+        addCommand: vi.fn(),
+        scriptAddPreloadScript: vi.fn()
+          .mockResolvedValueOnce({ script: 'preload-1' })
+          .mockResolvedValueOnce({ script: 'preload-2' }),
+        scriptRemovePreloadScript: vi.fn(),
+        execute: vi.fn(),
+      };
+      mockFs.readFileSync.mockReturnValue(Buffer.concat([jpegFrame, jpegFrame]));
+      vi.spyOn(process, 'cwd').mockReturnValue('/current/working/dir');
+      await service.onPrepare();
+    });
+
+    it('should register the getUserMedia shim with the default feed', async () => {
+      await service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+
+      expect(mockBrowser.scriptAddPreloadScript).toHaveBeenCalledTimes(1);
+      const { functionDeclaration } = mockBrowser.scriptAddPreloadScript.mock.calls[0][0];
+      expect(functionDeclaration).toContain('getUserMedia');
+      expect(functionDeclaration).toContain(jpegFrame.toString('base64'));
+      expect(mockBrowser.execute).not.toHaveBeenCalled();
+    });
+
+    it('should not register the shim when the session has no BiDi connection', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      mockBrowser.isBidi = false;
+
+      await service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+
+      expect(mockBrowser.scriptAddPreloadScript).not.toHaveBeenCalled();
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('requires WebDriver BiDi support'));
+    });
+
+    it('should replace the preload script and update the current page on changeCameraSource', async () => {
+      await service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+      const changeCameraSourceFn = mockBrowser.addCommand.mock.calls[0][1];
+
+      await changeCameraSourceFn('new/video/path.mjpeg');
+
+      expect(mockBrowser.scriptRemovePreloadScript).toHaveBeenCalledWith({ script: 'preload-1' });
+      expect(mockBrowser.scriptAddPreloadScript).toHaveBeenCalledTimes(2);
+      expect(mockBrowser.execute).toHaveBeenCalledWith(
+        expect.any(Function),
+        '__wdioCameraShim',
+        [jpegFrame.toString('base64'), jpegFrame.toString('base64')],
+        30,
+      );
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should restore the default feed in the shim after withCameraSource', async () => {
+      mockBrowser.scriptAddPreloadScript.mockResolvedValueOnce({ script: 'preload-3' });
+      await service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+      const withCameraSourceFn = mockBrowser.addCommand.mock.calls[5][1];
+
+      await withCameraSourceFn('new/video/path.mjpeg', async () => {});
+
+      expect(mockBrowser.scriptRemovePreloadScript).toHaveBeenLastCalledWith({ script: 'preload-2' });
+      expect(mockBrowser.scriptAddPreloadScript).toHaveBeenCalledTimes(3);
+      expect(mockBrowser.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject feeds too large to embed in every page', async () => {
+      await service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser);
+      const changeCameraSourceFn = mockBrowser.addCommand.mock.calls[0][1];
+      mockFs.readFileSync.mockReturnValue(Buffer.concat([jpegFrame, Buffer.alloc(MAX_SHIM_FEED_SIZE)]));
+
+      await expect(changeCameraSourceFn('new/video/long.mjpeg')).rejects.toThrow(
+        `is ${MAX_SHIM_FEED_SIZE + jpegFrame.length} bytes, over the ${MAX_SHIM_FEED_SIZE} bytes WebDriver BiDi injection embeds in every page`,
+      );
+      expect(mockBrowser.scriptAddPreloadScript).toHaveBeenCalledTimes(1);
+      expect(mockBrowser.execute).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-MJPEG feeds', async () => {
+      const y4mFeed = Buffer.from('YUV4MPEG2 W2 H2 F30:1\nFRAME\n\0\0\0\0\0\0');
+      mockFs.statSync.mockReturnValue({ size: y4mFeed.length } as fs.Stats);
+      mockFs.readSync.mockImplementation((_fd, buffer, offset, length, position) => y4mFeed.copy(buffer as Buffer, offset, Number(position), Number(position) + length));
+      service = new CameraService({ ...validOptions, defaultCameraFeed: '/path/to/default.y4m' });
+
+      await expect(service.before({}, {}, mockBrowser as unknown as WebdriverIO.Browser)).rejects.toThrow(
+        'requires an MJPEG feed',
+      );
     });
   });
 });
@@ -1,17 +1,81 @@
-import type { Options, Services } from '@wdio/types';
+import type { Frameworks, Options, Services } from '@wdio/types';
 import { SevereServiceError } from 'webdriverio';
 import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
-import { FormatConverter, requiresConversion } from './format-converter.js';
+import { FormatConverter, detectFormat, requiresConversion, supportsNativeEngine } from './format-converter.js';
+import type { ImageEngine } from './format-converter.js';
 import { checkFfmpegAvailability, getInstallationInstructions } from './ffmpeg-checker.js';
-import { FfmpegNotFoundError } from './errors.js';
+import { FfmpegNotFoundError, UnsupportedFormatError } from './errors.js';
+import { detectChromiumBrowser } from './browser-detection.js';
+import { DEFAULT_SHIM_FRAME_RATE, MAX_SHIM_FEED_SIZE, SHIM_GLOBAL, createPreloadScript, extractMjpegFrames } from './media-shim.js';
+import type { ShimFeed } from './media-shim.js';
+import { isGeneratedSource } from './camera-source.js';
+import type { CameraSource } from './camera-source.js';
+import type { CodeDescriptor } from './code-generator.js';
+import type { ConversionOptions } from './conversion-options.js';
+import { isSequencePattern } from './image-sequence.js';
+import { sniffFileFormat } from './format-sniffer.js';
+import { validateCameraFeed } from './feed-validator.js';
+import { getFfprobePath, inspectCameraFeed } from './feed-inspector.js';
+import type { CameraFeedMetadata } from './feed-inspector.js';
+import { resolveFeed } from './feed-registry.js';
+import type { FeedRegistry, ResolvedFeed } from './feed-registry.js';
+import { expandFeedGlobs, formatPrewarmSummary, prewarmCache } from './cache-prewarm.js';
+import type { PrewarmJob } from './cache-prewarm.js';
+import { createProgressLogger } from './ffmpeg-progress.js';
+import { DOWNLOADS_DIRECTORY, downloadRemoteSource, isRemoteSource } from './remote-source.js';
+import type { DownloadOptions } from './remote-source.js';
+import { MEMORY_SOURCES_DIRECTORY, isInMemorySource, writeInMemorySource } from './memory-source.js';
+import type { InMemorySource, InMemorySourceOptions } from './memory-source.js';
+import { findCameraTag } from './camera-tags.js';
+import type { TimelineOptions, TimelineSegment } from './camera-timeline.js';
+
+/** Interval between progress logs of a long conversion, with logConversionProgress */
+const PROGRESS_LOG_INTERVAL = 5000;
+
+const VIDEO_CAPTURE_FLAG = '--use-file-for-fake-video-capture';
+const AUDIO_CAPTURE_FLAG = '--use-file-for-fake-audio-capture';
+
+/**
+ * How the camera feed is injected into the browser
+ * - 'flags': Chrome fake capture command line flags
+ * - 'bidi': getUserMedia shim registered as a WebDriver BiDi preload script
+ * - 'auto': flags for Chromium-based browsers, BiDi for everything else (no injection with Y4M output, BiDi plays MJPEG only)
+ */
+export type InjectionMode = 'auto' | 'flags' | 'bidi';
 
 export interface CameraServiceOptions {
-  defaultCameraFeed: string;
+  defaultCameraFeed: CameraSource;
+  defaultAudioFeed?: string;
   videoDirectory: string;
   ffmpegPath?: string;
   cacheEnabled?: boolean;
+  /** Maximum total size of the conversion cache in bytes */
+  cacheMaxSize?: number;
+  /** Maximum time in milliseconds since a conversion cache entry was last used */
+  cacheMaxAge?: number;
+  /** Time in milliseconds after which a conversion lock left by a crashed worker is taken over */
+  lockStaleTimeout?: number;
+  /** Maximum time in milliseconds for one FFmpeg conversion */
+  conversionTimeout?: number;
+  /** Log the progress of conversions running longer than a few seconds */
+  logConversionProgress?: boolean;
   outputFormat?: 'mjpeg' | 'y4m';
+  imageEngine?: ImageEngine;
+  injectionMode?: InjectionMode;
+  /** Default transforms applied to every camera source, overridable per changeCameraSource call */
+  conversionOptions?: ConversionOptions;
+  /** Named camera sources, usable in place of a source in defaultCameraFeed and changeCameraSource */
+  feeds?: FeedRegistry;
+  /** Glob patterns of extra sources to convert in onPrepare, besides the registered feeds */
+  prewarmFeeds?: string[];
+  /** Maximum number of conversions running at once while pre-warming the cache (defaults to the CPU count) */
+  prewarmConcurrency?: number;
+  /** Size limit, retries, timeout and headers of http(s) camera sources */
+  downloadOptions?: DownloadOptions;
+  /** Go back to the default camera feed after every test (afterTest) and Cucumber scenario (afterScenario) */
+  autoResetCameraSource?: boolean;
 }
 
 export default class CameraService implements Services.ServiceInstance {
@@ -19,13 +83,30 @@ export default class CameraService implements Services.ServiceInstance {
   private androidVideoDirectory: string = '/storage/emulated/0/Android/data/com.android.chrome/files/Download';
   private converter: FormatConverter | undefined;
   private convertedDefaultFeed: string | undefined;
-  private readonly needsConversion: boolean;
+  private convertedDefaultAudioFeed: string | undefined;
+  private defaultFeed: ResolvedFeed;
+  private needsConversion: boolean;
+  private readonly needsAudioConversion: boolean;
+  private shimScriptId: string | undefined;
+  /** Native feed file last played by the browser's camera, undefined until a source is applied in this worker */
+  private activeCameraFeed: string | undefined;
+  /** Native feed file of the default camera feed in this worker, once resolved */
+  private defaultCameraFeedPath: string | undefined;
+  private injectionMode: 'flags' | 'bidi' | null = null;
+  /** The running test or scenario plays the source of its `@camera:` tag, reset once it ends */
+  private taggedSourceApplied = false;
 
   constructor(private readonly _options: CameraServiceOptions) {
     if (!this._options.videoDirectory || !this._options.defaultCameraFeed) {
       throw new SevereServiceError('Please configure default camera feed path (/path/to/default.mjpeg) and video directory!');
     }
-    this.needsConversion = requiresConversion(this._options.defaultCameraFeed);
+    if (this._options.injectionMode === 'bidi' && this._options.outputFormat === 'y4m') {
+      throw new SevereServiceError('injectionMode \'bidi\' plays MJPEG feeds only, set outputFormat to \'mjpeg\' or use injectionMode \'flags\'');
+    }
+    this.defaultFeed = resolveFeed(this._options.feeds, this._options.defaultCameraFeed, this._options.conversionOptions);
+    // A remote default feed is checked once it is downloaded in onPrepare
+    this.needsConversion = !isRemoteSource(this.defaultFeed.source) && requiresConversion(this.defaultFeed.source, this.defaultFeed.options);
+    this.needsAudioConversion = !!this._options.defaultAudioFeed && requiresConversion(this._options.defaultAudioFeed);
   }
 
   async onPrepare(): Promise<void> {
@@ -33,30 +114,137 @@ export default class CameraService implements Services.ServiceInstance {
       fs.mkdirSync(this._options.videoDirectory, { recursive: true });
     }
 
-    // Check FFmpeg availability if conversion will be needed
-    if (this.needsConversion) {
+    // Initialize the converter, which also tracks the downloads in the cache
+    this.converter = await this.createConverter();
+
+    // Download a remote default feed first, it is then converted or checked like a local file
+    if (isRemoteSource(this.defaultFeed.source)) {
+      this.defaultFeed = { ...this.defaultFeed, source: await this.downloadSource(this.defaultFeed.source) };
+      this.needsConversion = requiresConversion(this.defaultFeed.source, this.defaultFeed.options);
+    }
+
+    const prewarmJobs = await this.collectPrewarmJobs();
+
+    // Check FFmpeg availability if conversion will be needed (still images without degradations can fall back to the native engine)
+    const feedToConvert = [
+      ...(this.needsConversion ? [this.defaultFeed] : []),
+      ...(this.needsAudioConversion && this._options.defaultAudioFeed ? [{ source: this._options.defaultAudioFeed, options: {} }] : []),
+      ...prewarmJobs.filter((job) => requiresConversion(job.source, job.options)),
+    ].find((feed) => this._options.imageEngine === 'ffmpeg' || !supportsNativeEngine(feed.source, feed.options))?.source;
+    if (feedToConvert) {
       const ffmpegStatus = await checkFfmpegAvailability(this._options.ffmpegPath);
       if (!ffmpegStatus.available) {
         const instructions = getInstallationInstructions();
+        const feedDescription = typeof feedToConvert === 'string' ? feedToConvert : JSON.stringify(feedToConvert);
         throw new FfmpegNotFoundError(
-          `FFmpeg is required to convert ${this._options.defaultCameraFeed} but was not found.\n\n${instructions}`,
+          `FFmpeg is required to convert ${feedDescription} but was not found.\n\n${instructions}`,
         );
       }
     }
 
-    // Initialize the converter
-    this.converter = new FormatConverter({
+    // Pre-convert the default feed if needed, or check the native feed Chrome will read as is
+    if (this.needsConversion) {
+      this.convertedDefaultFeed = await this.converter.convert(this.defaultFeed.source, this.defaultFeed.options);
+    } else if (fs.existsSync(this.getDefaultFeedPath())) {
+      this.checkSupportedFormat(this.getDefaultFeedPath());
+      validateCameraFeed(this.getDefaultFeedPath());
+    }
+    if (this.needsAudioConversion && this._options.defaultAudioFeed) {
+      this.convertedDefaultAudioFeed = await this.converter.convert(this._options.defaultAudioFeed);
+    } else if (this._options.defaultAudioFeed && fs.existsSync(this._options.defaultAudioFeed)) {
+      this.checkSupportedFormat(this._options.defaultAudioFeed);
+    }
+
+    // Convert every other declared feed now, so workers find them in the cache
+    if (prewarmJobs.length > 0) {
+      const concurrency = this._options.prewarmConcurrency ?? os.cpus().length;
+      const summary = await prewarmCache(this.converter, prewarmJobs, concurrency);
+      console.log(formatPrewarmSummary(summary));
+    }
+
+    // Enforce the cache limits once per run, even when nothing new was converted
+    if (this._options.cacheMaxSize !== undefined || this._options.cacheMaxAge !== undefined) {
+      const { removed, freedBytes } = await this.converter.pruneCache();
+      if (removed.length > 0) {
+        console.log(`Evicted ${removed.length} camera feed cache entries (${freedBytes} bytes)`);
+      }
+    }
+  }
+
+  /**
+   * Create and initialize a converter from the service options
+   */
+  private async createConverter(): Promise<FormatConverter> {
+    const converter = new FormatConverter({
       videoDirectory: this._options.videoDirectory,
       ffmpegPath: this._options.ffmpegPath,
       cacheEnabled: this._options.cacheEnabled,
       outputFormat: this._options.outputFormat,
+      imageEngine: this._options.imageEngine,
+      cacheMaxSize: this._options.cacheMaxSize,
+      cacheMaxAge: this._options.cacheMaxAge,
+      lockStaleTimeout: this._options.lockStaleTimeout,
+      conversionTimeout: this._options.conversionTimeout,
+      onProgress: this._options.logConversionProgress ? createProgressLogger(PROGRESS_LOG_INTERVAL) : undefined,
     });
-    await this.converter.initialize();
+    await converter.initialize();
+    return converter;
+  }
 
-    // Pre-convert the default feed if needed
-    if (this.needsConversion) {
-      this.convertedDefaultFeed = await this.converter.convert(this._options.defaultCameraFeed);
+  /**
+   * Sources to convert in onPrepare: the registered feeds and the files matching prewarmFeeds
+   * Registered URLs are downloaded, so they are converted from the downloaded files
+   * Without caching the conversions would be redone in the workers, so nothing is pre-warmed
+   */
+  private async collectPrewarmJobs(): Promise<PrewarmJob[]> {
+    if (this._options.cacheEnabled === false) {
+      return [];
+    }
+
+    const { feeds, conversionOptions } = this._options;
+    const registryJobs = Object.keys(feeds ?? {}).map((name) => resolveFeed(feeds, name, conversionOptions));
+    const files = await expandFeedGlobs(this._options.prewarmFeeds ?? []);
+    const fileJobs = files.map((file) => resolveFeed(undefined, file, conversionOptions));
+
+    return Promise.all([...registryJobs, ...fileJobs].map(async (job) => (
+      isRemoteSource(job.source) ? { ...job, source: await this.downloadSource(job.source) } : job
+    )));
+  }
+
+  /**
+   * Download an http(s) source into the cache directory (or revalidate the copy downloaded before),
+   * where it counts toward the cache limits
+   */
+  private async downloadSource(url: string): Promise<string> {
+    const directory = path.join(this._options.videoDirectory, '.cache', DOWNLOADS_DIRECTORY);
+    const filePath = await downloadRemoteSource(url, directory, this._options.downloadOptions);
+    await this.converter?.trackCacheFile(filePath, url);
+    return filePath;
+  }
+
+  /**
+   * Path of the default camera feed file, after conversion if one was needed
+   */
+  private getDefaultFeedPath(): string {
+    const feedPath = this.convertedDefaultFeed ?? this.defaultFeed.source;
+    if (isGeneratedSource(feedPath)) {
+      throw new Error('Default camera feed has not been rendered. Ensure onPrepare was called.');
     }
+    return feedPath;
+  }
+
+  /**
+   * Resolve the configured injection mode for a browser, or null if the camera cannot be injected
+   */
+  private resolveInjectionMode(browserName: string | undefined): 'flags' | 'bidi' | null {
+    const injectionMode = this._options.injectionMode ?? 'auto';
+    if (injectionMode === 'bidi') {
+      return 'bidi';
+    }
+    if (detectChromiumBrowser(browserName)) {
+      return 'flags';
+    }
+    return injectionMode === 'auto' && this._options.outputFormat !== 'y4m' ? 'bidi' : null;
   }
 
   async onWorkerStart(
@@ -66,9 +254,22 @@ export default class CameraService implements Services.ServiceInstance {
     _args: Options.Testrunner,
     _execArgv: string[],
   ): Promise<void> {
-    if (capabilities.browserName?.toLowerCase().includes('chrom')) {
+    const injectionMode = this.resolveInjectionMode(capabilities.browserName);
+
+    if (injectionMode === 'bidi') {
+      // The shim is registered in the worker once the session exists, it only needs a BiDi connection
+      capabilities.webSocketUrl = true;
+
+      if (capabilities.browserName?.toLowerCase().includes('firefox')) {
+        // Skip the permission prompt and use Firefox's fake devices for the (non-shimmed) microphone
+        capabilities['moz:firefoxOptions'] ??= {};
+        capabilities['moz:firefoxOptions'].prefs ??= {};
+        capabilities['moz:firefoxOptions'].prefs['media.navigator.permission.disabled'] = true;
+        capabilities['moz:firefoxOptions'].prefs['media.navigator.streams.fake'] = true;
+      }
+    } else if (injectionMode === 'flags') {
       // Use converted feed if available, otherwise use original
-      const feedPath = this.convertedDefaultFeed ?? this._options.defaultCameraFeed;
+      const feedPath = this.getDefaultFeedPath();
       const baseFeed = fs.readFileSync(path.resolve(process.cwd(), feedPath));
 
       // Determine output extension based on format
@@ -84,15 +285,32 @@ export default class CameraService implements Services.ServiceInstance {
       const args = [
         '--use-fake-device-for-media-stream',
         '--use-fake-ui-for-media-stream',
-        `--use-file-for-fake-video-capture=${sessionVideoFilePath}`,
+        `${VIDEO_CAPTURE_FLAG}=${sessionVideoFilePath}`,
       ];
 
-      // Ensure chromeOptions and args array exist, then append camera args
-      capabilities['goog:chromeOptions'] ??= {};
-      capabilities['goog:chromeOptions'].args ??= [];
-      capabilities['goog:chromeOptions'].args.push(...args);
+      if (this._options.defaultAudioFeed) {
+        const audioFeedPath = this.convertedDefaultAudioFeed ?? this._options.defaultAudioFeed;
+        let sessionAudioFilePath: string = path.resolve(process.cwd(), this._options.videoDirectory, `${cid}.wav`);
+
+        if (capabilities.platformName?.toLowerCase().includes('android')) {
+          sessionAudioFilePath = path.resolve(this.androidVideoDirectory, `${cid}.wav`);
+        } else {
+          const baseAudioFeed = fs.readFileSync(path.resolve(process.cwd(), audioFeedPath));
+          fs.writeFileSync(sessionAudioFilePath, new Uint8Array(baseAudioFeed));
+        }
+
+        args.push(`${AUDIO_CAPTURE_FLAG}=${sessionAudioFilePath}`);
+      }
+
+      // Ensure the browser's options and args array exist, then append camera args
+      const optionsKey = detectChromiumBrowser(capabilities.browserName)?.optionsKey ?? 'goog:chromeOptions';
+      const browserOptions = capabilities[optionsKey] ??= {};
+      browserOptions.args ??= [];
+      browserOptions.args.push(...args);
     } else {
-      console.log(`Injecting camera source only supported in Chrome browsers (current browserName: ${capabilities.browserName})`);
+      console.log(this._options.injectionMode === 'flags'
+        ? `Camera injection with injectionMode 'flags' is not supported in ${capabilities.browserName}, it needs a Chromium-based browser`
+        : `Camera injection via WebDriver BiDi plays MJPEG feeds only, ${capabilities.browserName} gets no camera feed with outputFormat 'y4m'`);
     }
   }
 
@@ -101,62 +319,348 @@ export default class CameraService implements Services.ServiceInstance {
 
     // Initialize converter in worker process (needed because onPrepare runs in launcher process)
     if (!this.converter) {
-      this.converter = new FormatConverter({
-        videoDirectory: this._options.videoDirectory,
-        ffmpegPath: this._options.ffmpegPath,
-        cacheEnabled: this._options.cacheEnabled,
-        outputFormat: this._options.outputFormat,
-      });
-      await this.converter.initialize();
+      this.converter = await this.createConverter();
     }
 
-    const converter = this.converter;
+    this.injectionMode = this.resolveInjectionMode(this.browser.capabilities.browserName);
 
     this.browser.addCommand(
       'changeCameraSource',
-      async (videoPath: string) => {
-        const isChrome = this.browser?.capabilities.browserName?.toLowerCase().includes('chrome');
-        const isAndroid = this.browser?.capabilities.platformName?.toLowerCase().includes('android');
-
-        const cameraSourceMatch = (this.browser?.requestedCapabilities['goog:chromeOptions']?.args as string[])
-          ?.find((arg) => arg.includes('--use-file-for-fake-video-capture'))
-          ?.match(/--use-file-for-fake-video-capture=(\S+)/);
-
-        const cameraSource = cameraSourceMatch ? cameraSourceMatch[1] : undefined;
-
-        if (cameraSource) {
-          const defaultCameraFeedPath = path.resolve(cameraSource);
-          let sourceCameraFeedPath = path.resolve(process.cwd(), videoPath);
-
-          if (!fs.existsSync(sourceCameraFeedPath)) {
-            throw new Error(`New source camera feed ${sourceCameraFeedPath} does not exist`);
-          }
-
-          // Convert if needed (video/image formats require FFmpeg conversion)
-          if (requiresConversion(sourceCameraFeedPath)) {
-            if (!converter) {
-              throw new Error('Format converter not initialized. Ensure onPrepare was called.');
-            }
-            sourceCameraFeedPath = await converter.convert(videoPath);
-          }
-
-          if (!isChrome) {
-            return;
-          }
-
-          const mockedVideo = fs.readFileSync(sourceCameraFeedPath);
-
-          if (isAndroid) {
-            const encoded = Buffer.from(mockedVideo).toString('base64');
-            await this.browser?.pushFile(defaultCameraFeedPath, encoded);
-          } else {
-            if (!fs.existsSync(defaultCameraFeedPath)) {
-              throw new Error(`Default camera feed ${defaultCameraFeedPath} does not exist`);
-            }
-            fs.writeFileSync(defaultCameraFeedPath, new Uint8Array(mockedVideo));
-          }
-        }
-      },
+      async (source: CameraSource | InMemorySource, options?: InMemorySourceOptions) => this.changeCameraSource(source, options),
     );
+
+    this.browser.addCommand(
+      'changeAudioSource',
+      async (audioPath: string) => this.replaceSessionFeed(audioPath, AUDIO_CAPTURE_FLAG, 'audio'),
+    );
+
+    this.browser.addCommand('showCodeToCamera', async (code: CodeDescriptor) => this.changeCameraSource(code));
+
+    this.browser.addCommand('getCameraSourceInfo', async () => this.getCameraSourceInfo());
+
+    this.browser.addCommand('resetCameraSource', async () => this.resetCameraSource());
+
+    this.browser.addCommand(
+      'withCameraSource',
+      async <T>(source: CameraSource | InMemorySource, callback: () => T | Promise<T>, options?: InMemorySourceOptions) => (
+        this.withCameraSource(source, callback, options)
+      ),
+    );
+
+    this.browser.addCommand(
+      'playCameraTimeline',
+      async (segments: TimelineSegment[], options?: TimelineOptions) => this.playCameraTimeline(segments, options),
+    );
+
+    if (this.injectionMode === 'bidi') {
+      if (!this.browser.isBidi) {
+        console.log(`Injecting camera source requires WebDriver BiDi support (current browserName: ${this.browser.capabilities.browserName})`);
+        return;
+      }
+      await this.installShim(await this.resolveDefaultCameraFeed(), false);
+    }
+  }
+
+  async beforeTest(test: Frameworks.Test): Promise<void> {
+    // Mocha's full title and Jasmine's full name include the suite titles
+    await this.applyTaggedSource(findCameraTag([test.fullTitle || test.fullName || test.title]));
+  }
+
+  async beforeScenario(world: Frameworks.World): Promise<void> {
+    // Pickle tags list the feature tags before the scenario tags
+    const { tags = [] } = world.pickle as { tags?: Array<{ name: string }> };
+    await this.applyTaggedSource(findCameraTag(tags.map((tag) => tag.name)));
+  }
+
+  async afterTest(): Promise<void> {
+    await this.resetAfterTest();
+  }
+
+  async afterScenario(): Promise<void> {
+    await this.resetAfterTest();
+  }
+
+  /**
+   * Play the source named by a test's `@camera:` tag, if it has one
+   */
+  private async applyTaggedSource(source: string | undefined): Promise<void> {
+    if (source) {
+      await this.changeCameraSource(source);
+      this.taggedSourceApplied = true;
+    }
+  }
+
+  /**
+   * Go back to the default feed after a tagged test, or after every test with autoResetCameraSource
+   */
+  private async resetAfterTest(): Promise<void> {
+    if (this._options.autoResetCameraSource || this.taggedSourceApplied) {
+      this.taggedSourceApplied = false;
+      await this.resetCameraSource();
+    }
+  }
+
+  /**
+   * Play a new camera source: a file, a URL, a named feed, a generated source or in-memory data
+   */
+  private async changeCameraSource(source: CameraSource | InMemorySource, options?: InMemorySourceOptions): Promise<void> {
+    // In-memory data is written to a content-addressed file, then handled like any file
+    if (isInMemorySource(source)) {
+      const { format, ...conversionOptions } = options ?? {};
+      return this.changeCameraSource(await this.writeInMemorySource(source, format), conversionOptions);
+    }
+    const feed = resolveFeed(this._options.feeds, source, this._options.conversionOptions, options);
+    return this.injectionMode === 'bidi'
+      ? this.pushShimFeed(feed.source, feed.options)
+      : this.replaceSessionFeed(feed.source, VIDEO_CAPTURE_FLAG, 'camera', feed.options);
+  }
+
+  /**
+   * Go back to the default camera feed, when another source is playing
+   */
+  private async resetCameraSource(): Promise<void> {
+    // Nothing was applied in this worker, the session still plays the default feed
+    if (this.activeCameraFeed === undefined) {
+      return;
+    }
+    const defaultFeedPath = await this.resolveDefaultCameraFeed();
+    if (this.activeCameraFeed !== defaultFeedPath) {
+      await this.applyCameraFeed(defaultFeedPath);
+    }
+  }
+
+  /**
+   * Play a camera source while a callback runs, then restore the source played before, even when the callback throws
+   */
+  private async withCameraSource<T>(
+    source: CameraSource | InMemorySource,
+    callback: () => T | Promise<T>,
+    options?: InMemorySourceOptions,
+  ): Promise<T> {
+    const previousFeed = this.activeCameraFeed;
+    await this.changeCameraSource(source, options);
+    try {
+      return await callback();
+    } finally {
+      if (previousFeed === undefined) {
+        await this.resetCameraSource();
+      } else if (this.activeCameraFeed !== previousFeed) {
+        // The previous feed is already converted, it is played again as is
+        await this.applyCameraFeed(previousFeed);
+      }
+    }
+  }
+
+  /**
+   * Play camera sources one after another from a single feed, each for its duration
+   */
+  private async playCameraTimeline(segments: TimelineSegment[], options?: TimelineOptions): Promise<void> {
+    if (!this.converter) {
+      throw new Error('Format converter not initialized. Ensure onPrepare was called.');
+    }
+    const resolvedSegments: TimelineSegment[] = [];
+    for (const segment of segments) {
+      const feed = resolveFeed(this._options.feeds, segment.source, this._options.conversionOptions, segment.options);
+      resolvedSegments.push({
+        source: isRemoteSource(feed.source) ? await this.downloadSource(feed.source) : feed.source,
+        duration: segment.duration,
+        options: feed.options,
+      });
+    }
+    await this.applyCameraFeed(await this.converter.convertTimeline(resolvedSegments, options));
+  }
+
+  /**
+   * Play a native feed file that was already resolved
+   */
+  private async applyCameraFeed(feedPath: string): Promise<void> {
+    if (this.injectionMode === 'bidi') {
+      await this.installShim(feedPath, true);
+      return;
+    }
+    const sessionFeed = this.findSessionFeed(VIDEO_CAPTURE_FLAG);
+    if (sessionFeed) {
+      await this.writeSessionFeed(sessionFeed, feedPath, 'camera');
+    }
+  }
+
+  /**
+   * Resolve the default camera feed to a native feed file, once per worker
+   */
+  private async resolveDefaultCameraFeed(): Promise<string> {
+    this.defaultCameraFeedPath ??= await this.resolveSourceFeed(this.defaultFeed.source, 'camera', this.defaultFeed.options);
+    return this.defaultCameraFeedPath;
+  }
+
+  /**
+   * Write an in-memory camera source into the cache directory, where it counts toward the cache limits
+   */
+  private async writeInMemorySource(source: InMemorySource, format: string | undefined): Promise<string> {
+    const filePath = await writeInMemorySource(source, format, path.join(this._options.videoDirectory, '.cache', MEMORY_SOURCES_DIRECTORY));
+    await this.converter?.trackCacheFile(filePath, `in-memory ${format ?? 'data'}`);
+    return filePath;
+  }
+
+  /**
+   * Resolve a new source to a native feed file, converting (or rendering) it if needed
+   */
+  private async resolveSourceFeed(source: CameraSource, feedKind: 'camera' | 'audio', options?: ConversionOptions): Promise<string> {
+    if (isGeneratedSource(source)) {
+      if (!this.converter) {
+        throw new Error('Format converter not initialized. Ensure onPrepare was called.');
+      }
+      return this.converter.convert(source, options);
+    }
+
+    // Remote sources are downloaded, then converted or checked like local files
+    const feedPath = isRemoteSource(source) ? await this.downloadSource(source) : source;
+    const sourceFeedPath = path.resolve(process.cwd(), feedPath);
+
+    // Frame patterns are not files, the converter reports patterns without frames
+    if (!fs.existsSync(sourceFeedPath) && !isSequencePattern(sourceFeedPath)) {
+      throw new Error(`New source ${feedKind} feed ${sourceFeedPath} does not exist`);
+    }
+
+    this.checkSupportedFormat(sourceFeedPath);
+
+    // Convert if needed (video/image/audio formats and transformed feeds require conversion)
+    if (requiresConversion(sourceFeedPath, options)) {
+      if (!this.converter) {
+        throw new Error('Format converter not initialized. Ensure onPrepare was called.');
+      }
+      return this.converter.convert(feedPath, options);
+    }
+
+    if (feedKind === 'camera') {
+      validateCameraFeed(sourceFeedPath);
+    }
+    return sourceFeedPath;
+  }
+
+  /**
+   * Reject a file that is neither a native feed nor a format FFmpeg converts (a text file, an HTML error page...),
+   * which would otherwise be copied into the capture file as is
+   */
+  private checkSupportedFormat(filePath: string): void {
+    if (detectFormat(filePath) === 'unknown') {
+      throw new UnsupportedFormatError(filePath, path.extname(filePath), sniffFileFormat(filePath)?.description);
+    }
+  }
+
+  /**
+   * Load an MJPEG feed as frames for the getUserMedia shim
+   */
+  private loadShimFeed(feedPath: string): ShimFeed {
+    if (detectFormat(feedPath) !== 'mjpeg') {
+      throw new Error(`Injecting camera source via WebDriver BiDi requires an MJPEG feed (outputFormat: 'mjpeg'), got ${feedPath}`);
+    }
+
+    const data = fs.readFileSync(feedPath);
+    if (data.length > MAX_SHIM_FEED_SIZE) {
+      throw new Error(
+        `Camera feed ${feedPath} is ${data.length} bytes, over the ${MAX_SHIM_FEED_SIZE} bytes WebDriver BiDi injection embeds in every page. `
+        + 'Shorten or shrink it with the duration, width/height, fps or quality conversion options',
+      );
+    }
+
+    const frames = extractMjpegFrames(data);
+    if (frames.length === 0) {
+      throw new Error(`Camera feed ${feedPath} does not contain any JPEG frames`);
+    }
+
+    return { frames, fps: DEFAULT_SHIM_FRAME_RATE };
+  }
+
+  /**
+   * Register (or replace) the getUserMedia shim preload script, optionally updating the current page too
+   */
+  private async installShim(feedPath: string, updateCurrentPage: boolean): Promise<void> {
+    if (!this.browser) {
+      return;
+    }
+
+    const feed = this.loadShimFeed(feedPath);
+
+    if (this.shimScriptId) {
+      await this.browser.scriptRemovePreloadScript({ script: this.shimScriptId });
+    }
+    const { script } = await this.browser.scriptAddPreloadScript({ functionDeclaration: createPreloadScript(feed) });
+    this.shimScriptId = script;
+    this.activeCameraFeed = feedPath;
+
+    if (updateCurrentPage) {
+      await this.browser.execute((globalName: string, frames: string[], fps: number) => {
+        const shim = (window as unknown as Record<string, { setFeed: (feed: ShimFeed) => void } | undefined>)[globalName];
+        shim?.setFeed({ frames, fps });
+      }, SHIM_GLOBAL, feed.frames, feed.fps);
+    }
+  }
+
+  /**
+   * Swap the feed played by the getUserMedia shim, for the current page and future navigations
+   */
+  private async pushShimFeed(source: CameraSource, options: ConversionOptions): Promise<void> {
+    const sourceFeedPath = await this.resolveSourceFeed(source, 'camera', options);
+    await this.installShim(sourceFeedPath, true);
+  }
+
+  /**
+   * Overwrite the per-session feed file referenced by a Chrome fake capture flag with a new source
+   */
+  private async replaceSessionFeed(
+    source: CameraSource,
+    captureFlag: string,
+    feedKind: 'camera' | 'audio',
+    options?: ConversionOptions,
+  ): Promise<void> {
+    const sessionFeed = this.findSessionFeed(captureFlag);
+    if (sessionFeed) {
+      const sourceFeedPath = await this.resolveSourceFeed(source, feedKind, options);
+      await this.writeSessionFeed(sessionFeed, sourceFeedPath, feedKind);
+    }
+  }
+
+  /**
+   * Path of the per-session feed file referenced by a Chrome fake capture flag, undefined without the flag
+   */
+  private findSessionFeed(captureFlag: string): string | undefined {
+    const optionsKey = detectChromiumBrowser(this.browser?.capabilities.browserName)?.optionsKey ?? 'goog:chromeOptions';
+    const sessionFeedMatch = (this.browser?.requestedCapabilities[optionsKey]?.args as string[])
+      ?.find((arg) => arg.includes(captureFlag))
+      ?.match(new RegExp(`${captureFlag}=(\\S+)`));
+
+    return sessionFeedMatch ? path.resolve(sessionFeedMatch[1]) : undefined;
+  }
+
+  /**
+   * Copy a native feed file over the per-session feed file (pushed to the device on Android)
+   */
+  private async writeSessionFeed(sessionFeed: string, feedPath: string, feedKind: 'camera' | 'audio'): Promise<void> {
+    if (!detectChromiumBrowser(this.browser?.capabilities.browserName)) {
+      return;
+    }
+
+    const mockedFeed = fs.readFileSync(feedPath);
+
+    if (this.browser?.capabilities.platformName?.toLowerCase().includes('android')) {
+      const encoded = Buffer.from(mockedFeed).toString('base64');
+      await this.browser?.pushFile(sessionFeed, encoded);
+    } else {
+      if (!fs.existsSync(sessionFeed)) {
+        throw new Error(`Default ${feedKind} feed ${sessionFeed} does not exist`);
+      }
+      fs.writeFileSync(sessionFeed, new Uint8Array(mockedFeed));
+    }
+    if (feedKind === 'camera') {
+      this.activeCameraFeed = feedPath;
+    }
+  }
+
+  /**
+   * Metadata of the feed the browser's camera plays: the last source applied, or the default feed
+   */
+  private async getCameraSourceInfo(): Promise<CameraFeedMetadata> {
+    const feedPath = this.activeCameraFeed ?? await this.resolveDefaultCameraFeed();
+    return inspectCameraFeed(feedPath, { ffprobePath: getFfprobePath(this._options.ffmpegPath) });
   }
 }
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCodeFilter,
+  getCodeCacheKey,
+  isCodeDescriptor,
+  normalizeCode,
+  renderCodePng,
+  validateCodeDescriptor,
+} from './code-generator.js';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('code-generator', () => {
+  describe('isCodeDescriptor', () => {
+    it('should recognise code descriptors', () => {
+      expect(isCodeDescriptor({ type: 'qr', data: 'hello' })).toBe(true);
+      expect(isCodeDescriptor({ type: 'ean13', data: '590123412345' })).toBe(true);
+    });
+
+    it('should reject other sources', () => {
+      expect(isCodeDescriptor('/path/to/qr.png')).toBe(false);
+      expect(isCodeDescriptor({ pattern: 'bars' })).toBe(false);
+      expect(isCodeDescriptor({ type: 'aztec', data: 'hello' })).toBe(false);
+      expect(isCodeDescriptor({ type: 'qr' })).toBe(false);
+    });
+  });
+
+  describe('validateCodeDescriptor', () => {
+    it('should accept supported code descriptors', () => {
+      expect(() => validateCodeDescriptor({ type: 'datamatrix', data: 'hello' })).not.toThrow();
+    });
+
+    it('should name the supported code types for unknown ones', () => {
+      expect(() => validateCodeDescriptor({ type: 'upc', data: '012345678905' }))
+        .toThrow('Unsupported code type "upc", expected one of qr, ean13, code128, datamatrix');
+    });
+
+    it('should reject codes without string data', () => {
+      expect(() => validateCodeDescriptor({ type: 'qr', data: 42 })).toThrow('Invalid qr code data "42", expected a string');
+    });
+  });
+
+  describe('normalizeCode', () => {
+    it('should apply defaults', () => {
+      expect(normalizeCode({ type: 'qr', data: 'hello' })).toEqual({ type: 'qr', data: 'hello', size: 480, margin: 40 });
+    });
+
+    it('should round size and margin to even numbers', () => {
+      expect(normalizeCode({ type: 'qr', data: 'hello', size: 301, margin: 7 })).toMatchObject({ size: 302, margin: 8 });
+    });
+
+    it('should reject invalid size and margin', () => {
+      expect(() => normalizeCode({ type: 'qr', data: 'hello', size: 0 })).toThrow('Invalid code size');
+      expect(() => normalizeCode({ type: 'qr', data: 'hello', margin: -1 })).toThrow('Invalid code margin');
+    });
+  });
+
+  describe('getCodeCacheKey', () => {
+    it('should be stable for the same content', () => {
+      expect(getCodeCacheKey({ type: 'qr', data: 'hello' })).toBe(getCodeCacheKey({ data: 'hello', type: 'qr', size: 480 }));
+    });
+
+    it('should differ by type, data and size', () => {
+      const key = getCodeCacheKey({ type: 'qr', data: 'hello' });
+
+      expect(getCodeCacheKey({ type: 'datamatrix', data: 'hello' })).not.toBe(key);
+      expect(getCodeCacheKey({ type: 'qr', data: 'hello!' })).not.toBe(key);
+      expect(getCodeCacheKey({ type: 'qr', data: 'hello', size: 200 })).not.toBe(key);
+    });
+  });
+
+  describe('renderCodePng', () => {
+    it.each([
+      ['qr', 'https://webdriver.io'],
+      ['ean13', '590123412345'],
+      ['code128', 'WDIO-128'],
+      ['datamatrix', 'camera service'],
+    ] as const)('should render a %s symbol as PNG', async (type, data) => {
+      const png = await renderCodePng({ type, data });
+
+      expect(png.subarray(0, 8)).toEqual(PNG_SIGNATURE);
+    });
+
+    it('should reject data the symbology cannot encode', async () => {
+      await expect(renderCodePng({ type: 'ean13', data: 'not digits' })).rejects.toThrow('EAN-13');
+    });
+  });
+
+  describe('buildCodeFilter', () => {
+    it('should scale with nearest neighbour and pad with a white margin', () => {
+      expect(buildCodeFilter({ type: 'qr', data: 'hello', size: 300, margin: 20 }))
+        .toBe('scale=300:-2:flags=neighbor,pad=iw+40:ih+40:20:20:white');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import crypto from 'node:crypto';
+import bwipjs from 'bwip-js/node';
+
+export type CodeType = 'qr' | 'ean13' | 'code128' | 'datamatrix';
+
+/**
+ * Descriptor for a QR code or barcode rendered in-process as a camera feed
+ */
+export interface CodeDescriptor {
+  type: CodeType;
+  data: string;
+  /** Width of the rendered symbol in pixels (height follows the symbol's aspect ratio) */
+  size?: number;
+  /** White quiet zone around the symbol in pixels */
+  margin?: number;
+}
+
+const CODE_TYPES: Record<CodeType, string> = {
+  qr: 'qrcode',
+  ean13: 'ean13',
+  code128: 'code128',
+  datamatrix: 'datamatrix',
+};
+
+const CODE_DEFAULTS = {
+  size: 480,
+  margin: 40,
+};
+
+/** Module size used when rasterizing, FFmpeg scales the result to the requested size */
+const RENDER_SCALE = 4;
+
+/**
+ * Check if a camera source is a code descriptor
+ */
+export function isCodeDescriptor(source: unknown): source is CodeDescriptor {
+  return typeof source === 'object'
+    && source !== null
+    && Object.keys(CODE_TYPES).includes((source as CodeDescriptor).type)
+    && typeof (source as CodeDescriptor).data === 'string';
+}
+
+/**
+ * Check that a source with a code type is a descriptor the generator supports
+ */
+export function validateCodeDescriptor(source: { type?: unknown; data?: unknown }): void {
+  if (!Object.keys(CODE_TYPES).includes(source.type as string)) {
+    throw new Error(`Unsupported code type "${String(source.type)}", expected one of ${Object.keys(CODE_TYPES).join(', ')}`);
+  }
+  if (typeof source.data !== 'string') {
+    throw new Error(`Invalid ${source.type} code data "${String(source.data)}", expected a string`);
+  }
+}
+
+/**
+ * Apply defaults and validate a code descriptor
+ * Size and margin are rounded to even numbers, as required by 4:2:0 chroma subsampling
+ */
+export function normalizeCode(descriptor: CodeDescriptor): Required<CodeDescriptor> {
+  const normalized = { ...CODE_DEFAULTS, ...descriptor };
+
+  if (!(normalized.size > 0)) {
+    throw new Error(`Invalid code size "${normalized.size}", expected a positive number`);
+  }
+  if (!(normalized.margin >= 0)) {
+    throw new Error(`Invalid code margin "${normalized.margin}", expected zero or a positive number`);
+  }
+
+  return {
+    ...normalized,
+    size: Math.max(2, Math.round(normalized.size / 2) * 2),
+    margin: Math.round(normalized.margin / 2) * 2,
+  };
+}
+
+/**
+ * Compute a content-based cache key for a code
+ */
+export function getCodeCacheKey(descriptor: CodeDescriptor): string {
+  const { type, data, size, margin } = normalizeCode(descriptor);
+  return crypto.createHash('sha256').update(JSON.stringify([type, data, size, margin])).digest('hex');
+}
+
+/**
+ * Render the symbol as a black-on-white PNG without quiet zone
+ */
+export async function renderCodePng(descriptor: CodeDescriptor): Promise<Buffer> {
+  return bwipjs.toBuffer({
+    bcid: CODE_TYPES[descriptor.type],
+    text: descriptor.data,
+    scale: RENDER_SCALE,
+    includetext: false,
+    backgroundcolor: 'FFFFFF',
+  });
+}
+
+/**
+ * FFmpeg filter scaling the rasterized symbol to the requested size (keeping sharp module edges)
+ * and adding the white margin around it
+ */
+export function buildCodeFilter(descriptor: CodeDescriptor): string {
+  const { size, margin } = normalizeCode(descriptor);
+  return `scale=${size}:-2:flags=neighbor,pad=iw+${2 * margin}:ih+${2 * margin}:${margin}:${margin}:white`;
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildInputArgs,
+  buildPlaybackRateFilters,
+  buildTransformFilters,
+  getOutputQscale,
+  getVariantCacheKey,
+  hasConversionOptions,
+  mergeConversionOptions,
+  qualityToQscale,
+  validateConversionOptions,
+  withoutTimingOptions,
+} from './conversion-options.js';
+
+describe('conversion-options', () => {
+  describe('mergeConversionOptions', () => {
+    it('should let per-call options override defaults', () => {
+      expect(mergeConversionOptions({ width: 640, mirror: true }, { width: 320 })).toEqual({ width: 320, mirror: true });
+    });
+
+    it('should handle missing defaults and options', () => {
+      expect(mergeConversionOptions(undefined, undefined)).toEqual({});
+    });
+  });
+
+  describe('validateConversionOptions', () => {
+    it('should accept valid options', () => {
+      expect(() => validateConversionOptions({
+        width: 320,
+        fps: 15,
+        crop: { x: 0, y: 0, width: 100, height: 100 },
+        rotate: 90,
+        mirror: true,
+        quality: 50,
+      })).not.toThrow();
+    });
+
+    it('should reject non-positive dimensions and frame rates', () => {
+      expect(() => validateConversionOptions({ width: 0 })).toThrow('Invalid conversion option width');
+      expect(() => validateConversionOptions({ fps: -1 })).toThrow('Invalid conversion option fps');
+    });
+
+    it('should reject rotations that are not a multiple of 90 degrees', () => {
+      expect(() => validateConversionOptions({ rotate: 45 as 90 })).toThrow('Invalid conversion option rotate');
+    });
+
+    it('should reject quality outside 1-100', () => {
+      expect(() => validateConversionOptions({ quality: 0 })).toThrow('Invalid conversion option quality');
+      expect(() => validateConversionOptions({ quality: 101 })).toThrow('Invalid conversion option quality');
+    });
+
+    it('should reject invalid trimming and looping options', () => {
+      expect(() => validateConversionOptions({ startTime: -1 })).toThrow('Invalid conversion option startTime');
+      expect(() => validateConversionOptions({ duration: 0 })).toThrow('Invalid conversion option duration');
+      expect(() => validateConversionOptions({ holdLastFrame: -2 })).toThrow('Invalid conversion option holdLastFrame');
+      expect(() => validateConversionOptions({ loop: 'bounce' as 'pingpong' })).toThrow('Invalid conversion option loop');
+    });
+
+    it('should reject invalid degradations', () => {
+      expect(() => validateConversionOptions({ noise: 120 })).toThrow('Invalid conversion option noise "120", expected a number from 0 to 100');
+      expect(() => validateConversionOptions({ degrade: 'foggy' as never })).toThrow('Invalid conversion option degrade "foggy"');
+    });
+
+    it('should reject empty crop regions', () => {
+      expect(() => validateConversionOptions({ crop: { x: 0, y: 0, width: 0, height: 10 } })).toThrow('Invalid conversion option crop');
+    });
+  });
+
+  describe('hasConversionOptions', () => {
+    it('should ignore options that do not change the output', () => {
+      expect(hasConversionOptions(undefined)).toBe(false);
+      expect(hasConversionOptions({ rotate: 0, mirror: false, width: undefined })).toBe(false);
+      expect(hasConversionOptions({ startTime: 0, loop: 'restart' })).toBe(false);
+      expect(hasConversionOptions({ mirror: true })).toBe(true);
+    });
+
+    it('should ignore neutral degradations and count presets', () => {
+      expect(hasConversionOptions({ blur: 0, contrast: 1, brightness: 0 })).toBe(false);
+      expect(hasConversionOptions({ degrade: 'low-light' })).toBe(true);
+    });
+  });
+
+  describe('getVariantCacheKey', () => {
+    it('should keep the source key without options', () => {
+      expect(getVariantCacheKey('abc', {})).toBe('abc');
+      expect(getVariantCacheKey('abc', { rotate: 0 })).toBe('abc');
+    });
+
+    it('should derive distinct keys for distinct options', () => {
+      const small = getVariantCacheKey('abc', { width: 320 });
+      const large = getVariantCacheKey('abc', { width: 640 });
+
+      expect(small).toMatch(/^[0-9a-f]{64}$/);
+      expect(small).not.toBe(large);
+    });
+
+    it('should key presets by their values', () => {
+      const preset = getVariantCacheKey('abc', { degrade: 'low-light' });
+
+      expect(preset).toBe(getVariantCacheKey('abc', { brightness: -0.25, contrast: 0.7, noise: 25 }));
+      expect(getVariantCacheKey('abc', { degrade: 'low-light', noise: 50 })).not.toBe(preset);
+      expect(getVariantCacheKey('abc', { degrade: 'low-light', glare: 0.5 })).not.toBe(preset);
+      expect(getVariantCacheKey('abc', { degrade: 'far-away' })).not.toBe(preset);
+    });
+
+    it('should be independent of property order', () => {
+      expect(getVariantCacheKey('abc', { width: 320, mirror: true }))
+        .toBe(getVariantCacheKey('abc', { mirror: true, width: 320 }));
+    });
+  });
+
+  describe('withoutTimingOptions', () => {
+    it('should keep only the options that apply to a single frame', () => {
+      expect(withoutTimingOptions({ width: 320, fps: 15, startTime: 2, duration: 3, loop: 'pingpong', holdLastFrame: 1 }))
+        .toEqual({ width: 320 });
+    });
+  });
+
+  describe('buildInputArgs', () => {
+    it('should seek and limit the input', () => {
+      expect(buildInputArgs({ startTime: 12.5, duration: 3 })).toEqual(['-ss', '12.5', '-t', '3']);
+    });
+
+    it('should return no arguments without trimming', () => {
+      expect(buildInputArgs({ startTime: 0 })).toEqual([]);
+    });
+  });
+
+  describe('buildTransformFilters', () => {
+    it('should return no filters without options', () => {
+      expect(buildTransformFilters({}, 'mjpeg')).toEqual([]);
+    });
+
+    it('should chain crop, rotate, mirror, scale and fps in order', () => {
+      expect(buildTransformFilters({
+        fps: 15,
+        width: 320,
+        mirror: true,
+        rotate: 90,
+        crop: { x: 10, y: 20, width: 100, height: 200 },
+      }, 'y4m')).toEqual(['crop=100:200:10:20', 'transpose=clock', 'hflip', 'scale=320:-2', 'fps=15']);
+    });
+
+    it('should degrade the scaled frames before changing the frame rate', () => {
+      expect(buildTransformFilters({ fps: 15, width: 320, blur: 2, noise: 10 }, 'y4m'))
+        .toEqual(['scale=320:-2', 'gblur=sigma=2', 'noise=alls=10:allf=t+u', 'fps=15']);
+    });
+
+    it('should map rotations to transpose and flip filters', () => {
+      expect(buildTransformFilters({ rotate: 180 }, 'mjpeg')).toEqual(['hflip', 'vflip']);
+      expect(buildTransformFilters({ rotate: 270 }, 'mjpeg')).toEqual(['transpose=cclock']);
+    });
+
+    it('should hold the last frame and then play the clip backwards for ping-pong loops', () => {
+      expect(buildTransformFilters({ loop: 'pingpong', holdLastFrame: 2, fps: 10 }, 'mjpeg')).toEqual([
+        'fps=10',
+        'fps=30',
+        'tpad=stop_mode=clone:stop_duration=2',
+        'split[forward][backward];[backward]reverse[reversed];[forward][reversed]concat=n=2:v=1',
+      ]);
+    });
+
+    it('should not add filters for restart loops', () => {
+      expect(buildTransformFilters({ loop: 'restart' }, 'mjpeg')).toEqual([]);
+    });
+
+    it('should keep the aspect ratio when only the height is set', () => {
+      expect(buildTransformFilters({ height: 240 }, 'mjpeg')).toEqual(['scale=-2:240']);
+    });
+
+    it('should repeat the frames of MJPEG output up to 30 fps, keeping the speed of the clip', () => {
+      // Chrome shows each MJPEG frame for 1/30 s: 2 s at 15 fps become 60 frames, each source frame shown twice
+      expect(buildTransformFilters({ fps: 15 }, 'mjpeg')).toEqual(['fps=15', 'fps=30']);
+      expect(buildTransformFilters({ fps: 30 }, 'mjpeg')).toEqual(['fps=30']);
+      expect(buildTransformFilters({ fps: 15 }, 'y4m')).toEqual(['fps=15']);
+    });
+  });
+
+  describe('buildPlaybackRateFilters', () => {
+    it('should resample MJPEG output to 30 fps', () => {
+      expect(buildPlaybackRateFilters(10, 'mjpeg')).toEqual(['fps=30']);
+      expect(buildPlaybackRateFilters(60, 'mjpeg')).toEqual(['fps=30']);
+    });
+
+    it('should keep the frame rate of Y4M output and of 30 fps MJPEG output', () => {
+      expect(buildPlaybackRateFilters(10, 'y4m')).toEqual([]);
+      expect(buildPlaybackRateFilters(30, 'mjpeg')).toEqual([]);
+    });
+  });
+
+  describe('qualityToQscale', () => {
+    it('should default to the highest quality', () => {
+      expect(qualityToQscale(undefined)).toBe(2);
+    });
+
+    it('should map 1-100 onto 31-2', () => {
+      expect(qualityToQscale(100)).toBe(2);
+      expect(qualityToQscale(1)).toBe(31);
+      expect(qualityToQscale(50)).toBe(17);
+    });
+  });
+
+  describe('getOutputQscale', () => {
+    it('should follow the quality option', () => {
+      expect(getOutputQscale({})).toBe(2);
+      expect(getOutputQscale({ quality: 50 })).toBe(17);
+    });
+
+    it('should lower the quality for JPEG artifacts, never raise it', () => {
+      expect(getOutputQscale({ jpegArtifacts: 100 })).toBe(31);
+      expect(getOutputQscale({ jpegArtifacts: 51 })).toBe(17);
+      expect(getOutputQscale({ quality: 1, jpegArtifacts: 10 })).toBe(31);
+    });
+  });
+});
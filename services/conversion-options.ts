@@ -0,0 +1,235 @@
+import crypto from 'node:crypto';
+import { applyDegradePreset, buildDegradationFilters, dropNeutralDegradations, validateDegradationOptions } from './degradation.js';
+import type { DegradationOptions } from './degradation.js';
+
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type LoopMode = 'restart' | 'pingpong';
+
+/**
+ * Transforms applied while converting a camera source
+ * Order: trim, crop, rotate, mirror, scale, degradations, fps, hold, loop
+ */
+export interface ConversionOptions extends DegradationOptions {
+  /** Output width in pixels (height follows the aspect ratio if omitted) */
+  width?: number;
+  /** Output height in pixels (width follows the aspect ratio if omitted) */
+  height?: number;
+  /** Output frame rate, MJPEG output repeats the frames up to the 30 fps Chrome plays it at */
+  fps?: number;
+  /** Region of the source to keep, in source pixels */
+  crop?: CropRegion;
+  /** Clockwise rotation in degrees */
+  rotate?: 0 | 90 | 180 | 270;
+  /** Flip horizontally, like a front-facing camera preview */
+  mirror?: boolean;
+  /** Encoding quality from 1 (lowest) to 100 (highest), MJPEG output only */
+  quality?: number;
+  /** Offset into the source in seconds where the clip starts */
+  startTime?: number;
+  /** Clip length in seconds */
+  duration?: number;
+  /** How the clip loops: from the start (Chrome's default) or played forwards then backwards */
+  loop?: LoopMode;
+  /** Seconds to freeze on the last frame before the clip loops */
+  holdLastFrame?: number;
+}
+
+const ROTATIONS = [0, 90, 180, 270];
+
+const LOOP_MODES: readonly LoopMode[] = ['restart', 'pingpong'];
+
+/** Options that only apply to moving sources, single-frame images and codes ignore them */
+const TIMING_OPTIONS = ['fps', 'startTime', 'duration', 'loop', 'holdLastFrame'] as const;
+
+/** FFmpeg's -q:v range for MJPEG, 2 is the highest quality used, 31 the lowest */
+const QSCALE_BEST = 2;
+const QSCALE_WORST = 31;
+
+/** Frame rate Chrome plays MJPEG feeds at, the format has no frame rate of its own */
+export const MJPEG_PLAYBACK_FPS = 30;
+
+/**
+ * Merge service-level defaults with per-call options (per-call values win)
+ */
+export function mergeConversionOptions(defaults: ConversionOptions | undefined, options: ConversionOptions | undefined): ConversionOptions {
+  return { ...defaults, ...options };
+}
+
+/**
+ * Validate conversion options, throwing on values FFmpeg would reject or misinterpret
+ */
+export function validateConversionOptions(options: ConversionOptions): void {
+  for (const key of ['width', 'height', 'fps', 'duration', 'holdLastFrame'] as const) {
+    const value = options[key];
+    if (value !== undefined && !(value > 0)) {
+      throw new Error(`Invalid conversion option ${key} "${value}", expected a positive number`);
+    }
+  }
+  if (options.startTime !== undefined && !(options.startTime >= 0)) {
+    throw new Error(`Invalid conversion option startTime "${options.startTime}", expected a number >= 0`);
+  }
+  if (options.loop !== undefined && !LOOP_MODES.includes(options.loop)) {
+    throw new Error(`Invalid conversion option loop "${options.loop}", expected one of ${LOOP_MODES.join(', ')}`);
+  }
+  if (options.rotate !== undefined && !ROTATIONS.includes(options.rotate)) {
+    throw new Error(`Invalid conversion option rotate "${options.rotate}", expected one of ${ROTATIONS.join(', ')}`);
+  }
+  if (options.quality !== undefined && !(options.quality >= 1 && options.quality <= 100)) {
+    throw new Error(`Invalid conversion option quality "${options.quality}", expected a number from 1 to 100`);
+  }
+  if (options.crop) {
+    const { x, y, width, height } = options.crop;
+    if (!(x >= 0 && y >= 0 && width > 0 && height > 0)) {
+      throw new Error(`Invalid conversion option crop ${JSON.stringify(options.crop)}, expected x/y >= 0 and width/height > 0`);
+    }
+  }
+  validateDegradationOptions(options);
+}
+
+/**
+ * Drop options that don't change the output, so equivalent option sets share a cache entry
+ */
+function effectiveOptions(options: ConversionOptions): ConversionOptions {
+  // A preset is keyed by its values, so it shares entries with the same options set by hand
+  const effective: ConversionOptions = { ...applyDegradePreset(options) };
+  dropNeutralDegradations(effective);
+  if (!effective.rotate) {
+    delete effective.rotate;
+  }
+  if (!effective.mirror) {
+    delete effective.mirror;
+  }
+  if (!effective.startTime) {
+    delete effective.startTime;
+  }
+  if (effective.loop === 'restart') {
+    delete effective.loop;
+  }
+  for (const key of Object.keys(effective) as Array<keyof ConversionOptions>) {
+    if (effective[key] === undefined) {
+      delete effective[key];
+    }
+  }
+  return effective;
+}
+
+/**
+ * Check if any option changes the converted output
+ */
+export function hasConversionOptions(options: ConversionOptions | undefined): boolean {
+  return !!options && Object.keys(effectiveOptions(options)).length > 0;
+}
+
+/**
+ * Drop the timing options, for sources rendered as a single frame
+ */
+export function withoutTimingOptions(options: ConversionOptions): ConversionOptions {
+  const frameOptions: ConversionOptions = { ...options };
+  for (const key of TIMING_OPTIONS) {
+    delete frameOptions[key];
+  }
+  return frameOptions;
+}
+
+/**
+ * Derive the cache key of a converted variant from the source key and its options
+ * Without options the source key is used unchanged
+ */
+export function getVariantCacheKey(sourceKey: string, options: ConversionOptions | undefined): string {
+  if (!options || !hasConversionOptions(options)) {
+    return sourceKey;
+  }
+  const effective = effectiveOptions(options);
+  const canonical = Object.keys(effective)
+    .sort()
+    .map((key) => [key, effective[key as keyof ConversionOptions]]);
+
+  return crypto.createHash('sha256').update(sourceKey).update(JSON.stringify(canonical)).digest('hex');
+}
+
+/**
+ * Build the FFmpeg input arguments that trim the source (-ss/-t before -i seek without decoding the skipped part)
+ */
+export function buildInputArgs(options: ConversionOptions): string[] {
+  const args: string[] = [];
+  if (options.startTime) {
+    args.push('-ss', String(options.startTime));
+  }
+  if (options.duration) {
+    args.push('-t', String(options.duration));
+  }
+  return args;
+}
+
+/**
+ * Build the FFmpeg filters that bring a stream at a frame rate back to the playback rate of the output format
+ * Chrome shows every MJPEG frame for 1/30 s, so frames are repeated (or dropped) to 30 fps to keep the speed
+ * of the clip. Y4M stores its frame rate and needs none
+ */
+export function buildPlaybackRateFilters(fps: number, outputFormat: 'mjpeg' | 'y4m'): string[] {
+  return outputFormat === 'mjpeg' && fps !== MJPEG_PLAYBACK_FPS ? [`fps=${MJPEG_PLAYBACK_FPS}`] : [];
+}
+
+/**
+ * Build the FFmpeg video filters for the transforms
+ * Ping-pong is a labelled chain, the result is still a single-input single-output graph usable with -vf
+ */
+export function buildTransformFilters(options: ConversionOptions, outputFormat: 'mjpeg' | 'y4m'): string[] {
+  const filters: string[] = [];
+
+  if (options.crop) {
+    const { x, y, width, height } = options.crop;
+    filters.push(`crop=${width}:${height}:${x}:${y}`);
+  }
+  if (options.rotate === 90) {
+    filters.push('transpose=clock');
+  } else if (options.rotate === 180) {
+    filters.push('hflip', 'vflip');
+  } else if (options.rotate === 270) {
+    filters.push('transpose=cclock');
+  }
+  if (options.mirror) {
+    filters.push('hflip');
+  }
+  if (options.width || options.height) {
+    // -2 keeps the aspect ratio with an even size, as 4:2:0 chroma requires
+    filters.push(`scale=${options.width ?? -2}:${options.height ?? -2}`);
+  }
+  filters.push(...buildDegradationFilters(options));
+  if (options.fps) {
+    filters.push(`fps=${options.fps}`, ...buildPlaybackRateFilters(options.fps, outputFormat));
+  }
+  if (options.holdLastFrame) {
+    filters.push(`tpad=stop_mode=clone:stop_duration=${options.holdLastFrame}`);
+  }
+  if (options.loop === 'pingpong') {
+    filters.push('split[forward][backward];[backward]reverse[reversed];[forward][reversed]concat=n=2:v=1');
+  }
+
+  return filters;
+}
+
+/**
+ * Map a 1-100 quality to FFmpeg's MJPEG -q:v scale (defaults to the highest quality)
+ */
+export function qualityToQscale(quality: number | undefined): number {
+  if (quality === undefined) {
+    return QSCALE_BEST;
+  }
+  return Math.round(QSCALE_WORST - ((quality - 1) * (QSCALE_WORST - QSCALE_BEST)) / 99);
+}
+
+/**
+ * FFmpeg's MJPEG -q:v for the output: the quality option, lowered further by jpegArtifacts
+ */
+export function getOutputQscale(options: ConversionOptions): number {
+  const { quality, jpegArtifacts } = applyDegradePreset(options);
+  const qscale = qualityToQscale(quality);
+  return jpegArtifacts ? Math.max(qscale, qualityToQscale(101 - jpegArtifacts)) : qscale;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockBrowser = vi.hoisted(() => ({
+  changeCameraSource: vi.fn(),
+  showCodeToCamera: vi.fn(),
+  resetCameraSource: vi.fn(),
+}));
+
+vi.mock('@wdio/globals', () => ({ browser: mockBrowser }));
+
+// Import after mocking
+import { registerCameraSteps } from './cucumber-steps.js';
+
+describe('cucumber-steps', () => {
+  const steps = new Map<string, (...args: string[]) => Promise<void>>();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    steps.clear();
+    registerCameraSteps((pattern, code) => steps.set(pattern, code));
+  });
+
+  it('should register the camera steps', () => {
+    expect([...steps.keys()]).toEqual([
+      'the camera shows {string}',
+      'the camera shows a(n) {word} code for {string}',
+      'the camera shows the default feed',
+    ]);
+  });
+
+  it('should change the camera source', async () => {
+    await steps.get('the camera shows {string}')?.('qrValid');
+
+    expect(mockBrowser.changeCameraSource).toHaveBeenCalledWith('qrValid');
+  });
+
+  it('should show a generated code', async () => {
+    await steps.get('the camera shows a(n) {word} code for {string}')?.('QR', 'https://webdriver.io');
+
+    expect(mockBrowser.showCodeToCamera).toHaveBeenCalledWith({ type: 'qr', data: 'https://webdriver.io' });
+  });
+
+  it('should go back to the default feed', async () => {
+    await steps.get('the camera shows the default feed')?.();
+
+    expect(mockBrowser.resetCameraSource).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,31 @@
+import { browser } from '@wdio/globals';
+import type { CodeType } from './code-generator.js';
+
+/**
+ * A Cucumber step definition function: Given, When, Then or defineStep from @cucumber/cucumber
+ */
+export type StepDefinitionFunction = (pattern: string, code: (...args: string[]) => Promise<void>) => void;
+
+/**
+ * Register the camera steps with a step definition function, e.g. in a step definitions file:
+ *
+ *   import { Given } from '@cucumber/cucumber';
+ *   registerCameraSteps(Given);
+ *
+ * - `the camera shows "qrValid"`: a named feed, a file path or a URL (changeCameraSource)
+ * - `the camera shows a qr code for "https://webdriver.io"`: a generated code (showCodeToCamera)
+ * - `the camera shows the default feed`: back to defaultCameraFeed (resetCameraSource)
+ */
+export function registerCameraSteps(defineStep: StepDefinitionFunction): void {
+  defineStep('the camera shows {string}', async (source) => {
+    await browser.changeCameraSource(source);
+  });
+
+  defineStep('the camera shows a(n) {word} code for {string}', async (type, data) => {
+    await browser.showCodeToCamera({ type: type.toLowerCase() as CodeType, data });
+  });
+
+  defineStep('the camera shows the default feed', async () => {
+    await browser.resetCameraSource();
+  });
+}
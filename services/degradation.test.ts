@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEGRADE_PRESETS,
+  applyDegradePreset,
+  buildDegradationFilters,
+  hasDegradation,
+  validateDegradationOptions,
+} from './degradation.js';
+
+describe('degradation', () => {
+  describe('validateDegradationOptions', () => {
+    it('should accept options within range', () => {
+      expect(() => validateDegradationOptions({
+        degrade: 'shaky-hand',
+        blur: 3,
+        noise: 100,
+        brightness: -1,
+        contrast: 0,
+        perspective: 0.5,
+        motionBlur: 20,
+        jpegArtifacts: 1,
+        glare: 1,
+      })).not.toThrow();
+    });
+
+    it('should reject unknown presets', () => {
+      expect(() => validateDegradationOptions({ degrade: 'underwater' as never })).toThrow(
+        'Invalid conversion option degrade "underwater", expected one of low-light, shaky-hand, far-away',
+      );
+    });
+
+    it('should reject values out of range', () => {
+      expect(() => validateDegradationOptions({ blur: -1 })).toThrow('Invalid conversion option blur "-1", expected a number >= 0');
+      expect(() => validateDegradationOptions({ brightness: 1.5 })).toThrow('expected a number from -1 to 1');
+      expect(() => validateDegradationOptions({ contrast: 3 })).toThrow('expected a number from 0 to 2');
+      expect(() => validateDegradationOptions({ perspective: 1 })).toThrow('expected a number from 0 to less than 1');
+      expect(() => validateDegradationOptions({ glare: NaN })).toThrow('Invalid conversion option glare "NaN"');
+    });
+  });
+
+  describe('applyDegradePreset', () => {
+    it('should replace the preset by its values', () => {
+      expect(applyDegradePreset({ degrade: 'low-light', width: 320 })).toEqual({ ...DEGRADE_PRESETS['low-light'], width: 320 });
+    });
+
+    it('should let explicit options override the preset', () => {
+      expect(applyDegradePreset({ degrade: 'far-away', blur: 5, glare: 0.2 })).toEqual({ blur: 5, contrast: 0.85, noise: 8, glare: 0.2 });
+    });
+
+    it('should return options without preset unchanged', () => {
+      const options = { blur: 1 };
+
+      expect(applyDegradePreset(options)).toBe(options);
+    });
+  });
+
+  describe('hasDegradation', () => {
+    it('should ignore neutral values', () => {
+      expect(hasDegradation(undefined)).toBe(false);
+      expect(hasDegradation({ blur: 0, contrast: 1 })).toBe(false);
+      expect(hasDegradation({ contrast: 0.5 })).toBe(true);
+      expect(hasDegradation({ jpegArtifacts: 40 })).toBe(true);
+      expect(hasDegradation({ degrade: 'shaky-hand' })).toBe(true);
+    });
+  });
+
+  describe('buildDegradationFilters', () => {
+    it('should return no filters without degradations', () => {
+      expect(buildDegradationFilters({ jpegArtifacts: 50, contrast: 1 })).toEqual([]);
+    });
+
+    it('should chain perspective, motion blur, blur, levels, glare and noise in order', () => {
+      expect(buildDegradationFilters({ noise: 20, glare: 0.5, contrast: 1.2, brightness: 0.1, blur: 1.5, motionBlur: 8, perspective: 0.2 })).toEqual([
+        'perspective=x0=W*0.1:y0=0:x1=W-W*0.1:y1=0:x2=0:y2=H:x3=W:y3=H:sense=destination',
+        'dblur=angle=0:radius=8',
+        'gblur=sigma=1.5',
+        'eq=brightness=0.1:contrast=1.2',
+        'geq=lum=\'min(255,lum(X,Y)+128*exp(-(pow(X-0.7*W,2)+pow(Y-0.3*H,2))/pow(0.25*W,2)))\':cb=\'cb(X,Y)\':cr=\'cr(X,Y)\'',
+        'noise=alls=20:allf=t+u',
+      ]);
+    });
+
+    it('should build the filters of a preset', () => {
+      expect(buildDegradationFilters({ degrade: 'low-light' })).toEqual([
+        'eq=brightness=-0.25:contrast=0.7',
+        'noise=alls=25:allf=t+u',
+      ]);
+    });
+  });
+});
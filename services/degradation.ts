@@ -0,0 +1,155 @@
+/**
+ * Named combinations of degradation options
+ * - 'low-light': dark, flat and noisy, like a dim room
+ * - 'shaky-hand': smeared sideways and slightly tilted, like a hand-held phone
+ * - 'far-away': soft and hazy, like a code held at a distance
+ */
+export type DegradePreset = 'low-light' | 'shaky-hand' | 'far-away';
+
+/**
+ * Image degradations simulating bad capture conditions, applied after scaling
+ * Order: perspective, motion blur, blur, brightness/contrast, glare, noise (JPEG artifacts come from the encoder)
+ */
+export interface DegradationOptions {
+  /** Preset combination of the options below, each option set explicitly overrides its value */
+  degrade?: DegradePreset;
+  /** Gaussian blur radius in pixels, like an out-of-focus lens */
+  blur?: number;
+  /** Sensor noise strength from 0 to 100, different on every frame */
+  noise?: number;
+  /** Brightness shift from -1 (black) to 1 (white), 0 leaves it unchanged */
+  brightness?: number;
+  /** Contrast factor from 0 (flat grey) to 2, 1 leaves it unchanged */
+  contrast?: number;
+  /** Camera tilt from 0 to 1 (exclusive): the top edge shrinks by this fraction of the width */
+  perspective?: number;
+  /** Horizontal motion blur length in pixels, like a camera moving while the shutter is open */
+  motionBlur?: number;
+  /** Compression strength from 0 to 100, encoding at the quality 101 - jpegArtifacts (MJPEG output only) */
+  jpegArtifacts?: number;
+  /** Strength from 0 to 1 of a light reflection overexposing the upper right of the frame */
+  glare?: number;
+}
+
+export const DEGRADE_PRESETS: Readonly<Record<DegradePreset, Omit<DegradationOptions, 'degrade'>>> = {
+  'low-light': { brightness: -0.25, contrast: 0.7, noise: 25 },
+  'shaky-hand': { motionBlur: 12, perspective: 0.1 },
+  'far-away': { blur: 2, contrast: 0.85, noise: 8 },
+};
+
+/** Option keys set by the presets and by hand */
+const DEGRADATION_KEYS = ['blur', 'noise', 'brightness', 'contrast', 'perspective', 'motionBlur', 'jpegArtifacts', 'glare'] as const;
+
+/** Ranges of the degradation options */
+const RANGES: Record<typeof DEGRADATION_KEYS[number], { min: number; max: number; maxExclusive?: boolean; description: string }> = {
+  blur: { min: 0, max: Infinity, description: 'a number >= 0' },
+  noise: { min: 0, max: 100, description: 'a number from 0 to 100' },
+  brightness: { min: -1, max: 1, description: 'a number from -1 to 1' },
+  contrast: { min: 0, max: 2, description: 'a number from 0 to 2' },
+  perspective: { min: 0, max: 1, maxExclusive: true, description: 'a number from 0 to less than 1' },
+  motionBlur: { min: 0, max: Infinity, description: 'a number >= 0' },
+  jpegArtifacts: { min: 0, max: 100, description: 'a number from 0 to 100' },
+  glare: { min: 0, max: 1, description: 'a number from 0 to 1' },
+};
+
+/**
+ * Value of an option that leaves the image unchanged
+ */
+function neutralValue(key: typeof DEGRADATION_KEYS[number]): number {
+  return key === 'contrast' ? 1 : 0;
+}
+
+/**
+ * Validate degradation options, throwing on unknown presets and out of range values
+ */
+export function validateDegradationOptions(options: DegradationOptions): void {
+  if (options.degrade !== undefined && !Object.prototype.hasOwnProperty.call(DEGRADE_PRESETS, options.degrade)) {
+    throw new Error(`Invalid conversion option degrade "${options.degrade}", expected one of ${Object.keys(DEGRADE_PRESETS).join(', ')}`);
+  }
+  for (const key of DEGRADATION_KEYS) {
+    const value = options[key];
+    if (value === undefined) {
+      continue;
+    }
+    const { min, max, maxExclusive, description } = RANGES[key];
+    if (!(value >= min && (maxExclusive ? value < max : value <= max))) {
+      throw new Error(`Invalid conversion option ${key} "${value}", expected ${description}`);
+    }
+  }
+}
+
+/**
+ * Replace the degrade preset by its values, keeping the options set explicitly
+ */
+export function applyDegradePreset<T extends DegradationOptions>(options: T): T {
+  if (!options.degrade) {
+    return options;
+  }
+  const applied: T = { ...options };
+  delete applied.degrade;
+  for (const [key, value] of Object.entries(DEGRADE_PRESETS[options.degrade]) as Array<[typeof DEGRADATION_KEYS[number], number]>) {
+    applied[key] ??= value as T[typeof key];
+  }
+  return applied;
+}
+
+/**
+ * Drop the degradation options that leave the image unchanged, in place
+ */
+export function dropNeutralDegradations(options: DegradationOptions): void {
+  for (const key of DEGRADATION_KEYS) {
+    if (options[key] === neutralValue(key)) {
+      delete options[key];
+    }
+  }
+}
+
+/**
+ * Check if options degrade the image (FFmpeg filters, the native image engine cannot apply them)
+ */
+export function hasDegradation(options: DegradationOptions | undefined): boolean {
+  if (!options) {
+    return false;
+  }
+  const applied = applyDegradePreset(options);
+  return DEGRADATION_KEYS.some((key) => applied[key] !== undefined && applied[key] !== neutralValue(key));
+}
+
+/**
+ * Build the FFmpeg video filters of the degradations (preset applied)
+ * The geq expression is quoted, so its commas stay inside the filter
+ */
+export function buildDegradationFilters(options: DegradationOptions): string[] {
+  const { blur, noise, brightness, contrast, perspective, motionBlur, glare } = applyDegradePreset(options);
+  const filters: string[] = [];
+
+  if (perspective) {
+    // The source corners move to the destination points: the top edge is pulled in on both sides
+    const inset = perspective / 2;
+    filters.push(`perspective=x0=W*${inset}:y0=0:x1=W-W*${inset}:y1=0:x2=0:y2=H:x3=W:y3=H:sense=destination`);
+  }
+  if (motionBlur) {
+    filters.push(`dblur=angle=0:radius=${motionBlur}`);
+  }
+  if (blur) {
+    filters.push(`gblur=sigma=${blur}`);
+  }
+  const levels = [
+    ...(brightness ? [`brightness=${brightness}`] : []),
+    ...(contrast !== undefined && contrast !== 1 ? [`contrast=${contrast}`] : []),
+  ];
+  if (levels.length > 0) {
+    filters.push(`eq=${levels.join(':')}`);
+  }
+  if (glare) {
+    // A white spot fading out over a quarter of the width, centred in the upper right
+    filters.push(
+      `geq=lum='min(255,lum(X,Y)+${Math.round(255 * glare)}*exp(-(pow(X-0.7*W,2)+pow(Y-0.3*H,2))/pow(0.25*W,2)))':cb='cb(X,Y)':cr='cr(X,Y)'`,
+    );
+  }
+  if (noise) {
+    filters.push(`noise=alls=${noise}:allf=t+u`);
+  }
+
+  return filters;
+}
@@ -23,24 +23,93 @@ export class ConversionError extends Error {
   }
 }
 
+/**
+ * Error thrown when an FFmpeg conversion runs longer than the conversionTimeout option
+ */
+export class ConversionTimeoutError extends Error {
+  public readonly sourceFile: string;
+  public readonly timeout: number;
+
+  constructor(sourceFile: string, timeout: number) {
+    super(`Converting ${sourceFile} timed out after ${timeout}ms`);
+    this.name = 'ConversionTimeoutError';
+    this.sourceFile = sourceFile;
+    this.timeout = timeout;
+  }
+}
+
 /**
  * Error thrown when an unsupported file format is provided
  */
 export class UnsupportedFormatError extends Error {
   public readonly filePath: string;
   public readonly extension: string;
+  /** What the file content was recognized as, null when it was not recognized */
+  public readonly detectedFormat: string | null;
 
   static readonly SUPPORTED_FORMATS = [
-    '.mjpeg', '.y4m',           // Native formats
-    '.mp4', '.webm', '.avi', '.mov',  // Video formats
-    '.png', '.jpg', '.jpeg', '.gif', '.bmp',  // Image formats
+    '.mjpeg', '.mjpg', '.y4m', '.wav',   // Native formats
+    '.mp4', '.webm', '.avi', '.mov', '.mkv',  // Video formats
+    '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp', '.tif', '.tiff', '.heic', '.heif', '.avif', '.svg',  // Image formats
+    '.mp3', '.ogg', '.m4a', '.aac',  // Audio formats
   ];
 
-  constructor(filePath: string, extension: string) {
+  constructor(filePath: string, extension: string, detectedFormat?: string) {
     const supportedList = UnsupportedFormatError.SUPPORTED_FORMATS.join(', ');
-    super(`Unsupported format "${extension}" for file "${filePath}". Supported formats: ${supportedList}`);
+    super(
+      `Unsupported format for file "${filePath}" (extension: ${extension || 'none'}, content: ${detectedFormat ?? 'not recognized'}). ` +
+      `Supported formats: ${supportedList}`,
+    );
     this.name = 'UnsupportedFormatError';
     this.filePath = filePath;
     this.extension = extension;
+    this.detectedFormat = detectedFormat ?? null;
+  }
+}
+
+/**
+ * Error thrown when a native MJPEG or Y4M feed would not play in Chrome (which shows its test pattern instead)
+ */
+export class InvalidCameraFeedError extends Error {
+  public readonly filePath: string;
+  public readonly problem: string;
+
+  constructor(filePath: string, problem: string) {
+    super(`Invalid camera feed "${filePath}": ${problem}`);
+    this.name = 'InvalidCameraFeedError';
+    this.filePath = filePath;
+    this.problem = problem;
+  }
+}
+
+/**
+ * Error thrown when a camera source URL cannot be downloaded
+ */
+export class DownloadError extends Error {
+  public readonly url: string;
+  /** HTTP status of the failed response, null when the server could not be reached */
+  public readonly statusCode: number | null;
+
+  constructor(url: string, reason: string, statusCode?: number) {
+    super(`Failed to download ${url}: ${reason}`);
+    this.name = 'DownloadError';
+    this.url = url;
+    this.statusCode = statusCode ?? null;
+  }
+}
+
+/**
+ * Error thrown when a camera source names a feed that is not in the feeds registry
+ */
+export class UnknownFeedError extends Error {
+  public readonly feedName: string;
+  public readonly registeredFeeds: string[];
+
+  constructor(feedName: string, registeredFeeds: string[]) {
+    const registeredList = registeredFeeds.length > 0 ? registeredFeeds.join(', ') : '(none)';
+    super(`Unknown camera feed "${feedName}". Registered feeds: ${registeredList}`);
+    this.name = 'UnknownFeedError';
+    this.feedName = feedName;
+    this.registeredFeeds = registeredFeeds;
   }
 }
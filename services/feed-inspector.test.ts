@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FfmpegNotFoundError } from './errors.js';
+import type { FfmpegRunOptions } from './ffmpeg-runner.js';
+
+const mockRunFfmpeg = vi.hoisted(() => vi.fn());
+
+vi.mock('./ffmpeg-runner.js', async (importOriginal) => ({
+  ...await importOriginal<Record<string, unknown>>(),
+  runFfmpeg: mockRunFfmpeg,
+}));
+
+// Import after mocking
+import { FfmpegProcessError } from './ffmpeg-runner.js';
+import { getFfprobePath, inspectCameraFeed } from './feed-inspector.js';
+
+/** A 4x2 JPEG frame: SOI, SOF0 with the size, EOI */
+const jpegFrame = Buffer.from([
+  0xff, 0xd8,
+  0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x02, 0x00, 0x04, 0x01, 0x01, 0x11, 0x00,
+  0xff, 0xd9,
+]);
+
+/**
+ * Make the next FFprobe run print this JSON
+ */
+function mockFfprobeOutput(output: object) {
+  mockRunFfmpeg.mockImplementationOnce(async (_executable: string, _args: string[], options: FfmpegRunOptions) => {
+    options.onStdout?.(JSON.stringify(output));
+  });
+}
+
+describe('feed-inspector', () => {
+  let directory: string;
+
+  const writeFeed = (fileName: string, ...parts: (string | Buffer)[]) => {
+    const filePath = path.join(directory, fileName);
+    fs.writeFileSync(filePath, Buffer.concat(parts.map((part) => (typeof part === 'string' ? Buffer.from(part, 'latin1') : part))));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'camera-inspect-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('getFfprobePath', () => {
+    it('should use the FFprobe next to FFmpeg', () => {
+      expect(getFfprobePath()).toBe('ffprobe');
+      expect(getFfprobePath('/opt/ffmpeg/bin/ffmpeg')).toBe('/opt/ffmpeg/bin/ffprobe');
+      expect(getFfprobePath('C:\\ffmpeg\\bin\\ffmpeg.exe')).toBe('C:\\ffmpeg\\bin\\ffprobe.exe');
+      expect(getFfprobePath('/usr/local/bin/avconv-wrapper')).toBe('ffprobe');
+    });
+  });
+
+  describe('inspectCameraFeed', () => {
+    it('should inspect Y4M feeds without FFprobe', async () => {
+      const frame = Buffer.concat([Buffer.from('FRAME\n'), Buffer.alloc(12)]);
+      const feed = writeFeed('feed.y4m', 'YUV4MPEG2 W4 H2 F25:1 C420jpeg\n', frame, frame, frame, frame, frame);
+
+      expect(await inspectCameraFeed(feed)).toEqual({
+        path: feed,
+        format: 'y4m',
+        width: 4,
+        height: 2,
+        fps: 25,
+        frameCount: 5,
+        durationMs: 200,
+        size: 31 + 5 * 18,
+      });
+      expect(mockRunFfmpeg).not.toHaveBeenCalled();
+    });
+
+    it('should inspect MJPEG feeds at the frame rate Chrome plays them', async () => {
+      const feed = writeFeed('feed.mjpeg', jpegFrame, jpegFrame, jpegFrame);
+
+      expect(await inspectCameraFeed(feed)).toEqual({
+        path: feed,
+        format: 'mjpeg',
+        width: 4,
+        height: 2,
+        fps: 30,
+        frameCount: 3,
+        durationMs: 100,
+        size: 3 * jpegFrame.length,
+      });
+      expect(mockRunFfmpeg).not.toHaveBeenCalled();
+    });
+
+    it('should probe other formats with FFprobe', async () => {
+      const clip = writeFeed('clip.mp4', 'not read');
+      mockFfprobeOutput({
+        streams: [{ width: 1280, height: 720, avg_frame_rate: '30000/1001', r_frame_rate: '30000/1001', nb_frames: '300', duration: '10.010000' }],
+        format: { format_name: 'mov,mp4,m4a,3gp,3g2,mj2', duration: '10.023000' },
+      });
+
+      const metadata = await inspectCameraFeed(clip, { ffprobePath: '/opt/ffmpeg/ffprobe' });
+
+      expect(metadata).toEqual({
+        path: clip,
+        format: 'mov',
+        width: 1280,
+        height: 720,
+        fps: 30000 / 1001,
+        frameCount: 300,
+        durationMs: 10010,
+        size: 8,
+      });
+      expect(mockRunFfmpeg).toHaveBeenCalledWith('/opt/ffmpeg/ffprobe', expect.arrayContaining(['-of', 'json', clip]), expect.anything());
+    });
+
+    it('should estimate missing values from the container', async () => {
+      const clip = writeFeed('clip.webm', 'not read');
+      mockFfprobeOutput({
+        streams: [{ width: 640, height: 480, avg_frame_rate: '0/0', r_frame_rate: '25/1' }],
+        format: { format_name: 'matroska,webm', duration: '2.000000' },
+      });
+
+      expect(await inspectCameraFeed(clip)).toMatchObject({ format: 'matroska', fps: 25, frameCount: 50, durationMs: 2000 });
+    });
+
+    it('should throw FfmpegNotFoundError without FFprobe', async () => {
+      const clip = writeFeed('clip.mp4', 'not read');
+      mockRunFfmpeg.mockRejectedValueOnce(Object.assign(new Error('spawn ffprobe ENOENT'), { code: 'ENOENT' }));
+
+      await expect(inspectCameraFeed(clip)).rejects.toThrow(FfmpegNotFoundError);
+    });
+
+    it('should report FFprobe errors', async () => {
+      const clip = writeFeed('clip.mp4', 'not read');
+      mockRunFfmpeg.mockRejectedValueOnce(new FfmpegProcessError(1, null, 'moov atom not found'));
+
+      await expect(inspectCameraFeed(clip)).rejects.toThrow(`Failed to inspect ${clip}: moov atom not found`);
+    });
+  });
+});
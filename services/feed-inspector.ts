@@ -0,0 +1,145 @@
+import fs from 'node:fs';
+import { FfmpegNotFoundError } from './errors.js';
+import { detectFormat } from './format-converter.js';
+import { validateMjpeg, validateY4m } from './feed-validator.js';
+import type { CameraFeedInfo } from './feed-validator.js';
+import { FfmpegProcessError, runFfmpeg } from './ffmpeg-runner.js';
+
+/** MJPEG files carry no frame rate, Chrome plays them at 30 fps */
+const MJPEG_FRAME_RATE = 30;
+
+/**
+ * What a camera feed file contains
+ */
+export interface CameraFeedMetadata {
+  /** Absolute or relative path of the inspected file, as given */
+  path: string;
+  /** 'mjpeg' or 'y4m' for native feeds, FFprobe's container name otherwise (e.g. 'mov', 'matroska', 'gif') */
+  format: string;
+  /** Frame size in pixels of the first video stream */
+  width?: number;
+  height?: number;
+  /** Frames per second */
+  fps?: number;
+  /** Number of frames, estimated from the duration when the container does not store it */
+  frameCount?: number;
+  durationMs?: number;
+  /** File size in bytes */
+  size: number;
+}
+
+export interface InspectOptions {
+  /** Path to FFprobe, used for non-native formats (defaults to 'ffprobe') */
+  ffprobePath?: string;
+}
+
+interface FfprobeOutput {
+  streams?: Array<{
+    width?: number;
+    height?: number;
+    avg_frame_rate?: string;
+    r_frame_rate?: string;
+    nb_frames?: string;
+    duration?: string;
+  }>;
+  format?: {
+    format_name?: string;
+    duration?: string;
+  };
+}
+
+/**
+ * FFprobe executable next to an FFmpeg executable ('/opt/ffmpeg/bin/ffmpeg.exe' → '/opt/ffmpeg/bin/ffprobe.exe')
+ * Falls back to 'ffprobe' on the PATH when the FFmpeg executable has another name
+ */
+export function getFfprobePath(ffmpegPath: string = 'ffmpeg'): string {
+  return /ffmpeg(\.exe)?$/i.test(ffmpegPath) ? ffmpegPath.replace(/ffmpeg(\.exe)?$/i, 'ffprobe$1') : 'ffprobe';
+}
+
+/**
+ * Parse an FFprobe frame rate ("30000/1001"), undefined for unknown rates ("0/0")
+ */
+function parseFrameRate(rate: string | undefined): number | undefined {
+  const [numerator, denominator] = (rate ?? '').split('/').map(Number);
+  return numerator > 0 && denominator > 0 ? numerator / denominator : undefined;
+}
+
+function parsePositive(value: string | undefined): number | undefined {
+  const number = Number(value);
+  return value !== undefined && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Metadata of a native feed, from the MJPEG/Y4M parser
+ */
+function fromFeedInfo(filePath: string, size: number, info: CameraFeedInfo): CameraFeedMetadata {
+  const fps = info.fps ?? MJPEG_FRAME_RATE;
+  return {
+    path: filePath,
+    format: info.format,
+    width: info.width,
+    height: info.height,
+    fps,
+    frameCount: info.frameCount,
+    durationMs: Math.round((info.frameCount / fps) * 1000),
+    size,
+  };
+}
+
+/**
+ * Metadata of a container format, from FFprobe's JSON output for the first video stream
+ */
+async function probe(filePath: string, size: number, ffprobePath: string): Promise<CameraFeedMetadata> {
+  const args = [
+    '-v', 'error',
+    '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height,avg_frame_rate,r_frame_rate,nb_frames,duration:format=format_name,duration',
+    '-of', 'json',
+    filePath,
+  ];
+  let stdout = '';
+  try {
+    await runFfmpeg(ffprobePath, args, { onStdout: (chunk) => { stdout += chunk; } });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new FfmpegNotFoundError(`FFprobe is required to inspect ${filePath} but was not found at ${ffprobePath}`);
+    }
+    const errorMessage = error instanceof FfmpegProcessError && error.stderr ? error.stderr : (error as Error).message;
+    throw new Error(`Failed to inspect ${filePath}: ${errorMessage}`);
+  }
+
+  const output = JSON.parse(stdout) as FfprobeOutput;
+  const stream = output.streams?.[0];
+  const fps = parseFrameRate(stream?.avg_frame_rate) ?? parseFrameRate(stream?.r_frame_rate);
+  const durationSeconds = parsePositive(stream?.duration) ?? parsePositive(output.format?.duration);
+  const frameCount = parsePositive(stream?.nb_frames)
+    ?? (durationSeconds !== undefined && fps !== undefined ? Math.round(durationSeconds * fps) : undefined);
+
+  return {
+    path: filePath,
+    format: output.format?.format_name?.split(',')[0] ?? 'unknown',
+    width: stream?.width,
+    height: stream?.height,
+    fps,
+    frameCount,
+    durationMs: durationSeconds !== undefined ? Math.round(durationSeconds * 1000) : undefined,
+    size,
+  };
+}
+
+/**
+ * Inspect what a camera feed file contains: format, frame size, frame rate, frame count, duration and byte size
+ * Native MJPEG/Y4M feeds are parsed in JavaScript (throwing InvalidCameraFeedError when Chrome could not play them),
+ * other formats are probed with FFprobe
+ */
+export async function inspectCameraFeed(filePath: string, options: InspectOptions = {}): Promise<CameraFeedMetadata> {
+  const { size } = fs.statSync(filePath);
+  const format = detectFormat(filePath);
+  if (format === 'y4m') {
+    return fromFeedInfo(filePath, size, validateY4m(filePath));
+  }
+  if (format === 'mjpeg') {
+    return fromFeedInfo(filePath, size, validateMjpeg(filePath));
+  }
+  return probe(filePath, size, options.ffprobePath ?? 'ffprobe');
+}
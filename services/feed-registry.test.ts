@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { isFeedName, resolveFeed } from './feed-registry.js';
+import { UnknownFeedError } from './errors.js';
+
+describe('feed-registry', () => {
+  const feeds = {
+    qrValid: './fixtures/qr.png',
+    blank: { pattern: 'solid' as const, color: 'black' },
+    rotatedQr: { source: './fixtures/qr.png', options: { rotate: 90 as const, width: 320 } },
+  };
+
+  describe('isFeedName', () => {
+    it('should treat bare identifiers as feed names', () => {
+      expect(isFeedName('qrValid')).toBe(true);
+      expect(isFeedName('blank-screen')).toBe(true);
+    });
+
+    it('should treat paths and file names as files', () => {
+      expect(isFeedName('camera/wdio.mov')).toBe(false);
+      expect(isFeedName('qr.png')).toBe(false);
+      expect(isFeedName('C:\\fixtures\\feed')).toBe(false);
+    });
+  });
+
+  describe('resolveFeed', () => {
+    it('should resolve a registered file feed', () => {
+      expect(resolveFeed(feeds, 'qrValid', undefined)).toEqual({ source: './fixtures/qr.png', options: {} });
+    });
+
+    it('should resolve a registered test pattern', () => {
+      expect(resolveFeed(feeds, 'blank', undefined).source).toEqual({ pattern: 'solid', color: 'black' });
+    });
+
+    it('should merge defaults, feed options and per-call options in that order', () => {
+      const resolved = resolveFeed(feeds, 'rotatedQr', { mirror: true, width: 640 }, { width: 160 });
+
+      expect(resolved).toEqual({
+        source: './fixtures/qr.png',
+        options: { mirror: true, rotate: 90, width: 160 },
+      });
+    });
+
+    it('should pass file paths and generated sources through', () => {
+      expect(resolveFeed(feeds, 'camera/wdio.mov', { mirror: true })).toEqual({
+        source: 'camera/wdio.mov',
+        options: { mirror: true },
+      });
+      expect(resolveFeed(feeds, { type: 'qr', data: 'hi' }, undefined).source).toEqual({ type: 'qr', data: 'hi' });
+    });
+
+    it('should not resolve names without a registry', () => {
+      expect(resolveFeed(undefined, 'qrValid', undefined).source).toBe('qrValid');
+    });
+
+    it('should list the registered feeds for unknown names', () => {
+      expect(() => resolveFeed(feeds, 'qrInvalid', undefined)).toThrow(UnknownFeedError);
+      expect(() => resolveFeed(feeds, 'qrInvalid', undefined)).toThrow(
+        'Unknown camera feed "qrInvalid". Registered feeds: qrValid, blank, rotatedQr',
+      );
+    });
+
+    it('should not resolve inherited object properties', () => {
+      expect(() => resolveFeed(feeds, 'toString', undefined)).toThrow(UnknownFeedError);
+    });
+
+    describe('with unregistered names on disk', () => {
+      let directory: string;
+
+      beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'feed-registry-'));
+        vi.spyOn(process, 'cwd').mockReturnValue(directory);
+      });
+
+      afterEach(() => {
+        vi.restoreAllMocks();
+        fs.rmSync(directory, { recursive: true, force: true });
+      });
+
+      it('should keep an extensionless file in the working directory as a path', () => {
+        fs.writeFileSync(path.join(directory, 'capture'), '');
+
+        expect(resolveFeed(feeds, 'capture', { mirror: true })).toEqual({ source: 'capture', options: { mirror: true } });
+      });
+
+      it('should keep an image sequence directory as a path', () => {
+        fs.mkdirSync(path.join(directory, 'frames'));
+
+        expect(resolveFeed(feeds, 'frames', undefined)).toEqual({ source: 'frames', options: {} });
+      });
+
+      it('should prefer a registered feed over a file of the same name', () => {
+        fs.writeFileSync(path.join(directory, 'qrValid'), '');
+
+        expect(resolveFeed(feeds, 'qrValid', undefined).source).toBe('./fixtures/qr.png');
+      });
+    });
+  });
+});
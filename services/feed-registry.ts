@@ -0,0 +1,71 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { isGeneratedSource } from './camera-source.js';
+import type { CameraSource } from './camera-source.js';
+import { mergeConversionOptions } from './conversion-options.js';
+import type { ConversionOptions } from './conversion-options.js';
+import { UnknownFeedError } from './errors.js';
+
+/**
+ * A registered feed with its own conversion options
+ */
+export interface FeedDefinition {
+  source: CameraSource;
+  options?: ConversionOptions;
+}
+
+/**
+ * A registry entry: a camera source, or a source with conversion options
+ */
+export type FeedEntry = CameraSource | FeedDefinition;
+
+export type FeedRegistry = Record<string, FeedEntry>;
+
+export interface ResolvedFeed {
+  source: CameraSource;
+  options: ConversionOptions;
+}
+
+/**
+ * Check if a registry entry carries its own conversion options
+ */
+function isFeedDefinition(entry: FeedEntry): entry is FeedDefinition {
+  return typeof entry === 'object' && entry !== null && 'source' in entry;
+}
+
+/**
+ * Check if a string source looks like a feed name rather than a file path (no directory, no extension)
+ */
+export function isFeedName(source: string): boolean {
+  return !/[\\/]/.test(source) && path.extname(source) === '';
+}
+
+/**
+ * Resolve a camera source that may name a registered feed
+ * Unregistered names that exist on disk (an extensionless file, an image sequence directory) stay paths
+ * Options are merged in order: service defaults, feed options, per-call options
+ */
+export function resolveFeed(
+  feeds: FeedRegistry | undefined,
+  source: CameraSource,
+  defaults: ConversionOptions | undefined,
+  options?: ConversionOptions,
+): ResolvedFeed {
+  if (!feeds || isGeneratedSource(source) || !isFeedName(source)) {
+    return { source, options: mergeConversionOptions(defaults, options) };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(feeds, source)) {
+    if (fs.existsSync(path.resolve(process.cwd(), source))) {
+      return { source, options: mergeConversionOptions(defaults, options) };
+    }
+    throw new UnknownFeedError(source, Object.keys(feeds));
+  }
+
+  const entry = feeds[source];
+  const feed = isFeedDefinition(entry) ? entry : { source: entry };
+  return {
+    source: feed.source,
+    options: mergeConversionOptions(mergeConversionOptions(defaults, feed.options), options),
+  };
+}
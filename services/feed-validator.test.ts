@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import jpeg from 'jpeg-js';
+import { InvalidCameraFeedError } from './errors.js';
+import { readMjpegLayout, readY4mLayout, validateCameraFeed, validateMjpeg, validateY4m } from './feed-validator.js';
+
+/** A 4x2 JPEG frame: SOI, APP0, SOF0 with the size, SOS with a byte of image data, EOI */
+const jpegFrame = Buffer.from([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46,
+  0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x02, 0x00, 0x04, 0x01, 0x01, 0x11, 0x00,
+  0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00, 0x12,
+  0xff, 0xd9,
+]);
+
+/** A Y4M frame of a 4x2 stream: 8 luma bytes and two 2x1 chroma planes */
+const y4mFrame = Buffer.concat([Buffer.from('FRAME\n'), Buffer.alloc(12)]);
+
+/**
+ * A camera photo: a 32x16 JPEG with an APP1 EXIF segment embedding an 8x8 JPEG thumbnail
+ * (the IFDs pointing at the thumbnail are left out, decoders skip the segment anyway)
+ */
+function photoWithThumbnail(): Buffer {
+  const encode = (width: number, height: number) => jpeg.encode({ width, height, data: Buffer.alloc(width * height * 4, 0x80) }, 90).data;
+  const exif = Buffer.concat([Buffer.from('Exif\0\0II*\0\x08\0\0\0', 'latin1'), encode(8, 8)]);
+  const app1 = Buffer.concat([Buffer.from([0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff]), exif]);
+  const photo = encode(32, 16);
+  return Buffer.concat([photo.subarray(0, 2), app1, photo.subarray(2)]);
+}
+
+describe('feed-validator', () => {
+  let directory: string;
+
+  const writeFeed = (fileName: string, ...parts: (string | Buffer)[]) => {
+    const filePath = path.join(directory, fileName);
+    fs.writeFileSync(filePath, Buffer.concat(parts.map((part) => (typeof part === 'string' ? Buffer.from(part, 'latin1') : part))));
+    return filePath;
+  };
+
+  const expectProblem = (validate: () => unknown, problem: string) => {
+    expect(validate).toThrow(InvalidCameraFeedError);
+    expect(validate).toThrow(expect.objectContaining({ problem }));
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'camera-feed-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('validateY4m', () => {
+    it('should accept complete 4:2:0 frames', () => {
+      const feed = writeFeed('feed.y4m', 'YUV4MPEG2 W4 H2 F30000:1001 Ip A1:1 C420jpeg XYSCSS=420JPEG\n', y4mFrame, y4mFrame);
+
+      expect(validateY4m(feed)).toEqual({ format: 'y4m', frameCount: 2, width: 4, height: 2, fps: 30000 / 1001 });
+    });
+
+    it('should accept frame parameters and a missing colour space', () => {
+      const feed = writeFeed('feed.y4m', 'YUV4MPEG2 W4 H2 F25:1\n', 'FRAME Ip\n', Buffer.alloc(12));
+
+      expect(validateY4m(feed)).toMatchObject({ frameCount: 1, fps: 25 });
+    });
+
+    it('should round the chroma planes up for odd sizes', () => {
+      const feed = writeFeed('feed.y4m', 'YUV4MPEG2 W3 H3 F30:1 C420\n', 'FRAME\n', Buffer.alloc(9 + 2 * 4));
+
+      expect(validateY4m(feed)).toMatchObject({ frameCount: 1, width: 3, height: 3 });
+    });
+
+    it('should report header problems', () => {
+      expectProblem(() => validateY4m(writeFeed('a.y4m', 'RIFF')), 'file does not start with a YUV4MPEG2 header');
+      expectProblem(() => validateY4m(writeFeed('b.y4m', 'YUV4MPEG2 W4 H2 F30:1')), 'Y4M header is not terminated by a newline');
+      expectProblem(() => validateY4m(writeFeed('c.y4m', 'YUV4MPEG2 W0 H2 F30:1\n')), 'Y4M header has invalid dimensions W0 H2');
+      expectProblem(() => validateY4m(writeFeed('d.y4m', 'YUV4MPEG2 W4 H2\n')), 'Y4M header has no frame rate (F)');
+      expectProblem(() => validateY4m(writeFeed('e.y4m', 'YUV4MPEG2 W4 H2 F30:0\n')), 'Y4M header has invalid frame rate F30:0');
+    });
+
+    it('should reject colour spaces Chrome cannot read', () => {
+      const feed = writeFeed('feed.y4m', 'YUV4MPEG2 W4 H2 F30:1 C422\n', y4mFrame);
+
+      expectProblem(() => validateY4m(feed), 'Y4M colour space C422 is not supported by Chrome, use C420 (8-bit 4:2:0)');
+      expect(() => validateY4m(writeFeed('p10.y4m', 'YUV4MPEG2 W4 H2 F30:1 C420p10\n'))).toThrow('Y4M colour space C420p10 is not supported');
+    });
+
+    it('should report truncated and malformed frames', () => {
+      const truncated = writeFeed('truncated.y4m', 'YUV4MPEG2 W4 H2 F30:1\n', y4mFrame, 'FRAME\n', Buffer.alloc(5));
+      const malformed = writeFeed('malformed.y4m', 'YUV4MPEG2 W4 H2 F30:1\n', y4mFrame, 'GARBAGE\n');
+
+      expectProblem(() => validateY4m(truncated), 'frame 2 is truncated: 5 of 12 bytes (4x2 4:2:0)');
+      expectProblem(() => validateY4m(malformed), 'frame 2 does not start with a FRAME header (at byte 40)');
+    });
+
+    it('should reject files without frames', () => {
+      expectProblem(() => validateY4m(writeFeed('feed.y4m', 'YUV4MPEG2 W4 H2 F30:1\n')), 'Y4M file contains no frames');
+    });
+  });
+
+  describe('readY4mLayout', () => {
+    it('should locate the data of every frame', () => {
+      const feed = writeFeed('feed.y4m', 'YUV4MPEG2 W4 H2 F30:1 C420jpeg\n', y4mFrame, 'FRAME Ip\n', Buffer.alloc(12));
+
+      expect(readY4mLayout(feed)).toEqual({
+        header: 'YUV4MPEG2 W4 H2 F30:1 C420jpeg',
+        width: 4,
+        height: 2,
+        fps: 30,
+        frameSize: 12,
+        frameOffsets: [37, 58],
+      });
+    });
+  });
+
+  describe('readMjpegLayout', () => {
+    it('should return the frames, skipping bytes between them', () => {
+      const feed = writeFeed('feed.mjpeg', jpegFrame, Buffer.from([0x00]), jpegFrame);
+
+      expect(readMjpegLayout(feed)).toEqual({ width: 4, height: 2, frames: [jpegFrame, jpegFrame] });
+    });
+  });
+
+  describe('validateMjpeg', () => {
+    it('should count the frames and read the frame size', () => {
+      const feed = writeFeed('feed.mjpeg', jpegFrame, jpegFrame, jpegFrame);
+
+      expect(validateMjpeg(feed)).toEqual({ format: 'mjpeg', frameCount: 3, width: 4, height: 2 });
+    });
+
+    it('should read the size of photos carrying an EXIF thumbnail', () => {
+      const feed = writeFeed('photos.mjpeg', photoWithThumbnail(), photoWithThumbnail());
+
+      expect(validateMjpeg(feed)).toEqual({ format: 'mjpeg', frameCount: 2, width: 32, height: 16 });
+    });
+
+    it('should report files that are not MJPEG', () => {
+      expectProblem(() => validateMjpeg(writeFeed('empty.mjpeg')), 'file is empty');
+      expectProblem(() => validateMjpeg(writeFeed('text.mjpeg', 'not a video')), 'file does not start with a JPEG SOI marker');
+    });
+
+    it('should report a truncated last frame', () => {
+      const feed = writeFeed('feed.mjpeg', jpegFrame, jpegFrame.subarray(0, 20));
+
+      expectProblem(() => validateMjpeg(feed), `frame 2 is truncated: no EOI marker after byte ${jpegFrame.length}`);
+    });
+  });
+
+  describe('validateCameraFeed', () => {
+    it('should check native feeds by their format', () => {
+      const feed = writeFeed('download', jpegFrame);
+
+      expect(validateCameraFeed(feed)).toMatchObject({ format: 'mjpeg', frameCount: 1 });
+      expect(() => validateCameraFeed(writeFeed('broken.y4m', 'YUV4MPEG2 W4 H2\n'))).toThrow(InvalidCameraFeedError);
+    });
+
+    it('should skip formats that are converted', () => {
+      expect(validateCameraFeed(writeFeed('clip.mp4', 'not checked'))).toBeUndefined();
+    });
+
+    it('should name the file and the problem in the message', () => {
+      const feed = writeFeed('feed.mjpeg', 'not a video');
+
+      expect(() => validateCameraFeed(feed)).toThrow(`Invalid camera feed "${feed}": file does not start with a JPEG SOI marker`);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import fs from 'node:fs';
+import { InvalidCameraFeedError } from './errors.js';
+import { detectFormat } from './format-converter.js';
+import { splitMjpegFrames } from './media-shim.js';
+
+/**
+ * What a valid native camera feed contains
+ */
+export interface CameraFeedInfo {
+  format: 'mjpeg' | 'y4m';
+  frameCount: number;
+  /** Frame size in pixels, from the Y4M header or the first JPEG frame */
+  width?: number;
+  height?: number;
+  /** Frames per second, Y4M only (MJPEG files carry no frame rate) */
+  fps?: number;
+}
+
+/** Longest Y4M stream header read, real headers are well under 100 bytes */
+const MAX_Y4M_HEADER = 1024;
+
+/** Longest Y4M frame header read ("FRAME" and optional parameters) */
+const MAX_Y4M_FRAME_HEADER = 256;
+
+/** 8-bit 4:2:0 colour spaces, the only ones Chrome's Y4M reader accepts (no C tag means 420jpeg) */
+const Y4M_420_COLOUR_SPACES = ['420', '420jpeg', '420paldv', '420mpeg2'];
+
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+
+/** JPEG start-of-frame markers (baseline, extended, progressive, lossless...), which hold the frame size */
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+const JPEG_SOS = 0xda;
+
+interface Y4mHeader {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+/**
+ * Parse the parameters of a Y4M stream header ("YUV4MPEG2 W640 H480 F30:1 Ip A1:1 C420jpeg")
+ */
+function parseY4mHeader(filePath: string, line: string): Y4mHeader {
+  const params = new Map<string, string>();
+  for (const token of line.split(' ').slice(1)) {
+    if (token) {
+      params.set(token[0], token.slice(1));
+    }
+  }
+
+  const width = Number(params.get('W'));
+  const height = Number(params.get('H'));
+  if (!Number.isInteger(width) || width <= 0 || !Number.isInteger(height) || height <= 0) {
+    throw new InvalidCameraFeedError(filePath, `Y4M header has invalid dimensions W${params.get('W') ?? '?'} H${params.get('H') ?? '?'}`);
+  }
+
+  const frameRate = params.get('F');
+  const [numerator, denominator] = (frameRate ?? '').split(':').map(Number);
+  if (!(numerator > 0 && denominator > 0)) {
+    throw new InvalidCameraFeedError(filePath, frameRate === undefined
+      ? 'Y4M header has no frame rate (F)'
+      : `Y4M header has invalid frame rate F${frameRate}`);
+  }
+
+  const colourSpace = params.get('C');
+  if (colourSpace !== undefined && !Y4M_420_COLOUR_SPACES.includes(colourSpace)) {
+    throw new InvalidCameraFeedError(filePath, `Y4M colour space C${colourSpace} is not supported by Chrome, use C420 (8-bit 4:2:0)`);
+  }
+
+  return { width, height, fps: numerator / denominator };
+}
+
+/**
+ * Read up to `length` bytes at a position
+ */
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = fs.readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Where the frames of a Y4M file are, to copy them without decoding
+ */
+export interface Y4mLayout {
+  /** Stream header, without its newline */
+  header: string;
+  width: number;
+  height: number;
+  fps: number;
+  /** Size in bytes of one 4:2:0 frame */
+  frameSize: number;
+  /** Position of the data of each frame, after its FRAME header */
+  frameOffsets: number[];
+}
+
+/**
+ * Read the stream header and the frame positions of a Y4M file, checking that every frame is complete
+ * Only frame headers are read, so large files are checked without loading them
+ */
+export function readY4mLayout(filePath: string): Y4mLayout {
+  const fileSize = fs.statSync(filePath).size;
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const head = readAt(fd, 0, MAX_Y4M_HEADER);
+    if (head.toString('latin1', 0, 10) !== 'YUV4MPEG2 ') {
+      throw new InvalidCameraFeedError(filePath, 'file does not start with a YUV4MPEG2 header');
+    }
+    const headerEnd = head.indexOf(0x0a);
+    if (headerEnd === -1) {
+      throw new InvalidCameraFeedError(filePath, 'Y4M header is not terminated by a newline');
+    }
+    const header = head.toString('latin1', 0, headerEnd);
+    const { width, height, fps } = parseY4mHeader(filePath, header);
+
+    // I420: a full-size luma plane and two quarter-size chroma planes (rounded up for odd sizes)
+    const frameSize = width * height + 2 * Math.ceil(width / 2) * Math.ceil(height / 2);
+    const frameOffsets: number[] = [];
+    let position = headerEnd + 1;
+
+    while (position < fileSize) {
+      const frameHeader = readAt(fd, position, MAX_Y4M_FRAME_HEADER);
+      const frameHeaderEnd = frameHeader.indexOf(0x0a);
+      if (frameHeader.toString('latin1', 0, 5) !== 'FRAME' || frameHeaderEnd === -1) {
+        throw new InvalidCameraFeedError(filePath, `frame ${frameOffsets.length + 1} does not start with a FRAME header (at byte ${position})`);
+      }
+      const dataStart = position + frameHeaderEnd + 1;
+      if (dataStart + frameSize > fileSize) {
+        throw new InvalidCameraFeedError(
+          filePath,
+          `frame ${frameOffsets.length + 1} is truncated: ${Math.max(0, fileSize - dataStart)} of ${frameSize} bytes (${width}x${height} 4:2:0)`,
+        );
+      }
+      frameOffsets.push(dataStart);
+      position = dataStart + frameSize;
+    }
+
+    if (frameOffsets.length === 0) {
+      throw new InvalidCameraFeedError(filePath, 'Y4M file contains no frames');
+    }
+    return { header, width, height, fps, frameSize, frameOffsets };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Check a Y4M file: its stream header, and that every frame is complete
+ */
+export function validateY4m(filePath: string): CameraFeedInfo {
+  const { width, height, fps, frameOffsets } = readY4mLayout(filePath);
+  return { format: 'y4m', frameCount: frameOffsets.length, width, height, fps };
+}
+
+/**
+ * Read the frame size from the segments of a JPEG frame, up to its image data
+ */
+function readJpegSize(frame: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 4 <= frame.length && frame[offset] === 0xff) {
+    const marker = frame[offset + 1];
+    if (marker === JPEG_SOS) {
+      return undefined;
+    }
+    if (JPEG_SOF_MARKERS.has(marker) && offset + 9 <= frame.length) {
+      return { height: frame.readUInt16BE(offset + 5), width: frame.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + frame.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+/**
+ * The JPEG frames of an MJPEG file, to copy them without decoding
+ */
+export interface MjpegLayout {
+  /** Frame size in pixels, from the first JPEG frame that has one */
+  width?: number;
+  height?: number;
+  frames: Buffer[];
+}
+
+/**
+ * Read the JPEG frames of an MJPEG file, checking that it starts with a frame and that every frame ends with an EOI marker
+ */
+export function readMjpegLayout(filePath: string): MjpegLayout {
+  const data = fs.readFileSync(filePath);
+  if (data.length === 0) {
+    throw new InvalidCameraFeedError(filePath, 'file is empty');
+  }
+  if (!data.subarray(0, 3).equals(JPEG_SOI)) {
+    throw new InvalidCameraFeedError(filePath, 'file does not start with a JPEG SOI marker');
+  }
+
+  const frames = splitMjpegFrames(data);
+  // The splitter stops at the first frame without EOI, any frame start after the last complete frame is truncated
+  const lastFrame = frames[frames.length - 1];
+  const splitEnd = lastFrame ? lastFrame.byteOffset - data.byteOffset + lastFrame.length : 0;
+  const truncatedStart = data.indexOf(JPEG_SOI, splitEnd);
+  if (truncatedStart !== -1) {
+    throw new InvalidCameraFeedError(filePath, `frame ${frames.length + 1} is truncated: no EOI marker after byte ${truncatedStart}`);
+  }
+
+  let size: { width: number; height: number } | undefined;
+  for (const frame of frames) {
+    size ??= readJpegSize(frame);
+  }
+  return { ...size, frames };
+}
+
+/**
+ * Check an MJPEG file: it must start with a JPEG frame, and every frame must end with an EOI marker
+ */
+export function validateMjpeg(filePath: string): CameraFeedInfo {
+  const { frames, ...size } = readMjpegLayout(filePath);
+  return { format: 'mjpeg', frameCount: frames.length, ...size };
+}
+
+/**
+ * Check a native MJPEG or Y4M feed before Chrome reads it, throwing InvalidCameraFeedError on the first problem
+ * Returns undefined for other formats, which FFmpeg converts
+ */
+export function validateCameraFeed(filePath: string): CameraFeedInfo | undefined {
+  const format = detectFormat(filePath);
+  if (format === 'y4m') {
+    return validateY4m(filePath);
+  }
+  if (format === 'mjpeg') {
+    return validateMjpeg(filePath);
+  }
+  return undefined;
+}
@@ -5,7 +5,7 @@ const mockExecAsync = vi.hoisted(() => vi.fn());
 
 // Mock the modules
 vi.mock('node:child_process', () => ({
-  exec: vi.fn(),
+  execFile: vi.fn(),
 }));
 
 vi.mock('node:util', () => ({
@@ -72,7 +72,15 @@ describe('ffmpeg-checker', () => {
 
       expect(result.available).toBe(true);
       expect(result.path).toBe('/custom/path/ffmpeg');
-      expect(mockExecAsync).toHaveBeenCalledWith(expect.stringContaining('/custom/path/ffmpeg'));
+      expect(mockExecAsync).toHaveBeenCalledWith('/custom/path/ffmpeg', ['-version'], expect.anything());
+    });
+
+    it('should pass a path with spaces and quotes as the executable, without a shell', async () => {
+      mockExecAsync.mockResolvedValueOnce({ stdout: 'ffmpeg version 6.0', stderr: '' });
+
+      await checkFfmpegAvailability('/opt/my "tools"/ffmpeg $(id)');
+
+      expect(mockExecAsync).toHaveBeenCalledWith('/opt/my "tools"/ffmpeg $(id)', ['-version'], expect.anything());
     });
 
     it('should handle version output without parseable version string', async () => {
@@ -1,7 +1,7 @@
-import { exec } from 'node:child_process';
+import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface FfmpegAvailability {
   available: boolean;
@@ -18,7 +18,7 @@ export async function checkFfmpegAvailability(customPath?: string): Promise<Ffmp
   const ffmpegPath = customPath ?? 'ffmpeg';
 
   try {
-    const { stdout, stderr } = await execAsync(`"${ffmpegPath}" -version`);
+    const { stdout, stderr } = await execFileAsync(ffmpegPath, ['-version'], { windowsHide: true });
     const output = stdout || stderr;
 
     // Parse version from output (e.g., "ffmpeg version 6.0 ...")
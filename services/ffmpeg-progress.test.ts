@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createProgressLogger,
+  createProgressParser,
+  formatConversionProgress,
+  getOutputDuration,
+  parseInputDuration,
+  toConversionProgress,
+} from './ffmpeg-progress.js';
+
+describe('ffmpeg-progress', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('parseInputDuration', () => {
+    it('should parse the duration FFmpeg logs for the input', () => {
+      expect(parseInputDuration('Input #0, mov,mp4, from \'a.mp4\':\n  Duration: 00:01:02.50, start: 0.000000')).toBe(62500);
+    });
+
+    it('should return undefined when the duration is unknown', () => {
+      expect(parseInputDuration('  Duration: N/A, start: 0.000000')).toBeUndefined();
+      expect(parseInputDuration('')).toBeUndefined();
+    });
+  });
+
+  describe('getOutputDuration', () => {
+    it('should apply the timing options to the input duration', () => {
+      expect(getOutputDuration(10_000, {})).toBe(10_000);
+      expect(getOutputDuration(10_000, { startTime: 2 })).toBe(8000);
+      expect(getOutputDuration(10_000, { startTime: 2, duration: 3 })).toBe(3000);
+      expect(getOutputDuration(10_000, { startTime: 8, duration: 5 })).toBe(2000);
+      expect(getOutputDuration(10_000, { duration: 3, loop: 'pingpong', holdLastFrame: 1 })).toBe(7000);
+    });
+
+    it('should use the trimmed duration when the input duration is unknown', () => {
+      expect(getOutputDuration(undefined, { duration: 4 })).toBe(4000);
+      expect(getOutputDuration(undefined, {})).toBeUndefined();
+    });
+  });
+
+  describe('createProgressParser', () => {
+    it('should emit each complete block, across chunk boundaries', () => {
+      const onBlock = vi.fn();
+      const parse = createProgressParser(onBlock);
+
+      parse('frame=10\nout_time_us=400000\nspeed=2.0');
+      parse('x\nprogress=continue\nframe=25\n');
+      parse('progress=end\n');
+
+      expect(onBlock).toHaveBeenCalledTimes(2);
+      expect(onBlock).toHaveBeenNthCalledWith(1, { frame: '10', out_time_us: '400000', speed: '2.0x', progress: 'continue' });
+      expect(onBlock).toHaveBeenNthCalledWith(2, { frame: '25', progress: 'end' });
+    });
+  });
+
+  describe('toConversionProgress', () => {
+    it('should convert the values and compute the percentage', () => {
+      expect(toConversionProgress('/a.mp4', { frame: '60', out_time_us: '2000000', speed: '1.5x', progress: 'continue' }, 8000))
+        .toEqual({ source: '/a.mp4', frame: 60, outTimeMs: 2000, speed: 1.5, percent: 25, done: false });
+    });
+
+    it('should fall back to out_time_ms and leave unknown values out', () => {
+      expect(toConversionProgress('/a.mp4', { frame: '1', out_time_ms: '500000', speed: 'N/A', progress: 'continue' }, undefined))
+        .toEqual({ source: '/a.mp4', frame: 1, outTimeMs: 500, done: false });
+    });
+
+    it('should report 100% when done', () => {
+      expect(toConversionProgress('/a.mp4', { out_time_us: '1900000', progress: 'end' }, 2000)).toMatchObject({ percent: 100, done: true });
+    });
+  });
+
+  describe('formatConversionProgress', () => {
+    it('should describe the progress', () => {
+      expect(formatConversionProgress({ source: '/a.mp4', frame: 60, outTimeMs: 2000, speed: 1.5, percent: 25, done: false }))
+        .toBe('Converting /a.mp4: 25% (frame 60, 1.5x)');
+      expect(formatConversionProgress({ source: '/a.mp4', frame: 60, outTimeMs: 2000, done: true }))
+        .toBe('Converted /a.mp4: 2.0s (frame 60)');
+    });
+  });
+
+  describe('createProgressLogger', () => {
+    it('should only log conversions running longer than the interval', () => {
+      vi.useFakeTimers({ now: 0, toFake: ['Date'] });
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const log = createProgressLogger(5000);
+      const report = (source: string, done = false) => log({ source, frame: 1, outTimeMs: 0, done });
+
+      report('/short.mp4');
+      report('/long.mp4');
+      vi.setSystemTime(1000);
+      report('/short.mp4', true);
+      vi.setSystemTime(5000);
+      report('/long.mp4');
+      vi.setSystemTime(6000);
+      report('/long.mp4');
+      report('/long.mp4', true);
+
+      expect(logSpy.mock.calls.map(([message]) => message)).toEqual([
+        'Converting /long.mp4: 0.0s (frame 1)',
+        'Converted /long.mp4: 0.0s (frame 1)',
+      ]);
+    });
+  });
+});
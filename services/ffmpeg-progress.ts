@@ -0,0 +1,140 @@
+import type { ConversionOptions } from './conversion-options.js';
+
+/**
+ * Progress of one FFmpeg conversion, reported from its `-progress` output
+ */
+export interface ConversionProgress {
+  /** Source being converted (file path or generated source description) */
+  source: string;
+  /** Frames written so far */
+  frame: number;
+  /** Output duration written so far, in milliseconds */
+  outTimeMs: number;
+  /** Conversion speed relative to real time (2 = twice as fast), when FFmpeg reports it */
+  speed?: number;
+  /** 0-100, when the output duration is known */
+  percent?: number;
+  /** True for the last report of a conversion */
+  done: boolean;
+}
+
+export type ProgressCallback = (progress: ConversionProgress) => void;
+
+/**
+ * Parse the input duration FFmpeg logs on stderr ("Duration: 00:01:02.50"), in milliseconds
+ */
+export function parseInputDuration(stderr: string): number | undefined {
+  const match = stderr.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (!match) {
+    return undefined;
+  }
+  return Math.round(((Number(match[1]) * 60 + Number(match[2])) * 60 + Number(match[3])) * 1000);
+}
+
+/**
+ * Duration of the output in milliseconds, from the input duration and the timing options
+ */
+export function getOutputDuration(inputDurationMs: number | undefined, options: ConversionOptions): number | undefined {
+  const startMs = (options.startTime ?? 0) * 1000;
+  const trimmedMs = options.duration !== undefined
+    ? Math.min(options.duration * 1000, (inputDurationMs ?? Infinity) - startMs)
+    : inputDurationMs !== undefined ? inputDurationMs - startMs : undefined;
+  if (trimmedMs === undefined || trimmedMs <= 0) {
+    return undefined;
+  }
+  return trimmedMs * (options.loop === 'pingpong' ? 2 : 1) + (options.holdLastFrame ?? 0) * 1000;
+}
+
+/**
+ * Create a parser for FFmpeg's `-progress` output (key=value lines, each block ending with `progress=`)
+ * Returns a function to feed output chunks to, which calls `onBlock` with the values of each complete block
+ */
+export function createProgressParser(onBlock: (values: Record<string, string>) => void): (chunk: string) => void {
+  let pending = '';
+  let values: Record<string, string> = {};
+
+  return (chunk: string) => {
+    const lines = (pending + chunk).split('\n');
+    pending = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const separator = line.indexOf('=');
+      if (separator === -1) {
+        continue;
+      }
+      const key = line.slice(0, separator).trim();
+      values[key] = line.slice(separator + 1).trim();
+      if (key === 'progress') {
+        onBlock(values);
+        values = {};
+      }
+    }
+  };
+}
+
+/**
+ * Turn a block of `-progress` values into a progress report
+ */
+export function toConversionProgress(
+  source: string,
+  values: Record<string, string>,
+  outputDurationMs: number | undefined,
+): ConversionProgress {
+  // out_time_us is missing on older FFmpeg versions, where out_time_ms holds microseconds too
+  const outTimeUs = Number(values.out_time_us ?? values.out_time_ms);
+  const outTimeMs = Number.isFinite(outTimeUs) && outTimeUs > 0 ? Math.round(outTimeUs / 1000) : 0;
+  const speed = Number.parseFloat(values.speed ?? '');
+  const done = values.progress === 'end';
+
+  const progress: ConversionProgress = {
+    source,
+    frame: Number(values.frame) || 0,
+    outTimeMs,
+    done,
+  };
+  if (Number.isFinite(speed)) {
+    progress.speed = speed;
+  }
+  if (outputDurationMs !== undefined) {
+    progress.percent = done ? 100 : Math.min(100, Math.round((outTimeMs / outputDurationMs) * 100));
+  }
+  return progress;
+}
+
+/**
+ * One-line description of a progress report for the logs
+ */
+export function formatConversionProgress(progress: ConversionProgress): string {
+  const position = progress.percent !== undefined ? `${progress.percent}%` : `${(progress.outTimeMs / 1000).toFixed(1)}s`;
+  const speed = progress.speed !== undefined ? `, ${progress.speed}x` : '';
+  return `${progress.done ? 'Converted' : 'Converting'} ${progress.source}: ${position} (frame ${progress.frame}${speed})`;
+}
+
+/**
+ * Progress callback logging conversions that run longer than the interval, once per interval and when they complete
+ */
+export function createProgressLogger(intervalMs: number): ProgressCallback {
+  const startedAt = new Map<string, number>();
+  const loggedAt = new Map<string, number>();
+
+  return (progress) => {
+    const now = Date.now();
+    const { source } = progress;
+    if (progress.done) {
+      if (loggedAt.has(source)) {
+        console.log(formatConversionProgress(progress));
+      }
+      startedAt.delete(source);
+      loggedAt.delete(source);
+      return;
+    }
+
+    if (!startedAt.has(source)) {
+      startedAt.set(source, now);
+    }
+    if (now - (loggedAt.get(source) ?? startedAt.get(source) ?? now) >= intervalMs) {
+      loggedAt.set(source, now);
+      console.log(formatConversionProgress(progress));
+    }
+  };
+}
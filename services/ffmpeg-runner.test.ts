@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { FfmpegProcessError, MAX_FFMPEG_OUTPUT, runFfmpeg } from './ffmpeg-runner.js';
+
+// Node stands in for FFmpeg, so the real process handling is exercised without FFmpeg installed
+const node = process.execPath;
+
+/**
+ * Run a script with node through runFfmpeg, collecting its stdout
+ */
+async function runScript(script: string, args: string[] = [], signal?: AbortSignal): Promise<string> {
+  let stdout = '';
+  await runFfmpeg(node, ['-e', script, ...args], { signal, onStdout: (chunk) => { stdout += chunk; } });
+  return stdout;
+}
+
+describe('ffmpeg-runner', () => {
+  describe('runFfmpeg', () => {
+    it('should pass arguments with quotes, spaces, shell syntax and unicode unchanged', async () => {
+      const args = ['it\'s a "clip".mp4', '$(touch pwned) `id` $HOME; rm -rf', 'caméra vidéo 测试 🎥.mp4', ''];
+
+      const stdout = await runScript('process.stdout.write(JSON.stringify(process.argv.slice(1)))', args);
+
+      expect(JSON.parse(stdout)).toEqual(args);
+    });
+
+    it('should stream stderr to onStderr', async () => {
+      const chunks: string[] = [];
+
+      await runFfmpeg(node, ['-e', 'process.stderr.write("Duration: 00:00:01.00")'], { onStderr: (chunk) => chunks.push(chunk) });
+
+      expect(chunks.join('')).toBe('Duration: 00:00:01.00');
+    });
+
+    it('should reject with the exit code and stderr on failure', async () => {
+      const run = runScript('process.stderr.write("Invalid data found when processing input"); process.exit(69)');
+
+      await expect(run).rejects.toThrow(FfmpegProcessError);
+      await expect(run).rejects.toMatchObject({
+        message: 'FFmpeg exited with code 69',
+        exitCode: 69,
+        stderr: 'Invalid data found when processing input',
+      });
+    });
+
+    it('should keep only the end of a long stderr', async () => {
+      const script = 'process.stderr.write("x".repeat(200000) + "the actual error"); process.exitCode = 1';
+
+      const error = await runScript(script).catch((rejection: unknown) => rejection) as FfmpegProcessError;
+
+      expect(error.stderr.length).toBe(MAX_FFMPEG_OUTPUT + '[...]'.length);
+      expect(error.stderr.startsWith('[...]x')).toBe(true);
+      expect(error.stderr.endsWith('the actual error')).toBe(true);
+    });
+
+    it('should kill the process when the signal aborts', async () => {
+      const controller = new AbortController();
+      const startTime = Date.now();
+      const run = runScript('setTimeout(() => {}, 30000)', [], controller.signal);
+
+      setTimeout(() => controller.abort(), 50);
+
+      await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+      expect(Date.now() - startTime).toBeLessThan(10000);
+    });
+
+    it('should reject when the executable cannot be started', async () => {
+      await expect(runFfmpeg('/nonexistent/ffmpeg', ['-version'])).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { spawn } from 'node:child_process';
+
+/** Characters of stderr kept for error messages, the end of FFmpeg's log explains a failure */
+export const MAX_FFMPEG_OUTPUT = 64 * 1024;
+
+export interface FfmpegRunOptions {
+  /** Kills the process, the run then rejects with an AbortError */
+  signal?: AbortSignal;
+  /** Called with each stdout chunk, stdout is ignored without it */
+  onStdout?: (chunk: string) => void;
+  /** Called with each stderr chunk */
+  onStderr?: (chunk: string) => void;
+}
+
+/**
+ * Error thrown when an FFmpeg process exits with a non-zero code or is killed
+ */
+export class FfmpegProcessError extends Error {
+  public readonly exitCode: number | null;
+  /** The end of the process's stderr, at most MAX_FFMPEG_OUTPUT characters */
+  public readonly stderr: string;
+
+  constructor(exitCode: number | null, exitSignal: string | null, stderr: string) {
+    super(exitCode !== null ? `FFmpeg exited with code ${exitCode}` : `FFmpeg was killed by ${exitSignal}`);
+    this.name = 'FfmpegProcessError';
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * Run an FFmpeg (or FFprobe) executable with an argument array, without a shell,
+ * so paths containing quotes, spaces or `$` are passed through unchanged
+ * Rejects with FfmpegProcessError on a non-zero exit, or the spawn error when it cannot start
+ */
+export function runFfmpeg(executable: string, args: string[], options: FfmpegRunOptions = {}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(executable, args, {
+      signal: options.signal,
+      stdio: ['ignore', options.onStdout ? 'pipe' : 'ignore', 'pipe'],
+      windowsHide: true,
+    });
+
+    let stderr = '';
+    let truncated = false;
+    child.stderr?.setEncoding('utf8');
+    child.stderr?.on('data', (chunk: string) => {
+      options.onStderr?.(chunk);
+      stderr += chunk;
+      if (stderr.length > MAX_FFMPEG_OUTPUT) {
+        stderr = stderr.slice(-MAX_FFMPEG_OUTPUT);
+        truncated = true;
+      }
+    });
+    if (options.onStdout) {
+      const { onStdout } = options;
+      child.stdout?.setEncoding('utf8');
+      child.stdout?.on('data', (chunk: string) => onStdout(chunk));
+    }
+
+    // Failed to start, or aborted through the signal ('close' follows, the first settle wins)
+    child.on('error', reject);
+    child.on('close', (exitCode, exitSignal) => {
+      if (exitCode === 0) {
+        resolve();
+        return;
+      }
+      reject(new FfmpegProcessError(exitCode, exitSignal, truncated ? `[...]${stderr}` : stderr));
+    });
+  });
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { acquireFileLock } from './file-lock.js';
+
+describe('file-lock', () => {
+  let directory: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'camera-lock-'));
+    lockPath = path.join(directory, 'feed.mjpeg.lock');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('acquireFileLock', () => {
+    it('should create the lock file and remove it on release', async () => {
+      const release = await acquireFileLock(lockPath, { staleTimeout: 60_000 });
+
+      expect(JSON.parse(fs.readFileSync(lockPath, 'utf8'))).toMatchObject({ pid: process.pid, token: expect.any(String) });
+
+      release();
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('should wait until the holder releases the lock', async () => {
+      const release = await acquireFileLock(lockPath, { staleTimeout: 60_000 });
+      let acquired = false;
+      const waiting = acquireFileLock(lockPath, { staleTimeout: 60_000, pollInterval: 5 }).then((releaseSecond) => {
+        acquired = true;
+        return releaseSecond;
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(acquired).toBe(false);
+
+      release();
+      (await waiting)();
+      expect(acquired).toBe(true);
+    });
+
+    it('should take over a stale lock left by a crashed process', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      fs.writeFileSync(lockPath, JSON.stringify({ pid: 0 }));
+      const past = new Date(Date.now() - 120_000);
+      fs.utimesSync(lockPath, past, past);
+
+      const release = await acquireFileLock(lockPath, { staleTimeout: 60_000, pollInterval: 5 });
+
+      expect(JSON.parse(fs.readFileSync(lockPath, 'utf8'))).toMatchObject({ pid: process.pid });
+      expect(console.log).toHaveBeenCalledWith(`Removing stale conversion lock ${lockPath}`);
+      release();
+    });
+
+    it('should keep the lock of the process that took it over as stale', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const releaseSlow = await acquireFileLock(lockPath, { staleTimeout: 60_000 });
+      // The slow holder missed its heartbeats
+      const past = new Date(Date.now() - 120_000);
+      fs.utimesSync(lockPath, past, past);
+      const releaseNew = await acquireFileLock(lockPath, { staleTimeout: 60_000, pollInterval: 5 });
+      const newLock = fs.readFileSync(lockPath, 'utf8');
+
+      releaseSlow();
+
+      expect(fs.readFileSync(lockPath, 'utf8')).toBe(newLock);
+      releaseNew();
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('should keep a held lock fresh', async () => {
+      const release = await acquireFileLock(lockPath, { staleTimeout: 30 });
+      const past = new Date(Date.now() - 120_000);
+      fs.utimesSync(lockPath, past, past);
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(Date.now() - fs.statSync(lockPath).mtimeMs).toBeLessThan(1000);
+      release();
+    });
+
+    it('should throw when the lock cannot be created', async () => {
+      await expect(acquireFileLock(path.join(directory, 'missing', 'feed.lock'), { staleTimeout: 60_000 }))
+        .rejects.toThrow('ENOENT');
+    });
+  });
+});
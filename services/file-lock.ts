@@ -0,0 +1,107 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import crypto from 'node:crypto';
+
+/** Delay between attempts while another process holds a lock */
+const DEFAULT_POLL_INTERVAL = 100;
+
+export interface FileLockOptions {
+  /** A lock not refreshed for this long (ms) was left behind by a crashed process and is taken over */
+  staleTimeout: number;
+  pollInterval?: number;
+  /** Stops waiting for the lock, acquireFileLock then rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * Release a lock acquired with acquireFileLock
+ */
+export type ReleaseFileLock = () => void;
+
+/**
+ * Token of the holder written into a lock file, undefined when the file is gone or unreadable
+ */
+function readLockToken(lockPath: string): string | undefined {
+  try {
+    return (JSON.parse(fs.readFileSync(lockPath, 'utf8')) as { token?: string }).token;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remove a lock file if it still holds `token`, a lock taken over by another process since then is kept
+ */
+function removeLockFile(lockPath: string, token: string | undefined): void {
+  if (readLockToken(lockPath) !== token) {
+    return;
+  }
+  try {
+    fs.unlinkSync(lockPath);
+  } catch {
+    // Already removed (released, or taken over as stale)
+  }
+}
+
+/**
+ * Acquire an exclusive lock shared by every process on this machine, by creating `lockPath`
+ * Waits while another process holds it. The holder refreshes the lock's modification time,
+ * so a lock older than `staleTimeout` belongs to a crashed process and is removed
+ * The lock file holds a random token of its holder: a holder whose lock was taken over
+ * as stale neither refreshes nor removes the lock of the new holder
+ */
+export async function acquireFileLock(lockPath: string, options: FileLockOptions): Promise<ReleaseFileLock> {
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  const token = crypto.randomUUID();
+
+  for (;;) {
+    options.signal?.throwIfAborted();
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, JSON.stringify({ pid: process.pid, hostname: os.hostname(), token }));
+      fs.closeSync(fd);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    let lockedAt: number;
+    let holderToken: string | undefined;
+    try {
+      lockedAt = fs.statSync(lockPath).mtimeMs;
+      holderToken = readLockToken(lockPath);
+    } catch {
+      // Released in the meantime
+      continue;
+    }
+
+    if (Date.now() - lockedAt > options.staleTimeout) {
+      console.log(`Removing stale conversion lock ${lockPath}`);
+      // Only the stale lock is removed, not one another process created after taking it over
+      removeLockFile(lockPath, holderToken);
+      continue;
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
+  }
+
+  const heartbeat = setInterval(() => {
+    if (readLockToken(lockPath) !== token) {
+      // Taken over as stale by another process
+      return;
+    }
+    try {
+      const now = new Date();
+      fs.utimesSync(lockPath, now, now);
+    } catch {
+      // Removed as stale by another process
+    }
+  }, Math.max(1, Math.floor(options.staleTimeout / 3)));
+  heartbeat.unref();
+
+  return () => {
+    clearInterval(heartbeat);
+    removeLockFile(lockPath, token);
+  };
+}
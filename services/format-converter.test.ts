@@ -1,21 +1,101 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { detectFormat, requiresConversion } from './format-converter.js';
-import { ConversionError, UnsupportedFormatError } from './errors.js';
+import { detectFormat, requiresConversion, supportsNativeEngine } from './format-converter.js';
+import { ConversionError, ConversionTimeoutError, UnsupportedFormatError } from './errors.js';
+import { PNG } from 'pngjs';
 
-// Hoist the mock function so it's available during vi.mock hoisting
+// Hoist the mock functions so they're available during vi.mock hoisting
 const mockExecAsync = vi.hoisted(() => vi.fn());
+const mockRunFfmpeg = vi.hoisted(() => vi.fn());
+const mockWriteTimelineFeed = vi.hoisted(() => vi.fn());
 
 vi.mock('node:fs');
 vi.mock('node:util', () => ({
   promisify: () => mockExecAsync,
 }));
+vi.mock('./ffmpeg-runner.js', async (importOriginal) => ({
+  ...await importOriginal<Record<string, unknown>>(),
+  runFfmpeg: mockRunFfmpeg,
+}));
+vi.mock('./camera-timeline.js', async (importOriginal) => ({
+  ...await importOriginal<Record<string, unknown>>(),
+  writeTimelineFeed: mockWriteTimelineFeed,
+}));
 
 // Import after mocking
 import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
 import { FormatConverter } from './format-converter.js';
+import { FfmpegProcessError } from './ffmpeg-runner.js';
+import { SNIFF_LENGTH } from './format-sniffer.js';
+import type { FfmpegRunOptions } from './ffmpeg-runner.js';
 
 const mockFs = vi.mocked(fs);
 
+/**
+ * Queue the `ffmpeg -version` probe a converter runs once before its first cache lookup or FFmpeg conversion
+ */
+function mockFfmpegVersion(version = '6.0') {
+  mockExecAsync.mockResolvedValueOnce({ stdout: `ffmpeg version ${version}`, stderr: '' });
+}
+
+/**
+ * Queue an FFmpeg run that only ends when its abort signal fires, like a hanging conversion
+ */
+function mockHangingFfmpeg() {
+  mockRunFfmpeg.mockImplementationOnce((_executable: string, _args: string[], options: FfmpegRunOptions) => new Promise((_resolve, reject) => {
+    options.signal?.addEventListener('abort', () => reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' })));
+  }));
+}
+
+const LOCK_TOKEN = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Give every lock the same token and let lock files read it back, as a lock is only removed by its holder
+ */
+function mockLockToken() {
+  vi.spyOn(crypto, 'randomUUID').mockReturnValue(LOCK_TOKEN);
+  const readFileSync = mockFs.readFileSync.getMockImplementation();
+  mockFs.readFileSync.mockImplementation(((filePath: fs.PathOrFileDescriptor, options?: unknown) => (
+    String(filePath).endsWith('.lock') ? JSON.stringify({ token: LOCK_TOKEN }) : readFileSync?.(filePath, options as never)
+  )) as typeof fs.readFileSync);
+}
+
+/**
+ * FFmpeg runs of the converter, arguments joined by spaces
+ */
+function ffmpegCommands(): string[] {
+  return mockRunFfmpeg.mock.calls.map(([executable, args]: [string, string[]]) => [executable, ...args].join(' '));
+}
+
+/**
+ * Make every file read start with these bytes, as format detection sees them
+ */
+function mockFileContent(header: Buffer) {
+  mockFs.readSync.mockImplementation((_fd, buffer) => {
+    header.copy(buffer as Buffer);
+    return header.length;
+  });
+}
+
+/**
+ * Assert FFmpeg was only probed for its version, nothing was converted
+ */
+function expectOnlyVersionProbe() {
+  expect(mockExecAsync).toHaveBeenCalledTimes(1);
+  expect(mockExecAsync).toHaveBeenCalledWith('ffmpeg', ['-version'], expect.anything());
+  expect(mockRunFfmpeg).not.toHaveBeenCalled();
+}
+
+/**
+ * Assert FFmpeg was neither probed nor run
+ */
+function expectNoFfmpeg() {
+  expect(mockExecAsync).not.toHaveBeenCalled();
+  expect(mockRunFfmpeg).not.toHaveBeenCalled();
+}
+
 describe('format-converter', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -27,6 +107,10 @@ describe('format-converter', () => {
   });
 
   describe('detectFormat', () => {
+    afterEach(() => {
+      mockFs.readSync.mockReset();
+    });
+
     it('should detect mjpeg format', () => {
       expect(detectFormat('/path/to/video.mjpeg')).toBe('mjpeg');
       expect(detectFormat('/path/to/video.MJPEG')).toBe('mjpeg');
@@ -52,6 +136,33 @@ describe('format-converter', () => {
       expect(detectFormat('/path/to/image.PNG')).toBe('image');
     });
 
+    it('should detect wav as native audio format', () => {
+      expect(detectFormat('/path/to/audio.wav')).toBe('wav');
+      expect(detectFormat('/path/to/audio.WAV')).toBe('wav');
+    });
+
+    it('should detect audio formats', () => {
+      expect(detectFormat('/path/to/audio.mp3')).toBe('audio');
+      expect(detectFormat('/path/to/audio.ogg')).toBe('audio');
+      expect(detectFormat('/path/to/audio.m4a')).toBe('audio');
+      expect(detectFormat('/path/to/audio.aac')).toBe('audio');
+    });
+
+    it('should detect more video and image formats', () => {
+      expect(detectFormat('/path/to/recording.mkv')).toBe('video');
+      expect(detectFormat('/path/to/photo.webp')).toBe('image');
+      expect(detectFormat('/path/to/scan.tif')).toBe('image');
+      expect(detectFormat('/path/to/scan.TIFF')).toBe('image');
+      expect(detectFormat('/path/to/photo.heic')).toBe('image');
+      expect(detectFormat('/path/to/photo.heif')).toBe('image');
+      expect(detectFormat('/path/to/logo.svg')).toBe('image');
+    });
+
+    it('should detect image sequences', () => {
+      expect(detectFormat('/path/to/frames/frame_%04d.png')).toBe('sequence');
+      expect(detectFormat('/path/to/frames/%d.jpg')).toBe('sequence');
+    });
+
     it('should detect gif as video format', () => {
       expect(detectFormat('/path/to/image.gif')).toBe('video');
       expect(detectFormat('/path/to/image.GIF')).toBe('video');
@@ -62,6 +173,43 @@ describe('format-converter', () => {
       expect(detectFormat('/path/to/file.pdf')).toBe('unknown');
       expect(detectFormat('/path/to/file')).toBe('unknown');
     });
+
+    it('should detect formats from the file content before the extension', () => {
+      mockFileContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+      expect(detectFormat('/path/to/photo.jpg')).toBe('image');
+
+      mockFileContent(Buffer.from('YUV4MPEG2 W640 H480 F30:1'));
+      expect(detectFormat('/downloads/feed')).toBe('y4m');
+
+      mockFileContent(Buffer.from('RIFF\0\0\0\0WAVEfmt '));
+      expect(detectFormat('/downloads/audio.bin')).toBe('wav');
+    });
+
+    it('should detect audio in a generic MP4 container by its extension', () => {
+      // Android recorders and FFmpeg write .m4a files with the isom brand and no audio brand
+      mockFileContent(Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from('ftypisom'), Buffer.from([0, 0, 2, 0]), Buffer.from('isomiso2')]));
+      expect(detectFormat('/path/to/voice.m4a')).toBe('audio');
+      expect(detectFormat('/path/to/clip.mp4')).toBe('video');
+      expect(detectFormat('/downloads/recording')).toBe('video');
+    });
+
+    it('should detect JPEG content as MJPEG unless it is named as an image', () => {
+      mockFileContent(Buffer.from([0xff, 0xd8, 0xff, 0xe0]));
+
+      expect(detectFormat('/path/to/video.mjpg')).toBe('mjpeg');
+      expect(detectFormat('/downloads/feed')).toBe('mjpeg');
+      expect(detectFormat('/path/to/photo.jpeg')).toBe('image');
+    });
+
+    it('should detect .mjpg files by extension', () => {
+      expect(detectFormat('/path/to/video.mjpg')).toBe('mjpeg');
+    });
+
+    it('should report recognized but unsupported content as unknown', () => {
+      mockFileContent(Buffer.from('<!DOCTYPE html><html>'));
+
+      expect(detectFormat('/downloads/video.mp4')).toBe('unknown');
+    });
   });
 
   describe('requiresConversion', () => {
@@ -80,11 +228,47 @@ describe('format-converter', () => {
       expect(requiresConversion('/path/to/image.jpg')).toBe(true);
     });
 
+    it('should return true for image sequences', () => {
+      expect(requiresConversion('/path/to/frames/frame_%04d.png')).toBe(true);
+    });
+
+    it('should return true for audio formats', () => {
+      expect(requiresConversion('/path/to/audio.mp3')).toBe(true);
+      expect(requiresConversion('/path/to/audio.wav')).toBe(false);
+    });
+
+    it('should return true for test patterns', () => {
+      expect(requiresConversion({ pattern: 'bars' })).toBe(true);
+    });
+
+    it('should return true for native formats with transforms', () => {
+      expect(requiresConversion('/path/to/video.mjpeg', { mirror: true })).toBe(true);
+      expect(requiresConversion('/path/to/video.mjpeg', { rotate: 0 })).toBe(false);
+    });
+
     it('should return false for unknown formats', () => {
       expect(requiresConversion('/path/to/file.txt')).toBe(false);
     });
   });
 
+  describe('supportsNativeEngine', () => {
+    it('should leave degraded sources to FFmpeg', () => {
+      expect(supportsNativeEngine('/path/to/image.png', { degrade: 'far-away' })).toBe(false);
+      expect(supportsNativeEngine({ type: 'qr', data: 'ORDER-1' }, { blur: 1 })).toBe(false);
+      expect(supportsNativeEngine({ type: 'qr', data: 'ORDER-1' }, { blur: 0 })).toBe(true);
+    });
+
+    it('should only accept images the native engine decodes', () => {
+      expect(supportsNativeEngine('/path/to/image.png')).toBe(true);
+      expect(supportsNativeEngine('/path/to/image.jpg')).toBe(true);
+      expect(supportsNativeEngine('/path/to/photo.webp')).toBe(false);
+      expect(supportsNativeEngine('/path/to/photo.heic')).toBe(false);
+      expect(supportsNativeEngine('/path/to/logo.svg')).toBe(false);
+      expect(supportsNativeEngine('/path/to/video.mp4')).toBe(false);
+      expect(supportsNativeEngine('/path/to/frames/frame_%04d.png')).toBe(false);
+    });
+  });
+
   describe('FormatConverter', () => {
     let converter: FormatConverter;
 
@@ -99,6 +283,7 @@ describe('format-converter', () => {
       mockFs.existsSync.mockReturnValue(true);
       mockFs.mkdirSync.mockReturnValue(undefined);
       mockFs.statSync.mockReturnValue({ size: 1000 } as fs.Stats);
+      mockFs.createReadStream.mockImplementation(() => Readable.from([Buffer.alloc(1000)]) as unknown as fs.ReadStream);
       mockFs.openSync.mockReturnValue(1);
       mockFs.readSync.mockReturnValue(1000);
       mockFs.closeSync.mockReturnValue(undefined);
@@ -131,65 +316,97 @@ describe('format-converter', () => {
     });
 
     describe('getCachedPath', () => {
-      it('should return null if caching is disabled', () => {
+      it('should return null if caching is disabled', async () => {
         converter = new FormatConverter({
           videoDirectory: '/videos',
           cacheEnabled: false,
         });
 
-        const result = converter.getCachedPath('/path/to/video.mp4');
+        const result = await converter.getCachedPath('/path/to/video.mp4');
 
         expect(result).toBeNull();
       });
 
-      it('should return null if source file does not exist', () => {
+      it('should return null if source file does not exist', async () => {
         mockFs.existsSync.mockReturnValue(false);
 
-        const result = converter.getCachedPath('/path/to/video.mp4');
+        const result = await converter.getCachedPath('/path/to/video.mp4');
 
         expect(result).toBeNull();
       });
 
-      it('should return cached path if cache file exists', () => {
+      it('should return cached path if cache file exists', async () => {
         mockFs.existsSync.mockReturnValue(true);
 
-        const result = converter.getCachedPath('/path/to/video.mp4');
+        const result = await converter.getCachedPath('/path/to/video.mp4');
 
         expect(result).toContain('.cache');
         expect(result).toContain('.mjpeg');
       });
 
-      it('should return null if cache file does not exist', () => {
+      it('should return null if cache file does not exist', async () => {
         mockFs.existsSync.mockImplementation((filePath) => {
           // Source exists, cache does not
           return !String(filePath).includes('.cache');
         });
 
-        const result = converter.getCachedPath('/path/to/video.mp4');
+        const result = await converter.getCachedPath('/path/to/video.mp4');
 
         expect(result).toBeNull();
       });
     });
 
+    describe('isCached', () => {
+      it('should check rendered test patterns and codes in the cache directory', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => String(filePath).includes('pattern-'));
+
+        expect(await converter.isCached({ pattern: 'bars' })).toBe(true);
+        expect(await converter.isCached({ type: 'qr', data: 'hello' })).toBe(false);
+        expect(mockFs.existsSync).toHaveBeenCalledWith(expect.stringMatching(/\/videos\/\.cache\/pattern-[0-9a-f]{64}\.mjpeg$/));
+      });
+
+      it('should check converted files per variant', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('.cache'));
+
+        expect(await converter.isCached('/path/to/video.mp4', { mirror: true })).toBe(false);
+      });
+
+      it('should return false if caching is disabled', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', cacheEnabled: false });
+
+        expect(await converter.isCached({ pattern: 'bars' })).toBe(false);
+      });
+    });
+
     describe('convert', () => {
       it('should return original path for mjpeg files', async () => {
         const result = await converter.convert('/path/to/video.mjpeg');
 
         expect(result).toContain('video.mjpeg');
-        expect(mockExecAsync).not.toHaveBeenCalled();
+        expectNoFfmpeg();
       });
 
       it('should return original path for y4m files', async () => {
         const result = await converter.convert('/path/to/video.y4m');
 
         expect(result).toContain('video.y4m');
-        expect(mockExecAsync).not.toHaveBeenCalled();
+        expectNoFfmpeg();
       });
 
       it('should throw UnsupportedFormatError for unknown formats', async () => {
         await expect(converter.convert('/path/to/file.txt')).rejects.toThrow(UnsupportedFormatError);
       });
 
+      it('should report the extension and the detected content of unsupported files', async () => {
+        mockFileContent(Buffer.from('%PDF-1.7'));
+
+        await expect(converter.convert('/path/to/video.mp4')).rejects.toMatchObject({
+          extension: '.mp4',
+          detectedFormat: 'PDF document',
+          message: expect.stringContaining('(extension: .mp4, content: PDF document)'),
+        });
+      });
+
       it('should throw error if source file does not exist', async () => {
         mockFs.existsSync.mockReturnValue(false);
 
@@ -203,7 +420,7 @@ describe('format-converter', () => {
         const result = await converter.convert('/path/to/video.mp4');
 
         expect(result).toContain('.cache');
-        expect(mockExecAsync).not.toHaveBeenCalled();
+        expectOnlyVersionProbe();
       });
 
       it('should convert video file when not cached', async () => {
@@ -212,11 +429,11 @@ describe('format-converter', () => {
           return !String(filePath).includes('.cache');
         });
 
-        mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+        mockFfmpegVersion();
 
         const result = await converter.convert('/path/to/video.mp4');
 
-        expect(mockExecAsync).toHaveBeenCalledWith(
+        expect(ffmpegCommands()).toContainEqual(
           expect.stringContaining('-q:v 2'),
         );
         expect(result).toContain('.mjpeg');
@@ -227,26 +444,330 @@ describe('format-converter', () => {
           return !String(filePath).includes('.cache');
         });
 
-        mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+        // FFmpeg available (imageEngine 'auto' checks once)
+        mockFfmpegVersion();
 
         const result = await converter.convert('/path/to/image.png');
 
-        expect(mockExecAsync).toHaveBeenCalledWith(
+        expect(ffmpegCommands()).toContainEqual(
           expect.stringMatching(/-frames:v 1.*-pix_fmt yuvj420p.*-q:v 2/),
         );
         expect(result).toContain('.mjpeg');
       });
 
+      it('should return original path for wav files', async () => {
+        const result = await converter.convert('/path/to/audio.wav');
+
+        expect(result).toContain('audio.wav');
+        expectNoFfmpeg();
+      });
+
+      it('should convert audio file to WAV regardless of output format', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => {
+          return !String(filePath).includes('.cache');
+        });
+
+        mockFfmpegVersion();
+
+        const result = await converter.convert('/path/to/audio.mp3');
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringMatching(/-vn -acodec pcm_s16le -ar 48000 -ac 2 -f wav/),
+        );
+        expect(result).toContain('.cache');
+        expect(result).toMatch(/\.wav$/);
+      });
+
+      it('should apply transform filters and quality to video conversion', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => {
+          return !String(filePath).includes('.cache');
+        });
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/video.mp4', { width: 320, rotate: 90, fps: 15, quality: 50 });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringMatching(/-vf transpose=clock,scale=320:-2,fps=15,fps=30 -pix_fmt yuvj420p -f mjpeg -q:v 17/),
+        );
+      });
+
+      it('should cache transformed variants of the same source separately', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => {
+          return !String(filePath).includes('.cache');
+        });
+        mockFfmpegVersion();
+
+        const original = await converter.convert('/path/to/video.mp4');
+        const mirrored = await converter.convert('/path/to/video.mp4', { mirror: true });
+        const small = await converter.convert('/path/to/video.mp4', { width: 320 });
+
+        expect(new Set([original, mirrored, small]).size).toBe(3);
+      });
+
+      it('should re-encode native feeds when transforms are requested', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => {
+          return !String(filePath).includes('.cache');
+        });
+        mockFfmpegVersion();
+
+        const result = await converter.convert('/path/to/video.mjpeg', { mirror: true });
+
+        expect(ffmpegCommands()).toContainEqual(expect.stringContaining('-vf hflip'));
+        expect(result).toContain('.cache');
+      });
+
+      it('should name uncached transformed variants after the source', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', cacheEnabled: false });
+        mockFfmpegVersion();
+
+        const result = await converter.convert('/path/to/video.mp4', { mirror: true });
+
+        expect(result).toMatch(/\/path\/to\/video-[0-9a-f]{8}\.mjpeg$/);
+      });
+
+      it('should ignore transforms for audio', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => {
+          return !String(filePath).includes('.cache');
+        });
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/audio.mp3', { mirror: true });
+
+        expect(ffmpegCommands()).toContainEqual(expect.not.stringContaining('-vf'));
+      });
+
+      it('should trim the input and apply loop filters to video conversion', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => {
+          return !String(filePath).includes('.cache');
+        });
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/video.mp4', { startTime: 30, duration: 5, loop: 'pingpong' });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringMatching(/^ffmpeg -ss 30 -t 5 -i \/path\/to\/video\.mp4 -vf split\[forward\]\[backward\];\[backward\]reverse\[reversed\];\[forward\]\[reversed\]concat=n=2:v=1 /),
+        );
+      });
+
+      it('should ignore timing options for still images', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => {
+          return !String(filePath).includes('.cache');
+        });
+        mockFfmpegVersion();
+
+        const plain = await converter.convert('/path/to/image.png');
+        const timed = await converter.convert('/path/to/image.png', { startTime: 2, loop: 'pingpong', holdLastFrame: 1 });
+
+        expect(timed).toBe(plain);
+        expect(ffmpegCommands()).not.toContainEqual(expect.stringContaining('-ss'));
+      });
+
+      it('should reject unsupported code types before resolving a path', async () => {
+        await expect(converter.convert({ type: 'upc', data: '012345678905' } as never))
+          .rejects.toThrow('Unsupported code type "upc", expected one of qr, ean13, code128, datamatrix');
+        await expect(converter.isCached({ type: 'upc', data: '012345678905' } as never)).rejects.toThrow('Unsupported code type "upc"');
+      });
+
+      it('should reject unknown test patterns before resolving a path', async () => {
+        await expect(converter.convert({ pattern: 'gradient' } as never))
+          .rejects.toThrow('Unknown test pattern "gradient", expected one of solid, bars, checkerboard, noise');
+      });
+
+      it('should reject objects that are neither test patterns nor codes', async () => {
+        await expect(converter.convert({ file: 'qr.png' } as never))
+          .rejects.toThrow('Invalid camera source {"file":"qr.png"}, expected a file path, a test pattern { pattern } or a code { type, data }');
+      });
+
+      it('should reject invalid conversion options', async () => {
+        await expect(converter.convert('/path/to/video.mp4', { width: -1 })).rejects.toThrow('Invalid conversion option width');
+      });
+
+      it('should append transform filters to the test pattern graph', async () => {
+        mockFs.existsSync.mockReturnValue(false);
+        mockFfmpegVersion();
+
+        await converter.convert({ pattern: 'bars' }, { mirror: true });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('-i smptebars=s=640x480:r=30:d=1,hflip '),
+        );
+      });
+
+      it('should limit and hold test patterns', async () => {
+        mockFs.existsSync.mockReturnValue(false);
+        mockFfmpegVersion();
+
+        await converter.convert({ pattern: 'bars', duration: 10 }, { duration: 2, holdLastFrame: 1 });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('-f lavfi -t 2 -i smptebars=s=640x480:r=30:d=10,tpad=stop_mode=clone:stop_duration=1 '),
+        );
+      });
+
+      it('should repeat the frames of test patterns up to the 30 fps MJPEG plays at', async () => {
+        mockFs.existsSync.mockReturnValue(false);
+        mockFfmpegVersion();
+
+        await converter.convert({ pattern: 'bars', fps: 10, duration: 2 });
+
+        // 20 rendered frames become 60, so the 2 s pattern still lasts 2 s in Chrome
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('-i smptebars=s=640x480:r=10:d=2,fps=30 '),
+        );
+      });
+
+      it('should keep the frame rate of test patterns in Y4M output', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', outputFormat: 'y4m' });
+        mockFs.existsSync.mockReturnValue(false);
+        mockFfmpegVersion();
+
+        await converter.convert({ pattern: 'bars', fps: 10, duration: 2 });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('-i smptebars=s=640x480:r=10:d=2 '),
+        );
+      });
+
+      it('should render test patterns with lavfi into the cache directory', async () => {
+        mockFs.existsSync.mockReturnValue(false);
+        mockFfmpegVersion();
+
+        const result = await converter.convert({ pattern: 'solid', color: '#00ff00' });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('-f lavfi -i color=c=#00ff00:s=640x480:r=30:d=1 '),
+        );
+        expect(result).toMatch(/\.cache\/pattern-[0-9a-f]{64}\.mjpeg$/);
+        expect(mockFs.renameSync).toHaveBeenCalledWith(`${result}.tmp`, result);
+      });
+
+      it('should return cached test pattern without rendering', async () => {
+        mockFs.existsSync.mockReturnValue(true);
+
+        const result = await converter.convert({ pattern: 'bars' });
+
+        expect(result).toContain('pattern-');
+        expectOnlyVersionProbe();
+      });
+
+      it('should render test patterns to y4m when configured', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          outputFormat: 'y4m',
+        });
+        mockFs.existsSync.mockReturnValue(false);
+        mockFfmpegVersion();
+
+        const result = await converter.convert({ pattern: 'checkerboard' });
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('-pix_fmt yuv420p -f yuv4mpegpipe'),
+        );
+        expect(result).toMatch(/\.y4m$/);
+      });
+
+      it('should convert video to y4m when configured', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          outputFormat: 'y4m',
+        });
+        mockFs.existsSync.mockImplementation((filePath) => {
+          return !String(filePath).includes('.cache');
+        });
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/video.mp4');
+
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining('-f yuv4mpegpipe'),
+        );
+        expect(ffmpegCommands()).not.toContainEqual(
+          expect.stringContaining('-f mjpeg'),
+        );
+      });
+
+      it('should render a QR code through a temporary PNG into the cache directory', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => String(filePath).endsWith('.png'));
+        mockFs.writeFileSync.mockReturnValue(undefined);
+        // FFmpeg available (imageEngine 'auto' checks once)
+        mockFfmpegVersion();
+
+        const result = await converter.convert({ type: 'qr', data: 'hello', size: 300, margin: 20 });
+
+        expect(result).toMatch(/\.cache\/code-[0-9a-f]{64}\.mjpeg$/);
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(`${result}.png`, expect.any(Uint8Array));
+        expect(ffmpegCommands()).toContainEqual(
+          expect.stringContaining(`-i ${result}.png -frames:v 1 -vf scale=300:-2:flags=neighbor,pad=iw+40:ih+40:20:20:white `),
+        );
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith(`${result}.png`);
+      });
+
+      it('should return cached code without rendering', async () => {
+        mockFs.existsSync.mockReturnValue(true);
+
+        const result = await converter.convert({ type: 'code128', data: 'ABC' });
+
+        expect(result).toContain('code-');
+        expectOnlyVersionProbe();
+      });
+
+      it('should throw ConversionError when the code data is invalid', async () => {
+        mockFs.existsSync.mockReturnValue(false);
+
+        await expect(converter.convert({ type: 'ean13', data: 'abc' })).rejects.toThrow(ConversionError);
+        expectOnlyVersionProbe();
+      });
+
       it('should throw ConversionError when FFmpeg fails', async () => {
         mockFs.existsSync.mockImplementation((filePath) => {
           return !String(filePath).includes('.cache');
         });
 
-        const ffmpegError = new Error('FFmpeg error') as Error & { stderr?: string };
-        ffmpegError.stderr = 'Invalid input file';
-        mockExecAsync.mockRejectedValueOnce(ffmpegError);
+        mockFfmpegVersion();
+        mockRunFfmpeg.mockRejectedValueOnce(new FfmpegProcessError(1, null, 'Invalid data found when processing input'));
 
-        await expect(converter.convert('/path/to/video.mp4')).rejects.toThrow(ConversionError);
+        const conversion = converter.convert('/path/to/video.mp4');
+
+        await expect(conversion).rejects.toThrow(ConversionError);
+        await expect(conversion).rejects.toMatchObject({
+          sourceFile: '/path/to/video.mp4',
+          ffmpegOutput: 'Invalid data found when processing input',
+        });
+      });
+
+      it.each([
+        ['quotes', '/path/to/it\'s a "clip".mp4'],
+        ['shell syntax', '/path/to/$(touch pwned) `id` $HOME; rm -rf.mp4'],
+        ['spaces and unicode', '/path/to/caméra vidéo 测试 🎥.mp4'],
+      ])('should pass paths with %s to FFmpeg unchanged', async (_name, sourcePath) => {
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('.cache'));
+        mockFfmpegVersion();
+
+        const result = await converter.convert(sourcePath, { mirror: true });
+
+        const [executable, args] = mockRunFfmpeg.mock.calls[0] as [string, string[]];
+        expect(executable).toBe('ffmpeg');
+        expect(args.slice(0, 4)).toEqual(['-i', sourcePath, '-vf', 'hflip']);
+        expect(args.slice(-2)).toEqual(['-y', `${result}.tmp`]);
+      });
+
+      it('should pass a custom FFmpeg path with spaces as the executable', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', ffmpegPath: 'C:\\Program Files\\ffmpeg\\ffmpeg.exe' });
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('.cache'));
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/video.mp4');
+
+        expect(mockExecAsync).toHaveBeenCalledWith('C:\\Program Files\\ffmpeg\\ffmpeg.exe', ['-version'], expect.anything());
+        expect(mockRunFfmpeg).toHaveBeenCalledWith('C:\\Program Files\\ffmpeg\\ffmpeg.exe', expect.any(Array), expect.anything());
+      });
+
+      it('should report the exit code when FFmpeg fails without output', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('.cache'));
+        mockFfmpegVersion();
+        mockRunFfmpeg.mockRejectedValueOnce(new FfmpegProcessError(1, null, ''));
+
+        await expect(converter.convert('/path/to/video.mp4')).rejects.toMatchObject({ ffmpegOutput: 'FFmpeg exited with code 1' });
       });
 
       it('should clean up temp file on conversion error', async () => {
@@ -257,7 +778,8 @@ describe('format-converter', () => {
           return !String(filePath).includes('.cache');
         });
 
-        mockExecAsync.mockRejectedValueOnce(new Error('FFmpeg error'));
+        mockFfmpegVersion();
+        mockRunFfmpeg.mockRejectedValueOnce(new FfmpegProcessError(1, null, 'FFmpeg error'));
 
         await expect(converter.convert('/path/to/video.mp4')).rejects.toThrow();
         expect(mockFs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining('.tmp'));
@@ -268,7 +790,7 @@ describe('format-converter', () => {
           return !String(filePath).includes('.cache');
         });
 
-        mockExecAsync.mockResolvedValueOnce({ stdout: '', stderr: '' });
+        mockFfmpegVersion();
 
         await converter.convert('/path/to/video.mp4');
 
@@ -279,12 +801,754 @@ describe('format-converter', () => {
       });
     });
 
+    describe('cache keys', () => {
+      beforeEach(() => {
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('.cache'));
+      });
+
+      it('should hash the full file content', async () => {
+        // Same size and same first 64KB, different last chunk
+        const size = 3 * 1024 * 1024;
+        const chunk = 1024 * 1024;
+        mockFs.statSync.mockReturnValue({ size, mtimeMs: 1 } as fs.Stats);
+        mockFs.createReadStream.mockImplementation(((filePath: string) => Readable.from([
+          Buffer.alloc(chunk),
+          Buffer.alloc(chunk),
+          Buffer.alloc(chunk, filePath.includes('first') ? 1 : 2),
+        ])) as unknown as typeof fs.createReadStream);
+
+        mockFfmpegVersion();
+        const first = await converter.convert('/path/to/first.mp4');
+        const second = await converter.convert('/path/to/second.mp4');
+
+        expect(first).not.toBe(second);
+        expect(mockFs.createReadStream).toHaveBeenCalledTimes(2);
+        expect(mockFs.createReadStream).toHaveBeenCalledWith('/path/to/first.mp4', { highWaterMark: chunk });
+      });
+
+      it('should not read the file content synchronously', async () => {
+        mockFfmpegVersion();
+        await converter.getCachedPath('/path/to/video.mp4');
+
+        // Only format detection reads the first bytes
+        expect(mockFs.readSync.mock.calls.every(([, , , length]) => length === SNIFF_LENGTH)).toBe(true);
+      });
+
+      it('should not re-read unchanged files', async () => {
+        mockFfmpegVersion();
+        await converter.getCachedPath('/path/to/video.mp4');
+        await converter.getCachedPath('/path/to/video.mp4', { mirror: true });
+
+        expect(mockFs.createReadStream).toHaveBeenCalledTimes(1);
+      });
+
+      it('should change when the FFmpeg version changes', async () => {
+        mockFfmpegVersion('6.0');
+        const before = await converter.convert('/path/to/video.mp4');
+
+        converter = new FormatConverter({ videoDirectory: '/videos' });
+        mockFfmpegVersion('7.1');
+        const after = await converter.convert('/path/to/video.mp4');
+
+        expect(before).not.toBe(after);
+      });
+
+      it('should change with each combination of degradations', async () => {
+        mockFfmpegVersion();
+        const lowLight = await converter.convert('/path/to/image.png', { degrade: 'low-light' });
+        const farAway = await converter.convert('/path/to/image.png', { degrade: 'far-away' });
+        const noisier = await converter.convert('/path/to/image.png', { degrade: 'low-light', noise: 60 });
+
+        expect(new Set([lowLight, farAway, noisier]).size).toBe(3);
+        expect(await converter.convert('/path/to/image.png', { brightness: -0.25, contrast: 0.7, noise: 25 })).toBe(lowLight);
+      });
+
+      it('should change with the output format', async () => {
+        mockFfmpegVersion();
+        const mjpeg = await converter.convert({ pattern: 'bars' });
+
+        converter = new FormatConverter({ videoDirectory: '/videos', outputFormat: 'y4m' });
+        mockFfmpegVersion();
+        const y4m = await converter.convert({ pattern: 'bars' });
+
+        expect(path.basename(mjpeg, '.mjpeg')).not.toBe(path.basename(y4m, '.y4m'));
+      });
+
+      it('should change with the image engine', async () => {
+        const cacheLookup = () => mockFs.existsSync.mock.calls.map(([file]) => String(file)).find((file) => file.includes('.cache'));
+
+        converter = new FormatConverter({ videoDirectory: '/videos', imageEngine: 'native' });
+        await converter.getCachedPath('/path/to/image.png');
+        const native = cacheLookup();
+
+        mockFs.existsSync.mockClear();
+        converter = new FormatConverter({ videoDirectory: '/videos', imageEngine: 'ffmpeg' });
+        mockFfmpegVersion();
+        await converter.getCachedPath('/path/to/image.png');
+
+        expect(cacheLookup()).toMatch(/\.cache\/[0-9a-f]{64}\.mjpeg$/);
+        expect(cacheLookup()).not.toBe(native);
+      });
+
+      it('should record conversions in the manifest', async () => {
+        vi.useFakeTimers({ now: new Date('2026-01-02T03:04:05Z'), toFake: ['Date'] });
+        mockFs.readFileSync.mockImplementation(() => {
+          throw new Error('ENOENT');
+        });
+        mockFfmpegVersion();
+
+        const result = await converter.convert('/path/to/video.mp4');
+
+        const manifestWrite = mockFs.writeFileSync.mock.calls.find(([file]) => String(file).includes('manifest.json'));
+        const manifest = JSON.parse(String(manifestWrite?.[1]));
+        expect(manifest.entries[path.basename(result)]).toEqual({
+          source: '/path/to/video.mp4',
+          key: path.basename(result, '.mjpeg'),
+          size: 1000,
+          createdAt: '2026-01-02T03:04:05.000Z',
+          lastAccessedAt: '2026-01-02T03:04:05.000Z',
+          usedBy: [process.pid],
+        });
+        expect(mockFs.renameSync).toHaveBeenCalledWith(String(manifestWrite?.[0]), '/videos/.cache/manifest.json');
+        vi.useRealTimers();
+      });
+
+      it('should not write a manifest without caching', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', cacheEnabled: false });
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/video.mp4');
+
+        expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('timeouts, cancellation and progress', () => {
+      beforeEach(() => {
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('.cache'));
+      });
+
+      it('should kill FFmpeg and throw ConversionTimeoutError after conversionTimeout', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', conversionTimeout: 20 });
+        mockFfmpegVersion();
+        mockHangingFfmpeg();
+        mockLockToken();
+
+        const conversion = converter.convert('/path/to/video.mp4');
+
+        await expect(conversion).rejects.toThrow(ConversionTimeoutError);
+        await expect(conversion).rejects.toThrow('Converting /path/to/video.mp4 timed out after 20ms');
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith(expect.stringMatching(/\.mjpeg\.lock$/));
+      });
+
+      it('should kill FFmpeg when the signal aborts and reject with its reason', async () => {
+        const controller = new AbortController();
+        const reason = new Error('Test finished');
+        mockFfmpegVersion();
+        mockHangingFfmpeg();
+
+        const conversion = converter.convert('/path/to/video.mp4', {}, { signal: controller.signal });
+        await vi.waitFor(() => expect(mockRunFfmpeg).toHaveBeenCalledTimes(1));
+        controller.abort(reason);
+
+        await expect(conversion).rejects.toBe(reason);
+      });
+
+      it('should not start when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort(new Error('Cancelled'));
+
+        await expect(converter.convert('/path/to/video.mp4', {}, { signal: controller.signal })).rejects.toThrow('Cancelled');
+        expectNoFfmpeg();
+      });
+
+      it('should report progress from the -progress output', async () => {
+        const onProgress = vi.fn();
+        mockFfmpegVersion();
+        mockRunFfmpeg.mockImplementationOnce(async (_executable: string, _args: string[], options: FfmpegRunOptions) => {
+          options.onStderr?.('  Duration: 00:00:10.00, start: 0.000000\n');
+          options.onStdout?.('frame=30\nout_time_us=1000000\nspeed=2x\nprogress=continue\n');
+          options.onStdout?.('frame=120\nout_time_us=4000000\nspeed=2x\nprogress=end\n');
+        });
+
+        await converter.convert('/path/to/video.mp4', { duration: 4 }, { onProgress });
+
+        expect(ffmpegCommands()).toContainEqual(expect.stringMatching(/^ffmpeg -progress pipe:1 -nostats -t 4 -i /));
+        expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+          { source: '/path/to/video.mp4', frame: 30, outTimeMs: 1000, speed: 2, percent: 25, done: false },
+          { source: '/path/to/video.mp4', frame: 120, outTimeMs: 4000, speed: 2, percent: 100, done: true },
+        ]);
+      });
+
+      it('should not request progress output without a callback', async () => {
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/video.mp4');
+
+        expect(ffmpegCommands()).not.toContainEqual(expect.stringContaining('-progress'));
+      });
+    });
+
+    describe('concurrent conversions', () => {
+      it('should share one conversion between concurrent calls', async () => {
+        mockFs.existsSync.mockReturnValue(false);
+        mockFfmpegVersion();
+
+        const results = await Promise.all([
+          converter.convert({ pattern: 'bars' }),
+          converter.convert({ pattern: 'bars' }),
+        ]);
+
+        expect(results[0]).toBe(results[1]);
+        expect(mockRunFfmpeg).toHaveBeenCalledTimes(1);
+        expect(mockFs.renameSync.mock.calls.filter(([from]) => String(from).endsWith('.mjpeg.tmp'))).toHaveLength(1);
+      });
+
+      it('should convert again after a failed shared conversion', async () => {
+        mockFs.existsSync.mockReturnValue(false);
+        mockFfmpegVersion();
+        mockRunFfmpeg.mockRejectedValueOnce(new FfmpegProcessError(null, 'SIGSEGV', ''));
+
+        await expect(converter.convert({ pattern: 'bars' })).rejects.toThrow('FFmpeg was killed by SIGSEGV');
+        await converter.convert({ pattern: 'bars' });
+
+        expect(mockRunFfmpeg).toHaveBeenCalledTimes(2);
+      });
+
+      it('should hold a lock file next to the output while converting', async () => {
+        mockFs.existsSync.mockReturnValue(false);
+        mockFfmpegVersion();
+        mockLockToken();
+
+        const result = await converter.convert({ pattern: 'bars' });
+
+        expect(mockFs.openSync).toHaveBeenCalledWith(`${result}.lock`, 'wx');
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith(`${result}.lock`);
+      });
+
+      it('should reuse the output of another worker that held the lock', async () => {
+        let lockHeld = true;
+        mockFs.openSync.mockImplementation(((filePath: string) => {
+          if (String(filePath).endsWith('.lock') && lockHeld) {
+            lockHeld = false;
+            throw Object.assign(new Error('EEXIST'), { code: 'EEXIST' });
+          }
+          return 1;
+        }) as unknown as typeof fs.openSync);
+        mockFs.statSync.mockReturnValue({ size: 100, mtimeMs: Date.now() } as fs.Stats);
+        // The other worker's output appears after the first cache lookup
+        mockFs.existsSync.mockImplementation((filePath) => String(filePath).endsWith('.mjpeg') && !lockHeld);
+        mockFfmpegVersion();
+
+        const result = await converter.convert({ pattern: 'bars' });
+
+        expect(result).toMatch(/pattern-[0-9a-f]{64}\.mjpeg$/);
+        expectOnlyVersionProbe();
+        expect(converter.getCacheStats()).toMatchObject({ hits: 1, misses: 0 });
+      });
+    });
+
+    describe('cache management', () => {
+      const day = 24 * 60 * 60 * 1000;
+      const now = Date.parse('2026-03-01T00:00:00Z');
+      let files: Record<string, { size: number; mtimeMs: number }>;
+      let manifest: { version: 1; entries: Record<string, object> };
+
+      beforeEach(() => {
+        vi.useFakeTimers({ now, toFake: ['Date'] });
+        files = {
+          'a.mjpeg': { size: 400, mtimeMs: now - 3 * day },
+          'b.mjpeg': { size: 300, mtimeMs: now - 2 * day },
+          'c.mjpeg': { size: 200, mtimeMs: now - day },
+        };
+        manifest = { version: 1, entries: {} };
+        for (const [name, file] of Object.entries(files)) {
+          const accessed = new Date(file.mtimeMs).toISOString();
+          manifest.entries[name] = { source: `/src/${name}`, key: name, size: file.size, createdAt: accessed, lastAccessedAt: accessed };
+        }
+
+        mockFs.readdirSync.mockImplementation((() => [...Object.keys(files), 'manifest.json', 'd.mjpeg.tmp']) as unknown as typeof fs.readdirSync);
+        mockFs.statSync.mockImplementation(((filePath: string) => files[path.basename(filePath)] ?? { size: 1000, mtimeMs: now }) as unknown as typeof fs.statSync);
+        mockFs.readFileSync.mockImplementation(() => JSON.stringify(manifest));
+        mockFs.writeFileSync.mockImplementation((filePath, content) => {
+          if (String(filePath).includes('manifest.json')) {
+            manifest = JSON.parse(String(content));
+          }
+        });
+        mockFs.unlinkSync.mockImplementation((filePath) => {
+          delete files[path.basename(String(filePath))];
+        });
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should report cache stats', () => {
+        expect(converter.getCacheStats()).toEqual({ entries: 3, totalSize: 900, hits: 0, misses: 0, evictions: 0 });
+      });
+
+      it('should prune least recently used entries over cacheMaxSize', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', cacheMaxSize: 300 });
+
+        const result = await converter.pruneCache();
+
+        expect(result).toEqual({ removed: ['a.mjpeg', 'b.mjpeg'], freedBytes: 700 });
+        expect(Object.keys(manifest.entries)).toEqual(['c.mjpeg']);
+        expect(converter.getCacheStats()).toMatchObject({ entries: 1, evictions: 2 });
+      });
+
+      it('should evict entries while holding the manifest lock', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', cacheMaxSize: 300 });
+
+        await converter.pruneCache();
+
+        const lockCall = mockFs.openSync.mock.calls.findIndex(([filePath]) => String(filePath).endsWith('manifest.json.lock'));
+        const evictionCall = mockFs.unlinkSync.mock.calls.findIndex(([filePath]) => String(filePath).endsWith('a.mjpeg'));
+        expect(mockFs.openSync.mock.invocationCallOrder[lockCall]).toBeLessThan(mockFs.readFileSync.mock.invocationCallOrder[0]);
+        expect(mockFs.openSync.mock.invocationCallOrder[lockCall]).toBeLessThan(mockFs.unlinkSync.mock.invocationCallOrder[evictionCall]);
+      });
+
+      it('should prune entries unused for longer than cacheMaxAge', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', cacheMaxAge: 1.5 * day });
+
+        expect((await converter.pruneCache()).removed).toEqual(['a.mjpeg', 'b.mjpeg']);
+      });
+
+      it('should treat a cache hit as a recent use', async () => {
+        mockFfmpegVersion();
+        const hit = await converter.convert({ pattern: 'bars' });
+        files[path.basename(hit)] = { size: 100, mtimeMs: now - 10 * day };
+        manifest.entries[path.basename(hit)] = { source: 'bars', key: 'k', size: 100, createdAt: new Date(now - 10 * day).toISOString() };
+
+        await converter.convert({ pattern: 'bars' });
+
+        expect(manifest.entries[path.basename(hit)]).toMatchObject({ lastAccessedAt: new Date(now).toISOString() });
+      });
+
+      it('should convert again when another process evicts a cache hit before it is claimed', async () => {
+        const outputChecks: boolean[] = [true, false];
+        mockFs.existsSync.mockImplementation((filePath) => (
+          /pattern-[0-9a-f]{64}\.mjpeg$/.test(String(filePath)) ? outputChecks.shift() ?? false : !String(filePath).includes('.cache')
+        ));
+        mockFfmpegVersion();
+
+        await converter.convert({ pattern: 'bars' });
+
+        expect(mockRunFfmpeg).toHaveBeenCalledTimes(1);
+        expect(converter.getCacheStats()).toMatchObject({ hits: 0, misses: 1 });
+      });
+
+      it('should never evict entries used by the current run', async () => {
+        mockFs.existsSync.mockReturnValue(true);
+        mockFfmpegVersion();
+        const inUse = await converter.convert({ pattern: 'bars' });
+        files[path.basename(inUse)] = { size: 5000, mtimeMs: now - 10 * day };
+
+        const result = await converter.clearCache();
+
+        expect(result.removed).toEqual(['a.mjpeg', 'b.mjpeg', 'c.mjpeg']);
+        expect(files).toHaveProperty(path.basename(inUse));
+        expect(converter.getCacheStats()).toMatchObject({ hits: 1, entries: 1 });
+      });
+
+      it('should never evict entries used by another running process', async () => {
+        vi.spyOn(process, 'kill').mockImplementation((pid) => {
+          if (pid === 4242) {
+            return true;
+          }
+          throw Object.assign(new Error('kill ESRCH'), { code: 'ESRCH' });
+        });
+        // Pre-warmed by a launcher still running, and used by a worker that has exited
+        manifest.entries['a.mjpeg'] = { ...manifest.entries['a.mjpeg'], usedBy: [4242] };
+        manifest.entries['b.mjpeg'] = { ...manifest.entries['b.mjpeg'], usedBy: [4343] };
+
+        const result = await converter.clearCache();
+
+        expect(result.removed).toEqual(['b.mjpeg', 'c.mjpeg']);
+        expect(files).toHaveProperty('a.mjpeg');
+      });
+
+      it('should count in-memory sources toward the cache limits', async () => {
+        files['s.png'] = { size: 500, mtimeMs: now - 4 * day };
+        mockFs.readdirSync.mockImplementation(((directory: string) => (directory.endsWith('sources')
+          ? ['s.png', 's.png.123.tmp']
+          : ['a.mjpeg', 'b.mjpeg', 'c.mjpeg', 'manifest.json', 'sources'])) as unknown as typeof fs.readdirSync);
+        converter = new FormatConverter({ videoDirectory: '/videos', cacheMaxSize: 1000 });
+
+        expect(converter.getCacheStats()).toMatchObject({ entries: 4, totalSize: 1400 });
+        expect((await converter.pruneCache()).removed).toEqual([path.join('sources', 's.png')]);
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith('/videos/.cache/sources/s.png');
+      });
+
+      it('should count downloads toward the cache limits and delete their records with them', async () => {
+        files['d.png'] = { size: 500, mtimeMs: now - 4 * day };
+        mockFs.readdirSync.mockImplementation(((directory: string) => (directory.endsWith('downloads')
+          ? ['d.png', 'd.png.json', 'd.png.lock']
+          : ['a.mjpeg', 'b.mjpeg', 'c.mjpeg', 'manifest.json', 'downloads'])) as unknown as typeof fs.readdirSync);
+        converter = new FormatConverter({ videoDirectory: '/videos', cacheMaxSize: 1000 });
+
+        expect(converter.getCacheStats()).toMatchObject({ entries: 4, totalSize: 1400 });
+        expect((await converter.pruneCache()).removed).toEqual([path.join('downloads', 'd.png')]);
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith('/videos/.cache/downloads/d.png');
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith('/videos/.cache/downloads/d.png.json');
+      });
+
+      it('should keep tracked source files used by this converter', async () => {
+        files['s.png'] = { size: 500, mtimeMs: now - 4 * day };
+        mockFs.readdirSync.mockImplementation(((directory: string) => (directory.endsWith('sources')
+          ? ['s.png']
+          : ['a.mjpeg', 'sources'])) as unknown as typeof fs.readdirSync);
+
+        await converter.trackCacheFile('/videos/.cache/sources/s.png', 'in-memory png');
+
+        expect(manifest.entries[path.join('sources', 's.png')]).toMatchObject({ source: 'in-memory png', size: 500 });
+        expect((await converter.clearCache()).removed).toEqual(['a.mjpeg']);
+      });
+
+      it('should evict over cacheMaxSize after writing a conversion', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', cacheMaxSize: 1400 });
+        mockFs.existsSync.mockImplementation((filePath) => String(filePath) === '/videos/.cache');
+        mockFs.renameSync.mockImplementation((from, to) => {
+          if (!String(to).includes('manifest.json')) {
+            files[path.basename(String(to))] = { size: 1000, mtimeMs: now };
+          }
+        });
+        mockFfmpegVersion();
+
+        const result = await converter.convert({ pattern: 'bars' });
+
+        expect(Object.keys(files)).toEqual(['c.mjpeg', path.basename(result)]);
+        expect(converter.getCacheStats()).toMatchObject({ misses: 1, evictions: 2 });
+      });
+    });
+
+    describe('native image engine', () => {
+      const pngFile = PNG.sync.write(Object.assign(new PNG({ width: 2, height: 2 }), {
+        data: Buffer.alloc(16, 255),
+      }));
+
+      beforeEach(() => {
+        mockFs.existsSync.mockImplementation((filePath) => {
+          return !String(filePath).includes('.cache');
+        });
+        mockFs.readFileSync.mockReturnValue(pngFile);
+        mockFs.writeFileSync.mockReturnValue(undefined);
+      });
+
+      it('should convert images to y4m without FFmpeg when imageEngine is native', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          outputFormat: 'y4m',
+          imageEngine: 'native',
+        });
+
+        const result = await converter.convert('/path/to/image.png');
+
+        expectNoFfmpeg();
+        expect(result).toMatch(/\.y4m$/);
+        const written = mockFs.writeFileSync.mock.calls[0][1] as Uint8Array;
+        expect(Buffer.from(written).toString('latin1')).toMatch(/^YUV4MPEG2 W2 H2 /);
+        expect(mockFs.renameSync).toHaveBeenCalledWith(`${result}.tmp`, result);
+      });
+
+      it('should convert images to MJPEG without FFmpeg when imageEngine is native', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          imageEngine: 'native',
+        });
+
+        await converter.convert('/path/to/image.png');
+
+        const written = mockFs.writeFileSync.mock.calls[0][1] as Uint8Array;
+        expect(Array.from(written.subarray(0, 2))).toEqual([0xff, 0xd8]);
+      });
+
+      it('should fall back to the native engine when FFmpeg is missing in auto mode', async () => {
+        mockExecAsync.mockRejectedValueOnce(new Error('Command not found'));
+
+        await converter.convert('/path/to/image.png');
+        await converter.convert('/path/to/other.png');
+
+        // Only the availability check, performed once
+        expectOnlyVersionProbe();
+        const conversions = mockFs.writeFileSync.mock.calls.filter(([file]) => String(file).endsWith('.mjpeg.tmp'));
+        expect(conversions).toHaveLength(2);
+      });
+
+      it('should degrade images with FFmpeg, the native engine cannot', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          imageEngine: 'native',
+        });
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/image.png', { width: 640, degrade: 'shaky-hand', jpegArtifacts: 80 });
+
+        expect(mockFs.writeFileSync.mock.calls.filter(([file]) => String(file).endsWith('.mjpeg.tmp'))).toHaveLength(0);
+        expect(ffmpegCommands()).toEqual([
+          'ffmpeg -i /path/to/image.png -frames:v 1 -vf scale=640:-2,'
+          + 'perspective=x0=W*0.05:y0=0:x1=W-W*0.05:y1=0:x2=0:y2=H:x3=W:y3=H:sense=destination,dblur=angle=0:radius=12 '
+          + `-pix_fmt yuvj420p -f mjpeg -q:v 25 -y ${mockRunFfmpeg.mock.calls[0][1].at(-1)}`,
+        ]);
+      });
+
+      it('should convert images with FFmpeg when imageEngine is ffmpeg', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          imageEngine: 'ffmpeg',
+        });
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/image.png');
+
+        // Version probe for the cache key, then the conversion
+        expect(mockExecAsync).toHaveBeenCalledTimes(1);
+        expect(ffmpegCommands()).toEqual([expect.stringContaining('-frames:v 1')]);
+      });
+
+      it('should convert WebP, TIFF, HEIC and SVG images with FFmpeg', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          imageEngine: 'native',
+        });
+        mockFfmpegVersion();
+
+        for (const image of ['photo.webp', 'scan.tiff', 'photo.heic', 'logo.svg']) {
+          await converter.convert(`/path/to/${image}`);
+        }
+
+        const nativeConversions = mockFs.writeFileSync.mock.calls.filter(([file]) => String(file).endsWith('.mjpeg.tmp'));
+        expect(nativeConversions).toHaveLength(0);
+        expect(ffmpegCommands()).toEqual([
+          expect.stringContaining('-i /path/to/photo.webp -frames:v 1'),
+          expect.stringContaining('-i /path/to/scan.tiff -frames:v 1'),
+          expect.stringContaining('-i /path/to/photo.heic -frames:v 1'),
+          expect.stringContaining('-i /path/to/logo.svg -frames:v 1'),
+        ]);
+      });
+
+      it('should keep using FFmpeg for videos', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          imageEngine: 'native',
+        });
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/video.mp4');
+
+        expect(ffmpegCommands()).toContainEqual(expect.stringContaining('-q:v 2'));
+      });
+
+      it('should throw ConversionError for undecodable images', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          imageEngine: 'native',
+        });
+        mockFs.readFileSync.mockReturnValue(Buffer.from('not an image'));
+
+        await expect(converter.convert('/path/to/image.png')).rejects.toThrow(ConversionError);
+      });
+
+      it('should apply transforms and quality in the native engine', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          outputFormat: 'y4m',
+          imageEngine: 'native',
+        });
+
+        await converter.convert('/path/to/image.png', { width: 8, rotate: 90 });
+
+        const written = mockFs.writeFileSync.mock.calls[0][1] as Uint8Array;
+        expect(Buffer.from(written).toString('latin1')).toMatch(/^YUV4MPEG2 W8 H8 /);
+      });
+
+      it('should render codes without FFmpeg when imageEngine is native', async () => {
+        converter = new FormatConverter({
+          videoDirectory: '/videos',
+          outputFormat: 'y4m',
+          imageEngine: 'native',
+        });
+        mockFs.existsSync.mockReturnValue(false);
+
+        const result = await converter.convert({ type: 'qr', data: 'hello', size: 200, margin: 10 });
+
+        expectNoFfmpeg();
+        const written = mockFs.writeFileSync.mock.calls[0][1] as Uint8Array;
+        expect(Buffer.from(written.subarray(0, 32)).toString('latin1')).toMatch(/^YUV4MPEG2 W220 H220 /);
+        expect(result).toMatch(/code-[0-9a-f]{64}\.y4m$/);
+      });
+    });
+
+    describe('image sequences', () => {
+      beforeEach(() => {
+        // Sequence outputs are not cached yet, the concat list exists once written
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('sequence-') || String(filePath).endsWith('.ffconcat'));
+        mockFs.readdirSync.mockReturnValue(['frame_10.png', 'frame_9.png', 'notes.txt'] as unknown as ReturnType<typeof fs.readdirSync>);
+      });
+
+      it('should convert the frames of a pattern at the fps option', async () => {
+        mockFfmpegVersion();
+
+        const result = await converter.convert('/path/to/frames/frame_%d.png', { fps: 12 });
+
+        expect(result).toMatch(/\/videos\/\.cache\/sequence-[0-9a-f]{64}\.mjpeg$/);
+        expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+          `${result}.ffconcat`,
+          `ffconcat version 1.0\nfile '/path/to/frames/frame_9.png'\nduration ${1 / 12}\nfile '/path/to/frames/frame_10.png'\nduration ${1 / 12}\n`,
+        );
+        expect(ffmpegCommands()).toEqual([
+          `ffmpeg -f concat -safe 0 -i ${result}.ffconcat -vf fps=12,fps=30 -pix_fmt yuvj420p -f mjpeg -q:v 2 -y ${result}.tmp`,
+        ]);
+        expect(mockFs.renameSync).toHaveBeenCalledWith(`${result}.tmp`, result);
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith(`${result}.ffconcat`);
+      });
+
+      it('should repeat each image of an MJPEG sequence for 30 / fps frames', async () => {
+        mockFfmpegVersion();
+
+        const result = await converter.convert('/path/to/frames/frame_%d.png', { fps: 2 });
+
+        // Each image lasts 0.5 s, resampled to 30 fps: 2 images become 30 frames, 1 s in Chrome
+        expect(mockFs.writeFileSync.mock.calls[0][1]).toContain('duration 0.5\n');
+        expect(ffmpegCommands()).toEqual([expect.stringContaining(`-vf fps=2,fps=30 -pix_fmt yuvj420p -f mjpeg -q:v 2 -y ${result}.tmp`)]);
+      });
+
+      it('should write Y4M sequences at the fps option', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', outputFormat: 'y4m' });
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/frames/frame_%d.png', { fps: 2 });
+
+        expect(ffmpegCommands()).toEqual([expect.stringContaining('-vf fps=2 -pix_fmt yuv420p -f yuv4mpegpipe')]);
+      });
+
+      it('should use the images of a directory at 30 fps by default', async () => {
+        mockFs.statSync.mockReturnValue({ size: 1000, isDirectory: () => true } as fs.Stats);
+        mockFfmpegVersion();
+
+        await converter.convert('/path/to/frames');
+
+        expect(mockFs.writeFileSync.mock.calls[0][1]).toContain('file \'/path/to/frames/frame_9.png\'');
+        expect(mockFs.writeFileSync.mock.calls[0][1]).not.toContain('notes.txt');
+        expect(ffmpegCommands()).toEqual([expect.stringContaining('-vf fps=30')]);
+      });
+
+      it('should reuse a cached sequence', async () => {
+        mockFfmpegVersion();
+        const result = await converter.convert('/path/to/frames/frame_%d.png');
+        mockFs.existsSync.mockReturnValue(true);
+
+        expect(await converter.isCached('/path/to/frames/frame_%d.png')).toBe(true);
+        expect(await converter.convert('/path/to/frames/frame_%d.png')).toBe(result);
+        expect(mockRunFfmpeg).toHaveBeenCalledTimes(1);
+      });
+
+      it('should throw when no frames match', async () => {
+        mockFs.readdirSync.mockReturnValue([]);
+
+        await expect(converter.convert('/path/to/frames/frame_%04d.png')).rejects.toThrow(
+          'No frames found for image sequence: /path/to/frames/frame_%04d.png',
+        );
+        expectNoFfmpeg();
+      });
+    });
+
+    describe('timelines', () => {
+      beforeEach(() => {
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('.cache'));
+      });
+
+      it('should convert each segment at the timeline frame rate and size, then concatenate their frames', async () => {
+        mockFfmpegVersion();
+
+        const result = await converter.convertTimeline([
+          { source: '/path/to/blank.mjpeg', duration: 2000 },
+          { source: '/path/to/video.mp4', duration: 500, options: { mirror: true } },
+        ], { width: 640, height: 480 });
+
+        expect(result).toMatch(/\/videos\/\.cache\/timeline-[0-9a-f]{64}\.mjpeg$/);
+        // The MJPEG feed keeps its frames, the video is resampled to 30 fps
+        expect(ffmpegCommands()).toEqual([
+          expect.not.stringContaining('fps='),
+          expect.stringMatching(/-i \/path\/to\/video\.mp4 .*fps=30/),
+        ]);
+        expect(ffmpegCommands()[1]).toContain('hflip');
+        expect(mockWriteTimelineFeed).toHaveBeenCalledWith([
+          { feedPath: expect.stringMatching(/\.cache\/[0-9a-f]{64}\.mjpeg$/), frameCount: 60 },
+          { feedPath: expect.stringMatching(/\.cache\/[0-9a-f]{64}\.mjpeg$/), frameCount: 15 },
+        ], `${result}.tmp`, 'mjpeg', 30);
+        expect(mockFs.renameSync).toHaveBeenCalledWith(`${result}.tmp`, result);
+      });
+
+      it('should use native feeds in the output format as they are', async () => {
+        const result = await converter.convertTimeline([{ source: '/path/to/blank.mjpeg', duration: 100 }], { fps: 10 });
+
+        expectNoFfmpeg();
+        expect(mockWriteTimelineFeed).toHaveBeenCalledWith([{ feedPath: '/path/to/blank.mjpeg', frameCount: 3 }], `${result}.tmp`, 'mjpeg', 10);
+      });
+
+      it('should count MJPEG segment frames at 30 fps, whatever the timeline fps', async () => {
+        mockFfmpegVersion();
+
+        await converter.convertTimeline([{ source: '/path/to/video.mp4', duration: 2000 }], { fps: 10 });
+
+        // The segment is sampled at 10 fps and repeated up to 30 fps, 60 frames last 2 s in Chrome
+        expect(ffmpegCommands()).toEqual([expect.stringContaining('fps=10,fps=30')]);
+        expect(mockWriteTimelineFeed).toHaveBeenCalledWith([expect.objectContaining({ frameCount: 60 })], expect.any(String), 'mjpeg', 10);
+      });
+
+      it('should count Y4M segment frames at the timeline fps', async () => {
+        converter = new FormatConverter({ videoDirectory: '/videos', outputFormat: 'y4m' });
+        mockFfmpegVersion();
+
+        await converter.convertTimeline([{ source: '/path/to/video.mp4', duration: 2000 }], { fps: 10 });
+
+        expect(mockWriteTimelineFeed).toHaveBeenCalledWith([expect.objectContaining({ frameCount: 20 })], expect.any(String), 'y4m', 10);
+      });
+
+      it('should reuse a cached timeline', async () => {
+        const segments = [{ source: '/path/to/blank.mjpeg', duration: 1000 }];
+        const result = await converter.convertTimeline(segments);
+        mockFs.existsSync.mockReturnValue(true);
+
+        expect(await converter.convertTimeline(segments)).toBe(result);
+        expect(mockWriteTimelineFeed).toHaveBeenCalledTimes(1);
+      });
+
+      it('should key timelines on their frame counts and frame rate', async () => {
+        const segments = [{ source: '/path/to/blank.mjpeg', duration: 1000 }];
+
+        const result = await converter.convertTimeline(segments);
+
+        expect(await converter.convertTimeline([{ ...segments[0], duration: 2000 }])).not.toBe(result);
+        expect(await converter.convertTimeline(segments, { fps: 15 })).not.toBe(result);
+      });
+
+      it('should clean up and rethrow when the segments cannot be concatenated', async () => {
+        mockFs.existsSync.mockImplementation((filePath) => !String(filePath).includes('.cache') || String(filePath).endsWith('.tmp'));
+        mockWriteTimelineFeed.mockImplementationOnce(() => {
+          throw new Error('Timeline segment 2 is 8x2, the first segment is 4x2');
+        });
+
+        await expect(converter.convertTimeline([{ source: '/path/to/blank.mjpeg', duration: 1000 }]))
+          .rejects.toThrow('Timeline segment 2 is 8x2');
+        expect(mockFs.unlinkSync).toHaveBeenCalledWith(expect.stringMatching(/timeline-[0-9a-f]{64}\.mjpeg\.tmp$/));
+      });
+
+      it('should validate the timeline before converting any segment', async () => {
+        await expect(converter.convertTimeline([{ source: '/path/to/video.mp4', duration: -1 }]))
+          .rejects.toThrow('Invalid duration "-1" of timeline segment 1');
+        expectNoFfmpeg();
+      });
+    });
+
     describe('getOutputExtension', () => {
       it('should return .mjpeg for mjpeg output format', () => {
         expect(converter.getOutputExtension()).toBe('.mjpeg');
       });
 
-      it('should return .y4m for y4m output format', () => {
+      it('should return .y4m for y4m output format', async () => {
         converter = new FormatConverter({
           videoDirectory: '/videos',
           outputFormat: 'y4m',
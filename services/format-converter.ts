@@ -1,68 +1,252 @@
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
 import fs from 'node:fs';
 import path from 'node:path';
 import crypto from 'node:crypto';
-import { ConversionError, UnsupportedFormatError } from './errors.js';
+import { pipeline } from 'node:stream/promises';
+import { ConversionError, ConversionTimeoutError, UnsupportedFormatError } from './errors.js';
+import { checkFfmpegAvailability } from './ffmpeg-checker.js';
+import type { FfmpegAvailability } from './ffmpeg-checker.js';
+import { MANIFEST_FILE, claimManifestEntry, getEntriesInUse, readManifest, recordManifestEntry, updateManifest } from './cache-manifest.js';
+import type { CacheManifest } from './cache-manifest.js';
+import { selectEvictions } from './cache-eviction.js';
+import type { CacheEntryInfo, CacheLimits } from './cache-eviction.js';
+import { acquireFileLock } from './file-lock.js';
+import { DOWNLOADS_DIRECTORY, getDownloadRecordPath } from './remote-source.js';
+import { MEMORY_SOURCES_DIRECTORY } from './memory-source.js';
+import { createProgressParser, getOutputDuration, parseInputDuration, toConversionProgress } from './ffmpeg-progress.js';
+import type { ProgressCallback } from './ffmpeg-progress.js';
+import { FfmpegProcessError, runFfmpeg } from './ffmpeg-runner.js';
+import type { FfmpegRunOptions } from './ffmpeg-runner.js';
+import { sniffFileFormat } from './format-sniffer.js';
+import { DEFAULT_TIMELINE_FPS, getSegmentFrameCount, validateTimeline, writeTimelineFeed } from './camera-timeline.js';
+import type { TimelineFeed, TimelineOptions, TimelineSegment } from './camera-timeline.js';
+import { buildConcatList, isImageSequence, listSequenceFrames, withSequenceFps } from './image-sequence.js';
+import { applyTransforms, decodeImage, encodeMjpeg, encodeY4m, padImage, scaleNearest } from './native-image.js';
+import type { RgbaImage } from './native-image.js';
+import { buildTestPatternGraph, getTestPatternCacheKey, isTestPattern, normalizeTestPattern } from './test-pattern.js';
+import type { TestPatternDescriptor } from './test-pattern.js';
+import { buildCodeFilter, getCodeCacheKey, isCodeDescriptor, normalizeCode, renderCodePng } from './code-generator.js';
+import type { CodeDescriptor } from './code-generator.js';
+import { isGeneratedSource, validateGeneratedSource } from './camera-source.js';
+import type { CameraSource } from './camera-source.js';
+import {
+  buildInputArgs,
+  buildPlaybackRateFilters,
+  buildTransformFilters,
+  getOutputQscale,
+  MJPEG_PLAYBACK_FPS,
+  getVariantCacheKey,
+  hasConversionOptions,
+  validateConversionOptions,
+  withoutTimingOptions,
+} from './conversion-options.js';
+import type { ConversionOptions } from './conversion-options.js';
+import { hasDegradation } from './degradation.js';
 
-const execAsync = promisify(exec);
+/** Bumped when the cache key layout changes, so old entries are never reused */
+const CACHE_KEY_VERSION = 2;
 
-export type FormatType = 'mjpeg' | 'y4m' | 'video' | 'image' | 'unknown';
+/** Chunk size used to hash source files without loading them into memory */
+const HASH_CHUNK_SIZE = 1024 * 1024;
+
+/** Default age after which a conversion lock is considered abandoned by a crashed worker */
+const DEFAULT_LOCK_STALE_TIMEOUT = 60_000;
+
+/** Cache subdirectories of source files written by the service, their files are cache entries too */
+const SOURCE_DIRECTORIES = [DOWNLOADS_DIRECTORY, MEMORY_SOURCES_DIRECTORY];
+
+/** Stderr read while looking for the input duration, FFmpeg logs it before encoding */
+const MAX_STDERR_HEADER = 64 * 1024;
+
+export type FormatType = 'mjpeg' | 'y4m' | 'wav' | 'video' | 'image' | 'sequence' | 'audio' | 'unknown';
 
 const EXTENSION_TO_FORMAT: Record<string, FormatType> = {
   // Native formats
   '.mjpeg': 'mjpeg',
+  '.mjpg': 'mjpeg',
   '.y4m': 'y4m',
+  '.wav': 'wav',
   // Video formats (including GIF - FFmpeg treats GIFs as video streams)
   '.mp4': 'video',
   '.webm': 'video',
   '.avi': 'video',
   '.mov': 'video',
+  '.mkv': 'video',
   '.gif': 'video',
   // Image formats (static images only)
   '.png': 'image',
   '.jpg': 'image',
   '.jpeg': 'image',
   '.bmp': 'image',
+  '.webp': 'image',
+  '.tif': 'image',
+  '.tiff': 'image',
+  '.heic': 'image',
+  '.heif': 'image',
+  '.avif': 'image',
+  '.svg': 'image',
+  // Audio formats (converted to WAV for Chrome's fake audio capture)
+  '.mp3': 'audio',
+  '.ogg': 'audio',
+  '.m4a': 'audio',
+  '.aac': 'audio',
 };
 
+/** Images the native engine decodes, other images (WebP, TIFF, HEIC, SVG) always need FFmpeg */
+const NATIVE_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/bmp']);
+const NATIVE_IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.bmp']);
+
+/**
+ * Engine used to convert still images (and generated codes)
+ * - 'ffmpeg': always use FFmpeg
+ * - 'native': decode and encode in JavaScript, no FFmpeg needed
+ * - 'auto': FFmpeg when it is available, native otherwise
+ */
+export type ImageEngine = 'auto' | 'ffmpeg' | 'native';
+
 export interface FormatConverterOptions {
   videoDirectory: string;
   ffmpegPath?: string;
   cacheEnabled?: boolean;
   outputFormat?: 'mjpeg' | 'y4m';
+  imageEngine?: ImageEngine;
+  /** Maximum total size of the cache in bytes, least recently used entries are evicted first */
+  cacheMaxSize?: number;
+  /** Maximum time in milliseconds since a cache entry was last used */
+  cacheMaxAge?: number;
+  /** Time in milliseconds after which a conversion lock left by a crashed process is taken over */
+  lockStaleTimeout?: number;
+  /** Maximum time in milliseconds for one FFmpeg run, it is killed and ConversionTimeoutError thrown after that */
+  conversionTimeout?: number;
+  /** Called with the progress of every FFmpeg conversion */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Per-call controls of FormatConverter.convert
+ */
+export interface ConvertControl {
+  /**
+   * Kills the running FFmpeg conversion, convert then rejects with the signal's reason
+   * A conversion shared by concurrent calls follows the signal of the call that started it
+   */
+  signal?: AbortSignal;
+  /** Progress callback for this call, instead of the converter's onProgress */
+  onProgress?: ProgressCallback;
+}
+
+export interface CacheStats {
+  /** Files in the cache directory */
+  entries: number;
+  /** Total size of the cached files in bytes */
+  totalSize: number;
+  /** Cache hits of this converter */
+  hits: number;
+  /** Conversions written to the cache by this converter */
+  misses: number;
+  /** Entries deleted by this converter */
+  evictions: number;
+}
+
+export interface PruneResult {
+  /** File names deleted from the cache directory, relative to it ('sources/<hash>.png') */
+  removed: string[];
+  freedBytes: number;
 }
 
 /**
- * Detect the format type of a file based on its extension
+ * Detect the format type of a file from its content, falling back to its extension
+ * when the file cannot be read or its content is not recognized
  */
 export function detectFormat(filePath: string): FormatType {
-  const ext = path.extname(filePath).toLowerCase();
-  return EXTENSION_TO_FORMAT[ext] ?? 'unknown';
+  if (isImageSequence(filePath)) {
+    return 'sequence';
+  }
+  const extensionFormat = EXTENSION_TO_FORMAT[path.extname(filePath).toLowerCase()] ?? 'unknown';
+  const sniffed = sniffFileFormat(filePath);
+  if (!sniffed) {
+    return extensionFormat;
+  }
+  // A JPEG file is the start of an MJPEG stream unless it is named as a still image
+  if (sniffed.mimeType === 'image/jpeg' && extensionFormat !== 'image') {
+    return 'mjpeg';
+  }
+  // Audio recorders often write a generic MP4 brand without an audio one, the extension tells such files apart
+  if (sniffed.mimeType === 'video/mp4' && extensionFormat === 'audio') {
+    return 'audio';
+  }
+  return sniffed.format;
+}
+
+/**
+ * Check if an image file can be decoded by the native engine (PNG, JPEG or BMP)
+ */
+function isNativeImage(filePath: string): boolean {
+  const sniffed = sniffFileFormat(filePath);
+  return sniffed ? NATIVE_IMAGE_TYPES.has(sniffed.mimeType) : NATIVE_IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Check if a source requires conversion (not a native format, or a native format with transforms)
+ * Test patterns and codes are always rendered by FFmpeg
+ */
+export function requiresConversion(source: CameraSource, options?: ConversionOptions): boolean {
+  if (isGeneratedSource(source)) {
+    return true;
+  }
+  const format = detectFormat(source);
+  if (format === 'mjpeg' || format === 'y4m') {
+    return hasConversionOptions(options);
+  }
+  return format === 'video' || format === 'image' || format === 'sequence' || format === 'audio';
 }
 
 /**
- * Check if a file requires conversion (not a native format)
+ * Check if a source can be converted without FFmpeg by the native image engine
+ * Degradations are FFmpeg filters, sources with them always need FFmpeg
  */
-export function requiresConversion(filePath: string): boolean {
-  const format = detectFormat(filePath);
-  return format === 'video' || format === 'image';
+export function supportsNativeEngine(source: CameraSource, options?: ConversionOptions): boolean {
+  if (hasDegradation(options)) {
+    return false;
+  }
+  if (isCodeDescriptor(source)) {
+    return true;
+  }
+  return typeof source === 'string' && detectFormat(source) === 'image' && isNativeImage(source);
 }
 
 /**
- * FormatConverter handles converting various media formats to MJPEG
+ * FormatConverter handles converting various media formats to MJPEG (video) or WAV (audio)
  */
 export class FormatConverter {
+  private readonly videoDirectory: string;
   private readonly cacheDir: string;
   private readonly ffmpegPath: string;
   private readonly cacheEnabled: boolean;
   private readonly outputFormat: 'mjpeg' | 'y4m';
+  private readonly imageEngine: ImageEngine;
+  private ffmpegStatus: Promise<FfmpegAvailability> | undefined;
+  private readonly fileHashes = new Map<string, string>();
+  private readonly cacheLimits: CacheLimits;
+  /** Cache files used by this converter, never evicted while it runs */
+  private readonly inUse = new Set<string>();
+  private readonly stats = { hits: 0, misses: 0, evictions: 0 };
+  private readonly lockStaleTimeout: number;
+  /** Conversions running in this process by output path, shared by concurrent calls */
+  private readonly inFlight = new Map<string, Promise<string>>();
+  private readonly conversionTimeout: number | undefined;
+  private readonly onProgress: ProgressCallback | undefined;
 
   constructor(options: FormatConverterOptions) {
+    this.videoDirectory = options.videoDirectory;
     this.cacheDir = path.join(options.videoDirectory, '.cache');
     this.ffmpegPath = options.ffmpegPath ?? 'ffmpeg';
     this.cacheEnabled = options.cacheEnabled ?? true;
     this.outputFormat = options.outputFormat ?? 'mjpeg';
+    this.imageEngine = options.imageEngine ?? 'auto';
+    this.cacheLimits = { maxSize: options.cacheMaxSize, maxAge: options.cacheMaxAge };
+    this.lockStaleTimeout = options.lockStaleTimeout ?? DEFAULT_LOCK_STALE_TIMEOUT;
+    this.conversionTimeout = options.conversionTimeout;
+    this.onProgress = options.onProgress;
   }
 
   /**
@@ -75,37 +259,278 @@ export class FormatConverter {
   }
 
   /**
-   * Compute a hash for a file based on first 64KB + file size
+   * Check FFmpeg once per converter (availability and version)
+   */
+  private getFfmpegStatus(): Promise<FfmpegAvailability> {
+    this.ffmpegStatus ??= checkFfmpegAvailability(this.ffmpegPath);
+    return this.ffmpegStatus;
+  }
+
+  /**
+   * Compute a hash of the full file content, streamed in chunks
+   * Hashes are memoised by path, size and modification time
    */
-  private computeFileHash(filePath: string): string {
+  private async computeFileHash(filePath: string): Promise<string> {
     const stats = fs.statSync(filePath);
-    const fd = fs.openSync(filePath, 'r');
-    const bufferSize = Math.min(65536, stats.size); // 64KB or file size
-    const buffer = Buffer.alloc(bufferSize);
-    fs.readSync(fd, buffer, 0, bufferSize, 0);
-    fs.closeSync(fd);
+    const memoKey = `${filePath}:${stats.size}:${stats.mtimeMs}`;
+    const memoized = this.fileHashes.get(memoKey);
+    if (memoized) {
+      return memoized;
+    }
 
     const hash = crypto.createHash('sha256');
-    hash.update(buffer);
-    hash.update(stats.size.toString());
-    return hash.digest('hex');
+    await pipeline(fs.createReadStream(filePath, { highWaterMark: HASH_CHUNK_SIZE }), hash);
+
+    const digest = hash.digest('hex');
+    this.fileHashes.set(memoKey, digest);
+    return digest;
+  }
+
+  /**
+   * Identify what encodes the output, so upgrading FFmpeg or switching image engines invalidates the cache
+   */
+  private async getEncoderId(usesImageEngine: boolean, options: ConversionOptions): Promise<string> {
+    if (usesImageEngine && await this.useNativeImageEngine(options)) {
+      return 'native';
+    }
+    const { version } = await this.getFfmpegStatus();
+    return `ffmpeg-${version ?? 'unknown'}`;
+  }
+
+  /**
+   * Build a cache key from the source key, the effective conversion options, the output format and the encoder
+   */
+  private async buildCacheKey(
+    sourceKey: string,
+    options: ConversionOptions,
+    targetFormat: string,
+    usesImageEngine: boolean,
+  ): Promise<string> {
+    const encoder = await this.getEncoderId(usesImageEngine, options);
+    return crypto.createHash('sha256')
+      .update(JSON.stringify([CACHE_KEY_VERSION, getVariantCacheKey(sourceKey, options), targetFormat, encoder]))
+      .digest('hex');
+  }
+
+  /**
+   * Record a converted file in the cache manifest, then evict entries over the cache limits
+   */
+  private async recordCacheEntry(outputPath: string, source: CameraSource, key: string): Promise<void> {
+    if (!this.cacheEnabled) {
+      return;
+    }
+    await recordManifestEntry(this.cacheDir, outputPath, typeof source === 'string' ? source : JSON.stringify(source), key);
+    this.inUse.add(path.basename(outputPath));
+    this.stats.misses++;
+
+    if (this.cacheLimits.maxSize !== undefined || this.cacheLimits.maxAge !== undefined) {
+      await this.pruneCache();
+    }
+  }
+
+  /**
+   * Mark a cache hit as recently used (and in use by this run), undefined when the file is not in the cache
+   * The file is checked again under the manifest lock, so pruneCache in another process cannot evict it in between
+   */
+  private async reuseCacheEntry(cachedPath: string): Promise<string | undefined> {
+    if (!this.cacheEnabled || !fs.existsSync(cachedPath)) {
+      return undefined;
+    }
+    const fileName = path.basename(cachedPath);
+    if (!await claimManifestEntry(this.cacheDir, fileName)) {
+      return undefined;
+    }
+    this.inUse.add(fileName);
+    this.stats.hits++;
+    return cachedPath;
+  }
+
+  /**
+   * Track a source file the service wrote into a cache subdirectory (a download, an in-memory source),
+   * so it counts toward the cache limits and clearCache, and is not evicted while in use
+   */
+  async trackCacheFile(filePath: string, source: string): Promise<void> {
+    if (!this.cacheEnabled) {
+      return;
+    }
+    const fileName = path.relative(this.cacheDir, filePath);
+    await recordManifestEntry(this.cacheDir, filePath, source, fileName);
+    this.inUse.add(fileName);
+  }
+
+  /**
+   * Produce an output file once: concurrent calls in this process share one conversion,
+   * and a lock file next to the output makes other workers wait for it instead of converting again
+   */
+  private produceOnce(outputPath: string, produce: () => Promise<void>, signal?: AbortSignal): Promise<string> {
+    const pending = this.inFlight.get(outputPath);
+    if (pending) {
+      return pending;
+    }
+    const conversion = this.produceLocked(outputPath, produce, signal).finally(() => {
+      this.inFlight.delete(outputPath);
+    });
+    this.inFlight.set(outputPath, conversion);
+    return conversion;
+  }
+
+  private async produceLocked(outputPath: string, produce: () => Promise<void>, signal?: AbortSignal): Promise<string> {
+    const release = await acquireFileLock(`${outputPath}.lock`, { staleTimeout: this.lockStaleTimeout, signal });
+    try {
+      // Another worker may have converted it while this one waited for the lock
+      const cachedPath = await this.reuseCacheEntry(outputPath);
+      if (cachedPath) {
+        return cachedPath;
+      }
+      await produce();
+      return outputPath;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * List the files of the cache directory with their last use: converted files and the source files of SOURCE_DIRECTORIES
+   * Files missing from the manifest (e.g. written by an older version) fall back to their modification time
+   */
+  private listCacheEntries(manifest: CacheManifest = readManifest(this.cacheDir)): CacheEntryInfo[] {
+    if (!fs.existsSync(this.cacheDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.cacheDir)
+      .flatMap((fileName) => (SOURCE_DIRECTORIES.includes(fileName) ? this.listSourceFiles(fileName) : [fileName]))
+      .filter((fileName) => fileName !== MANIFEST_FILE)
+      // Temporary files, locks and the validators of downloads
+      .filter((fileName) => !/\.(tmp|lock|json)$/.test(fileName))
+      // Intermediate files of code and sequence conversions, not source files of those formats
+      .filter((fileName) => path.dirname(fileName) !== '.' || !/\.(png|ffconcat)$/.test(fileName))
+      .map((fileName) => {
+        const stats = fs.statSync(path.join(this.cacheDir, fileName));
+        const entry = manifest.entries[fileName];
+        const lastAccessedAt = entry ? Date.parse(entry.lastAccessedAt ?? entry.createdAt) : stats.mtimeMs;
+        return { fileName, size: stats.size, lastAccessedAt };
+      });
+  }
+
+  /**
+   * List the files of a cache subdirectory, relative to the cache directory
+   */
+  private listSourceFiles(directory: string): string[] {
+    return fs.readdirSync(path.join(this.cacheDir, directory)).map((fileName) => path.join(directory, fileName));
+  }
+
+  /**
+   * Delete cache entries over the limits (the configured ones by default), least recently used first
+   * Entries used by this converter or by another running process (the launcher, other workers) are kept
+   */
+  async pruneCache(limits: CacheLimits = this.cacheLimits): Promise<PruneResult> {
+    if (!fs.existsSync(this.cacheDir)) {
+      return { removed: [], freedBytes: 0 };
+    }
+
+    let result: PruneResult = { removed: [], freedBytes: 0 };
+    // Entries are chosen and deleted under the manifest lock, where cache hits claim them
+    await updateManifest(this.cacheDir, (manifest) => {
+      const entries = this.listCacheEntries(manifest);
+      const removed = selectEvictions(entries, limits, new Set([...this.inUse, ...getEntriesInUse(manifest)]));
+      let freedBytes = 0;
+
+      for (const fileName of removed) {
+        const filePath = path.join(this.cacheDir, fileName);
+        // A download is revalidated with the record next to it, which goes with the file
+        const deletedPaths = path.dirname(fileName) === DOWNLOADS_DIRECTORY ? [filePath, getDownloadRecordPath(filePath)] : [filePath];
+        for (const deletedPath of deletedPaths) {
+          try {
+            fs.unlinkSync(deletedPath);
+          } catch {
+            // Already deleted by another process
+          }
+        }
+        freedBytes += entries.find((entry) => entry.fileName === fileName)?.size ?? 0;
+        delete manifest.entries[fileName];
+      }
+
+      result = { removed, freedBytes };
+      return removed.length > 0;
+    });
+
+    this.stats.evictions += result.removed.length;
+    return result;
+  }
+
+  /**
+   * Delete every cache entry, except the ones in use (see pruneCache)
+   */
+  clearCache(): Promise<PruneResult> {
+    return this.pruneCache({ maxSize: 0 });
+  }
+
+  /**
+   * Size of the cache directory and hit/miss/eviction counters of this converter
+   */
+  getCacheStats(): CacheStats {
+    const entries = this.listCacheEntries();
+    return {
+      entries: entries.length,
+      totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+      ...this.stats,
+    };
+  }
+
+  /**
+   * Get the output format for a source format (audio is always converted to WAV)
+   */
+  private getTargetFormat(format: FormatType): string {
+    return format === 'audio' ? 'wav' : this.outputFormat;
+  }
+
+  /**
+   * Options that apply to a source format: none for audio, no timing for single-frame images
+   */
+  private getSourceOptions(format: FormatType, options: ConversionOptions | undefined): ConversionOptions {
+    if (format === 'audio' || !options) {
+      return {};
+    }
+    return format === 'image' ? withoutTimingOptions(options) : options;
+  }
+
+  /**
+   * Get the cache key of a converted source file
+   */
+  private async getCacheKey(absolutePath: string, format: FormatType, options: ConversionOptions | undefined): Promise<string> {
+    const hash = await this.computeFileHash(absolutePath);
+    const usesImageEngine = format === 'image' && isNativeImage(absolutePath);
+    return this.buildCacheKey(hash, this.getSourceOptions(format, options), this.getTargetFormat(format), usesImageEngine);
   }
 
   /**
    * Get the cached file path for a source file, or null if not cached
    */
-  getCachedPath(sourcePath: string): string | null {
+  async getCachedPath(sourcePath: string, options?: ConversionOptions): Promise<string | null> {
     if (!this.cacheEnabled) {
       return null;
     }
 
     const absolutePath = path.resolve(process.cwd(), sourcePath);
+    if (isImageSequence(absolutePath)) {
+      const frames = listSequenceFrames(absolutePath);
+      const outputPath = frames.length > 0 ? this.getRenderedPath('sequence', await this.getSequenceKey(frames, withSequenceFps(options))) : null;
+      return outputPath && fs.existsSync(outputPath) ? outputPath : null;
+    }
     if (!fs.existsSync(absolutePath)) {
       return null;
     }
 
-    const hash = this.computeFileHash(absolutePath);
-    const cachedFile = path.join(this.cacheDir, `${hash}.${this.outputFormat}`);
+    return this.findCacheEntry(absolutePath, detectFormat(absolutePath), options);
+  }
+
+  /**
+   * Get the cached file path for a source file of a known format, or null if not cached
+   */
+  private async findCacheEntry(absolutePath: string, format: FormatType, options: ConversionOptions | undefined): Promise<string | null> {
+    const key = await this.getCacheKey(absolutePath, format, options);
+    const cachedFile = path.join(this.cacheDir, `${key}.${this.getTargetFormat(format)}`);
 
     if (fs.existsSync(cachedFile)) {
       return cachedFile;
@@ -114,96 +539,497 @@ export class FormatConverter {
   }
 
   /**
-   * Convert a file to the target format
+   * Path of a rendered test pattern, code, sequence or timeline, in the cache directory (or the video directory without caching)
+   */
+  private getRenderedPath(kind: 'pattern' | 'code' | 'sequence' | 'timeline', key: string): string {
+    return path.join(this.cacheEnabled ? this.cacheDir : this.videoDirectory, `${kind}-${key}.${this.outputFormat}`);
+  }
+
+  /**
+   * Check if a source has already been converted (or rendered) with these options
+   */
+  async isCached(source: CameraSource, options: ConversionOptions = {}): Promise<boolean> {
+    if (!this.cacheEnabled) {
+      return false;
+    }
+    if (isGeneratedSource(source)) {
+      validateGeneratedSource(source);
+    }
+    if (isTestPattern(source)) {
+      return fs.existsSync(this.getRenderedPath('pattern', await this.getTestPatternKey(source, options)));
+    }
+    if (isCodeDescriptor(source)) {
+      return fs.existsSync(this.getRenderedPath('code', await this.getCodeKey(source, withoutTimingOptions(options))));
+    }
+    return (await this.getCachedPath(source, options)) !== null;
+  }
+
+  private getTestPatternKey(descriptor: TestPatternDescriptor, options: ConversionOptions): Promise<string> {
+    return this.buildCacheKey(getTestPatternCacheKey(descriptor), options, this.outputFormat, false);
+  }
+
+  private getCodeKey(descriptor: CodeDescriptor, options: ConversionOptions): Promise<string> {
+    return this.buildCacheKey(getCodeCacheKey(descriptor), options, this.outputFormat, true);
+  }
+
+  /**
+   * Cache key of an image sequence, from the content of its frames in order
+   */
+  private async getSequenceKey(frames: string[], options: ConversionOptions): Promise<string> {
+    const frameHashes: string[] = [];
+    for (const frame of frames) {
+      frameHashes.push(await this.computeFileHash(frame));
+    }
+    const hash = crypto.createHash('sha256').update(frameHashes.join(',')).digest('hex');
+    return this.buildCacheKey(hash, options, this.outputFormat, false);
+  }
+
+  /**
+   * Convert a file (or render a test pattern or code) to the target format, applying the transforms in options
    * Returns the path to the converted file (may be cached)
    */
-  async convert(sourcePath: string): Promise<string> {
-    const absolutePath = path.resolve(process.cwd(), sourcePath);
+  async convert(source: CameraSource, options: ConversionOptions = {}, control: ConvertControl = {}): Promise<string> {
+    validateConversionOptions(options);
+    control.signal?.throwIfAborted();
+    if (isGeneratedSource(source)) {
+      validateGeneratedSource(source);
+    }
+
+    if (isTestPattern(source)) {
+      return this.renderTestPattern(source, options, control);
+    }
+    if (isCodeDescriptor(source)) {
+      return this.renderCode(source, withoutTimingOptions(options), control);
+    }
 
+    const absolutePath = path.resolve(process.cwd(), source);
+
+    if (isImageSequence(absolutePath)) {
+      return this.convertSequence(absolutePath, withSequenceFps(options), control);
+    }
     if (!fs.existsSync(absolutePath)) {
       throw new Error(`Source file not found: ${absolutePath}`);
     }
 
     const format = detectFormat(absolutePath);
+    const sourceOptions = this.getSourceOptions(format, options);
 
-    // Native formats don't need conversion
-    if (format === 'mjpeg' || format === 'y4m') {
+    // Native formats don't need conversion (unless transformed)
+    if (format === 'wav' || ((format === 'mjpeg' || format === 'y4m') && !hasConversionOptions(sourceOptions))) {
       return absolutePath;
     }
 
     if (format === 'unknown') {
-      throw new UnsupportedFormatError(absolutePath, path.extname(absolutePath));
+      throw new UnsupportedFormatError(absolutePath, path.extname(absolutePath), sniffFileFormat(absolutePath)?.description);
     }
 
     // Check cache first
-    const cachedPath = this.getCachedPath(sourcePath);
+    const cachedPath = this.cacheEnabled ? await this.findCacheEntry(absolutePath, format, options) : null;
+    const reusedPath = cachedPath && await this.reuseCacheEntry(cachedPath);
+    if (reusedPath) {
+      return reusedPath;
+    }
+
+    // Generate output path (transformed variants of one source get distinct names)
+    const key = await this.getCacheKey(absolutePath, format, options);
+    const targetFormat = this.getTargetFormat(format);
+    const variantSuffix = hasConversionOptions(sourceOptions) ? `-${key.slice(0, 8)}` : '';
+    const outputPath = this.cacheEnabled
+      ? path.join(this.cacheDir, `${key}.${targetFormat}`)
+      : path.join(path.dirname(absolutePath), `${path.basename(absolutePath, path.extname(absolutePath))}${variantSuffix}.${targetFormat}`);
+
+    return this.produceOnce(outputPath, async () => {
+      // Use temp file for atomic write
+      const tempPath = `${outputPath}.tmp`;
+
+      try {
+        if (format === 'video' || format === 'mjpeg' || format === 'y4m') {
+          await this.convertVideo(absolutePath, tempPath, sourceOptions, control);
+        } else if (format === 'image') {
+          if (isNativeImage(absolutePath) && await this.useNativeImageEngine(sourceOptions)) {
+            this.convertImageNative(absolutePath, tempPath, sourceOptions);
+          } else {
+            await this.convertImage(absolutePath, tempPath, sourceOptions, control);
+          }
+        } else if (format === 'audio') {
+          await this.convertAudio(absolutePath, tempPath, control);
+        }
+
+        // Atomic rename
+        fs.renameSync(tempPath, outputPath);
+        await this.recordCacheEntry(outputPath, absolutePath, key);
+      } catch (error) {
+        // Clean up temp file on error
+        if (fs.existsSync(tempPath)) {
+          fs.unlinkSync(tempPath);
+        }
+        throw error;
+      }
+    }, control.signal);
+  }
+
+  /**
+   * Render a test pattern to the target format, keyed by the descriptor in the cache directory
+   */
+  private async renderTestPattern(descriptor: TestPatternDescriptor, options: ConversionOptions, control: ConvertControl): Promise<string> {
+    const key = await this.getTestPatternKey(descriptor, options);
+    const outputPath = this.getRenderedPath('pattern', key);
+
+    const cachedPath = await this.reuseCacheEntry(outputPath);
     if (cachedPath) {
       return cachedPath;
     }
 
-    // Generate output path
-    const hash = this.computeFileHash(absolutePath);
-    const outputPath = this.cacheEnabled
-      ? path.join(this.cacheDir, `${hash}.${this.outputFormat}`)
-      : path.join(path.dirname(absolutePath), `${path.basename(absolutePath, path.extname(absolutePath))}.${this.outputFormat}`);
+    return this.produceOnce(outputPath, async () => {
+      const tempPath = `${outputPath}.tmp`;
+      const graph = [
+        buildTestPatternGraph(descriptor),
+        ...buildPlaybackRateFilters(normalizeTestPattern(descriptor).fps, this.outputFormat),
+        ...buildTransformFilters(options, this.outputFormat),
+      ].join(',');
+      const args = ['-f', 'lavfi', ...buildInputArgs(options), '-i', graph, ...this.getOutputArgs(options), '-y', tempPath];
+      const inputDurationMs = normalizeTestPattern(descriptor).duration * 1000;
 
-    // Use temp file for atomic write
-    const tempPath = `${outputPath}.tmp`;
+      try {
+        await this.execFfmpeg(args, `${descriptor.pattern} test pattern`, control, options, inputDurationMs);
+        fs.renameSync(tempPath, outputPath);
+        await this.recordCacheEntry(outputPath, descriptor, key);
+      } catch (error) {
+        if (fs.existsSync(tempPath)) {
+          fs.unlinkSync(tempPath);
+        }
+        throw error;
+      }
+    }, control.signal);
+  }
 
-    try {
-      if (format === 'video') {
-        await this.convertVideo(absolutePath, tempPath);
-      } else if (format === 'image') {
-        await this.convertImage(absolutePath, tempPath);
+  /**
+   * Render a QR code/barcode to the target format, keyed by its content in the cache directory
+   * The symbol is rasterized in-process to a PNG, which FFmpeg scales, pads and encodes as a single frame
+   */
+  private async renderCode(descriptor: CodeDescriptor, options: ConversionOptions, control: ConvertControl): Promise<string> {
+    const key = await this.getCodeKey(descriptor, options);
+    const outputPath = this.getRenderedPath('code', key);
+
+    const cachedPath = await this.reuseCacheEntry(outputPath);
+    if (cachedPath) {
+      return cachedPath;
+    }
+
+    return this.produceOnce(outputPath, async () => {
+      const sourceDescription = `${descriptor.type} code "${descriptor.data}"`;
+      const tempPath = `${outputPath}.tmp`;
+      let png: Buffer;
+      try {
+        png = await renderCodePng(descriptor);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new ConversionError(sourceDescription, errorMessage);
       }
 
-      // Atomic rename
-      fs.renameSync(tempPath, outputPath);
-      return outputPath;
-    } catch (error) {
-      // Clean up temp file on error
-      if (fs.existsSync(tempPath)) {
-        fs.unlinkSync(tempPath);
+      if (await this.useNativeImageEngine(options)) {
+        const { size, margin } = normalizeCode(descriptor);
+        const symbol = decodeImage(png);
+        // Same as FFmpeg's scale=size:-2, height follows the aspect ratio rounded to an even number
+        const height = Math.max(2, Math.round((symbol.height * size) / symbol.width / 2) * 2);
+        const frame = applyTransforms(padImage(scaleNearest(symbol, size, height), margin), options);
+        fs.writeFileSync(tempPath, this.encodeNative(frame, options));
+        fs.renameSync(tempPath, outputPath);
+        await this.recordCacheEntry(outputPath, descriptor, key);
+        return;
+      }
+
+      const pngPath = `${outputPath}.png`;
+      const filters = [buildCodeFilter(descriptor), ...buildTransformFilters(options, this.outputFormat)].join(',');
+      const args = ['-i', pngPath, '-frames:v', '1', '-vf', filters, ...this.getOutputArgs(options), '-y', tempPath];
+
+      try {
+        fs.writeFileSync(pngPath, new Uint8Array(png));
+        await this.execFfmpeg(args, sourceDescription, control);
+        fs.renameSync(tempPath, outputPath);
+        await this.recordCacheEntry(outputPath, descriptor, key);
+      } catch (error) {
+        if (fs.existsSync(tempPath)) {
+          fs.unlinkSync(tempPath);
+        }
+        throw error;
+      } finally {
+        if (fs.existsSync(pngPath)) {
+          fs.unlinkSync(pngPath);
+        }
+      }
+    }, control.signal);
+  }
+
+  /**
+   * Convert an image sequence (frame pattern or directory) to the target format, showing each frame for 1/fps seconds
+   * The frames are listed in an FFmpeg concat file next to the output, keyed by their content in the cache directory
+   */
+  private async convertSequence(sourcePath: string, options: ConversionOptions, control: ConvertControl): Promise<string> {
+    const frames = listSequenceFrames(sourcePath);
+    if (frames.length === 0) {
+      throw new Error(`No frames found for image sequence: ${sourcePath}`);
+    }
+    const fps = options.fps as number;
+    const key = await this.getSequenceKey(frames, options);
+    const outputPath = this.getRenderedPath('sequence', key);
+
+    const cachedPath = await this.reuseCacheEntry(outputPath);
+    if (cachedPath) {
+      return cachedPath;
+    }
+
+    return this.produceOnce(outputPath, async () => {
+      const tempPath = `${outputPath}.tmp`;
+      const listPath = `${outputPath}.ffconcat`;
+      const args = [
+        ...buildInputArgs(options), '-f', 'concat', '-safe', '0', '-i', listPath,
+        ...this.getFilterArgs(options), ...this.getOutputArgs(options), '-y', tempPath,
+      ];
+
+      try {
+        fs.writeFileSync(listPath, buildConcatList(frames, fps));
+        await this.execFfmpeg(args, sourcePath, control, options, (frames.length / fps) * 1000);
+        fs.renameSync(tempPath, outputPath);
+        await this.recordCacheEntry(outputPath, sourcePath, key);
+      } catch (error) {
+        if (fs.existsSync(tempPath)) {
+          fs.unlinkSync(tempPath);
+        }
+        throw error;
+      } finally {
+        if (fs.existsSync(listPath)) {
+          fs.unlinkSync(listPath);
+        }
+      }
+    }, control.signal);
+  }
+
+  /**
+   * Concatenate timeline segments into one feed at a fixed frame rate, each source shown for its duration
+   * Segments are converted (and cached) on their own first, then their frames are copied in order
+   */
+  async convertTimeline(segments: TimelineSegment[], options: TimelineOptions = {}, control: ConvertControl = {}): Promise<string> {
+    validateTimeline(segments, options);
+    const fps = options.fps ?? DEFAULT_TIMELINE_FPS;
+    // Segments converted to MJPEG are resampled to the 30 fps Chrome plays them at, whatever the timeline fps
+    const frameRate = this.outputFormat === 'mjpeg' ? MJPEG_PLAYBACK_FPS : fps;
+
+    // One at a time, segments often share a source
+    const feeds: TimelineFeed[] = [];
+    for (const segment of segments) {
+      feeds.push({
+        feedPath: await this.convertTimelineSegment(segment, fps, options, control),
+        frameCount: getSegmentFrameCount(segment.duration, frameRate),
+      });
+    }
+
+    const feedHashes: [string, number][] = [];
+    for (const feed of feeds) {
+      feedHashes.push([await this.computeFileHash(feed.feedPath), feed.frameCount]);
+    }
+    const key = crypto.createHash('sha256')
+      .update(JSON.stringify([CACHE_KEY_VERSION, feedHashes, fps]))
+      .digest('hex');
+    const outputPath = this.getRenderedPath('timeline', key);
+
+    const cachedPath = await this.reuseCacheEntry(outputPath);
+    if (cachedPath) {
+      return cachedPath;
+    }
+
+    return this.produceOnce(outputPath, async () => {
+      const tempPath = `${outputPath}.tmp`;
+      try {
+        writeTimelineFeed(feeds, tempPath, this.outputFormat, fps);
+        fs.renameSync(tempPath, outputPath);
+        await this.recordCacheEntry(outputPath, `timeline of ${segments.length} segments`, key);
+      } catch (error) {
+        if (fs.existsSync(tempPath)) {
+          fs.unlinkSync(tempPath);
+        }
+        throw error;
       }
-      throw error;
+    }, control.signal);
+  }
+
+  /**
+   * Convert a timeline segment to the output format at the timeline frame size and frame rate
+   * Feeds already in the output format keep their frames, whatever frame rate they were made for
+   */
+  private convertTimelineSegment(segment: TimelineSegment, fps: number, size: TimelineOptions, control: ConvertControl): Promise<string> {
+    const options: ConversionOptions = { ...segment.options };
+    if (size.width !== undefined) {
+      options.width = size.width;
+    }
+    if (size.height !== undefined) {
+      options.height = size.height;
     }
+    const keepsFrames = typeof segment.source === 'string'
+      && detectFormat(path.resolve(process.cwd(), segment.source)) === this.outputFormat;
+    return this.convert(segment.source, keepsFrames ? options : { ...options, fps }, control);
   }
 
   /**
-   * Execute an FFmpeg command and throw ConversionError on failure
+   * Whether still images should be converted by the native engine, which cannot apply degradations
+   * In 'auto' mode FFmpeg availability is checked once per converter
    */
-  private async execFfmpeg(command: string, inputPath: string): Promise<void> {
+  private async useNativeImageEngine(options: ConversionOptions): Promise<boolean> {
+    if (hasDegradation(options)) {
+      return false;
+    }
+    if (this.imageEngine !== 'auto') {
+      return this.imageEngine === 'native';
+    }
+    return !(await this.getFfmpegStatus()).available;
+  }
+
+  /**
+   * Encode a decoded image in the output format without FFmpeg
+   */
+  private encodeNative(image: RgbaImage, options: ConversionOptions): Uint8Array {
+    return new Uint8Array(this.outputFormat === 'y4m' ? encodeY4m(image) : encodeMjpeg(image, options.quality));
+  }
+
+  /**
+   * Convert a PNG/JPEG/BMP image to the output format in JavaScript (single frame, Chrome loops it)
+   */
+  private convertImageNative(inputPath: string, outputPath: string, options: ConversionOptions): void {
+    let image: RgbaImage;
     try {
-      await execAsync(command);
+      image = decodeImage(fs.readFileSync(inputPath));
     } catch (error) {
-      const errorMessage = error instanceof Error
-        ? (error as Error & { stderr?: string }).stderr ?? error.message
-        : String(error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
       throw new ConversionError(inputPath, errorMessage);
     }
+    fs.writeFileSync(outputPath, this.encodeNative(applyTransforms(image, options), options));
+  }
+
+  /**
+   * FFmpeg output arguments for the configured output format
+   * MJPEG: -pix_fmt yuvj420p (JPEG-compatible, fixes green output from RGBA input), -q:v quality (2 high, 31 lowest)
+   * Y4M: -pix_fmt yuv420p (the C420 colour space Chrome reads)
+   * -f: explicitly specify output format (needed for temp files)
+   */
+  private getOutputArgs(options: ConversionOptions): string[] {
+    return this.outputFormat === 'y4m'
+      ? ['-pix_fmt', 'yuv420p', '-f', 'yuv4mpegpipe']
+      : ['-pix_fmt', 'yuvj420p', '-f', 'mjpeg', '-q:v', String(getOutputQscale(options))];
   }
 
   /**
-   * Convert a video file to MJPEG
-   * -pix_fmt yuvj420p: convert to JPEG-compatible pixel format
-   * -f mjpeg: explicitly specify output format (needed for temp files)
-   * -q:v 2 sets quality (2 is high quality, 31 is lowest)
+   * FFmpeg -vf argument for the transforms, empty if there are none
    */
-  private async convertVideo(inputPath: string, outputPath: string): Promise<void> {
-    const command = `"${this.ffmpegPath}" -i "${inputPath}" -pix_fmt yuvj420p -f mjpeg -q:v 2 -y "${outputPath}"`;
-    await this.execFfmpeg(command, inputPath);
+  private getFilterArgs(options: ConversionOptions): string[] {
+    const filters = buildTransformFilters(options, this.outputFormat);
+    return filters.length > 0 ? ['-vf', filters.join(',')] : [];
   }
 
   /**
-   * Convert an image to MJPEG (single frame, Chrome loops it)
+   * Run FFmpeg with the given arguments and throw ConversionError on failure
+   * The run is killed after conversionTimeout (ConversionTimeoutError) or when the signal aborts (its reason is thrown)
+   * With a progress callback, -progress output is reported while it runs. Percentages use the input duration,
+   * when known upfront or logged by FFmpeg, and the timing options
+   */
+  private async execFfmpeg(
+    args: string[],
+    inputPath: string,
+    control: ConvertControl,
+    options: ConversionOptions = {},
+    inputDurationMs?: number,
+  ): Promise<void> {
+    const { signal } = control;
+    const onProgress = control.onProgress ?? this.onProgress;
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', abort, { once: true });
+    let timedOut = false;
+    const timer = this.conversionTimeout === undefined ? undefined : setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.conversionTimeout);
+
+    try {
+      const progressArgs = onProgress ? ['-progress', 'pipe:1', '-nostats'] : [];
+      await runFfmpeg(this.ffmpegPath, [...progressArgs, ...args], {
+        signal: controller.signal,
+        ...(onProgress ? this.createProgressHandlers(inputPath, onProgress, options, inputDurationMs) : {}),
+      });
+    } catch (error) {
+      if (timedOut) {
+        throw new ConversionTimeoutError(inputPath, this.conversionTimeout as number);
+      }
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      const errorMessage = error instanceof FfmpegProcessError && error.stderr
+        ? error.stderr
+        : error instanceof Error ? error.message : String(error);
+      throw new ConversionError(inputPath, errorMessage);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Output handlers reporting the -progress blocks FFmpeg writes to stdout,
+   * reading the input duration from stderr when not given
+   */
+  private createProgressHandlers(
+    inputPath: string,
+    onProgress: ProgressCallback,
+    options: ConversionOptions,
+    inputDurationMs: number | undefined,
+  ): Pick<FfmpegRunOptions, 'onStdout' | 'onStderr'> {
+    let durationMs = inputDurationMs;
+    let stderrHead = '';
+    const parse = createProgressParser((values) => {
+      onProgress(toConversionProgress(inputPath, values, getOutputDuration(durationMs, options)));
+    });
+
+    return {
+      onStdout: parse,
+      onStderr: (chunk) => {
+        // The duration is logged before encoding starts, stop looking after the header
+        if (durationMs !== undefined || stderrHead.length > MAX_STDERR_HEADER) {
+          return;
+        }
+        stderrHead += chunk;
+        durationMs = parseInputDuration(stderrHead);
+      },
+    };
+  }
+
+  /**
+   * Convert a video file to the output format (see getOutputArgs)
+   */
+  private async convertVideo(inputPath: string, outputPath: string, options: ConversionOptions, control: ConvertControl): Promise<void> {
+    const args = [...buildInputArgs(options), '-i', inputPath, ...this.getFilterArgs(options), ...this.getOutputArgs(options), '-y', outputPath];
+    await this.execFfmpeg(args, inputPath, control, options);
+  }
+
+  /**
+   * Convert an image to the output format (single frame, Chrome loops it)
    * -frames:v 1: output single frame
-   * -pix_fmt yuvj420p: convert to JPEG-compatible pixel format (fixes green output from RGBA images)
-   * -f mjpeg: explicitly specify output format (needed for temp files)
-   * -q:v 2: quality
    */
-  private async convertImage(inputPath: string, outputPath: string): Promise<void> {
-    const command = `"${this.ffmpegPath}" -i "${inputPath}" -frames:v 1 -pix_fmt yuvj420p -f mjpeg -q:v 2 -y "${outputPath}"`;
-    await this.execFfmpeg(command, inputPath);
+  private async convertImage(inputPath: string, outputPath: string, options: ConversionOptions, control: ConvertControl): Promise<void> {
+    const args = ['-i', inputPath, '-frames:v', '1', ...this.getFilterArgs(options), ...this.getOutputArgs(options), '-y', outputPath];
+    await this.execFfmpeg(args, inputPath, control);
+  }
+
+  /**
+   * Convert an audio file to WAV for Chrome's fake audio capture
+   * -vn: drop any video stream (e.g. cover art embedded in MP3/M4A)
+   * -acodec pcm_s16le: 16-bit PCM, the only encoding Chrome's WAV reader accepts
+   * -ar 48000 -ac 2: 48kHz stereo, matching Chrome's default capture format
+   * -f wav: explicitly specify output format (needed for temp files)
+   */
+  private async convertAudio(inputPath: string, outputPath: string, control: ConvertControl): Promise<void> {
+    const args = ['-i', inputPath, '-vn', '-acodec', 'pcm_s16le', '-ar', '48000', '-ac', '2', '-f', 'wav', '-y', outputPath];
+    await this.execFfmpeg(args, inputPath, control);
   }
 
   /**
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { readFileHeader, sniffFileFormat, sniffFormat } from './format-sniffer.js';
+
+/**
+ * A header starting with these bytes, padded like the start of a real file
+ */
+function header(...parts: (string | number[])[]): Buffer {
+  const bytes = Buffer.concat(parts.map((part) => (typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part))));
+  return Buffer.concat([bytes, Buffer.alloc(64 - bytes.length)]);
+}
+
+describe('format-sniffer', () => {
+  describe('sniffFormat', () => {
+    it('should recognize images', () => {
+      expect(sniffFormat(header([0xff, 0xd8, 0xff, 0xe0]))).toMatchObject({ format: 'image', mimeType: 'image/jpeg' });
+      expect(sniffFormat(header([0x89], 'PNG\r\n\x1a\n'))).toMatchObject({ format: 'image', mimeType: 'image/png' });
+      expect(sniffFormat(header('BM', [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 40, 0, 0, 0]))).toMatchObject({ format: 'image', mimeType: 'image/bmp' });
+      expect(sniffFormat(header('RIFF', [0, 0, 0, 0], 'WEBPVP8 '))).toMatchObject({ format: 'image', mimeType: 'image/webp' });
+      expect(sniffFormat(header('II*', [0]))).toMatchObject({ format: 'image', mimeType: 'image/tiff' });
+      expect(sniffFormat(header('MM', [0], '*'))).toMatchObject({ format: 'image', mimeType: 'image/tiff' });
+    });
+
+    it('should recognize SVG images', () => {
+      expect(sniffFormat(header('<svg xmlns="http://www.w3.org/2000/svg">'))).toMatchObject({ format: 'image', mimeType: 'image/svg+xml' });
+      expect(sniffFormat(header('<?xml version="1.0"?>\n<svg width="10">'))).toMatchObject({ format: 'image', mimeType: 'image/svg+xml' });
+    });
+
+    it('should recognize GIFs as video', () => {
+      expect(sniffFormat(header('GIF89a'))).toMatchObject({ format: 'video', mimeType: 'image/gif' });
+      expect(sniffFormat(header('GIF87a'))).toMatchObject({ format: 'video', mimeType: 'image/gif' });
+    });
+
+    it('should recognize native formats', () => {
+      expect(sniffFormat(header('YUV4MPEG2 W640 H480'))).toMatchObject({ format: 'y4m' });
+      expect(sniffFormat(header('RIFF', [0, 0, 0, 0], 'WAVEfmt '))).toMatchObject({ format: 'wav' });
+    });
+
+    it('should recognize ISO-BMFF files by brand', () => {
+      expect(sniffFormat(header([0, 0, 0, 0x20], 'ftypisom'))).toMatchObject({ format: 'video', mimeType: 'video/mp4' });
+      expect(sniffFormat(header([0, 0, 0, 0x14], 'ftypqt  '))).toMatchObject({ format: 'video', mimeType: 'video/quicktime' });
+      expect(sniffFormat(header([0, 0, 0, 0x20], 'ftypM4A '))).toMatchObject({ format: 'audio', mimeType: 'audio/mp4' });
+      expect(sniffFormat(header([0, 0, 0, 0x1c], 'ftypmp42', [0, 0, 0, 0], 'M4A mp42isom'))).toMatchObject({ format: 'audio', mimeType: 'audio/mp4' });
+      expect(sniffFormat(header([0, 0, 0, 0x18], 'ftypisom', [0, 0, 2, 0], 'isomiso2'))).toMatchObject({ format: 'video', mimeType: 'video/mp4' });
+      expect(sniffFormat(header([0, 0, 0, 0x18], 'ftypheic'))).toMatchObject({ format: 'image', mimeType: 'image/heif' });
+      expect(sniffFormat(header([0, 0, 0, 0x1c], 'ftypavif'))).toMatchObject({ format: 'image', mimeType: 'image/avif' });
+    });
+
+    it('should recognize EBML and RIFF video', () => {
+      expect(sniffFormat(header([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84], 'webm'))).toMatchObject({ mimeType: 'video/webm' });
+      expect(sniffFormat(header([0x1a, 0x45, 0xdf, 0xa3, 0xa3, 0x42, 0x82, 0x88], 'matroska'))).toMatchObject({
+        format: 'video',
+        mimeType: 'video/x-matroska',
+      });
+      expect(sniffFormat(header('RIFF', [0, 0, 0, 0], 'AVI LIST'))).toMatchObject({ format: 'video', mimeType: 'video/x-msvideo' });
+    });
+
+    it('should recognize audio', () => {
+      expect(sniffFormat(header('ID3', [4, 0]))).toMatchObject({ format: 'audio', mimeType: 'audio/mpeg' });
+      expect(sniffFormat(header([0xff, 0xfb, 0x90]))).toMatchObject({ format: 'audio', mimeType: 'audio/mpeg' });
+      expect(sniffFormat(header([0xff, 0xf1, 0x50]))).toMatchObject({ format: 'audio', mimeType: 'audio/aac' });
+      expect(sniffFormat(header('OggS'))).toMatchObject({ format: 'audio', mimeType: 'audio/ogg' });
+    });
+
+    it('should describe recognized but unsupported content', () => {
+      expect(sniffFormat(header('%PDF-1.7'))).toEqual({ format: 'unknown', mimeType: 'application/pdf', description: 'PDF document' });
+      expect(sniffFormat(header('\n  <!DOCTYPE html>'))).toMatchObject({ format: 'unknown', mimeType: 'text/html' });
+      expect(sniffFormat(header('PK', [3, 4]))).toMatchObject({ format: 'unknown', mimeType: 'application/zip' });
+    });
+
+    it('should return undefined for unrecognized or empty content', () => {
+      expect(sniffFormat(header('hello world'))).toBeUndefined();
+      expect(sniffFormat(header('BMP is not a bitmap header'))).toBeUndefined();
+      expect(sniffFormat(Buffer.alloc(0))).toBeUndefined();
+    });
+  });
+
+  describe('sniffFileFormat', () => {
+    it('should read the start of a file', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'format-sniffer-'));
+      try {
+        const filePath = path.join(directory, 'download');
+        fs.writeFileSync(filePath, Buffer.concat([header('YUV4MPEG2 W2 H2 F30:1\nFRAME\n'), Buffer.alloc(1000)]));
+
+        expect(readFileHeader(filePath)).toHaveLength(64);
+        expect(sniffFileFormat(filePath)).toMatchObject({ format: 'y4m' });
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should return undefined for unreadable files', () => {
+      expect(readFileHeader('/nonexistent/file.mp4')).toBeUndefined();
+      expect(sniffFileFormat('/nonexistent/file.mp4')).toBeUndefined();
+    });
+  });
+});
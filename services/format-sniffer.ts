@@ -0,0 +1,173 @@
+import fs from 'node:fs';
+import type { FormatType } from './format-converter.js';
+
+/** Bytes read from the start of a file to recognize its content */
+export const SNIFF_LENGTH = 64;
+
+/**
+ * Format recognized from the first bytes of a file
+ */
+export interface SniffedFormat {
+  /** Format type the content is handled as, 'unknown' for recognized but unsupported content */
+  format: FormatType;
+  /** MIME type of the content */
+  mimeType: string;
+  /** Short human readable name, used in error messages */
+  description: string;
+}
+
+/** ISO-BMFF brands of audio-only files */
+const AUDIO_BRANDS = new Set(['M4A ', 'M4B ', 'M4P ', 'F4A ', 'F4B ']);
+
+/** ISO-BMFF brands of any MP4 file, audio-only or not */
+const GENERIC_BRANDS = new Set(['isom', 'iso2', 'iso3', 'iso4', 'iso5', 'iso6', 'mp41', 'mp42', 'dash']);
+
+/** ISO-BMFF brands of HEIF/AVIF still images */
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1', 'avif', 'avis']);
+
+/** BITMAPINFOHEADER variants, checked to avoid treating any text starting with "BM" as a bitmap */
+const BMP_HEADER_SIZES = new Set([12, 40, 52, 56, 64, 108, 124]);
+
+function hasBytes(header: Buffer, bytes: number[], offset = 0): boolean {
+  return header.length >= offset + bytes.length && bytes.every((byte, index) => header[offset + index] === byte);
+}
+
+function hasAscii(header: Buffer, text: string, offset = 0): boolean {
+  return header.toString('latin1', offset, offset + text.length) === text;
+}
+
+/**
+ * Compatible brands of the ftyp box, as far as they are in the header
+ */
+function readCompatibleBrands(header: Buffer): string[] {
+  const boxEnd = Math.min(header.readUInt32BE(0), header.length);
+  const brands: string[] = [];
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(header.toString('latin1', offset, offset + 4));
+  }
+  return brands;
+}
+
+function sniffIsoBmff(header: Buffer): SniffedFormat {
+  const brand = header.toString('latin1', 8, 12);
+  // Generic major brands (isom, mp42...) are used by audio files too, which then list an audio brand as compatible
+  if (AUDIO_BRANDS.has(brand) || (GENERIC_BRANDS.has(brand) && readCompatibleBrands(header).some((compatible) => AUDIO_BRANDS.has(compatible)))) {
+    return { format: 'audio', mimeType: 'audio/mp4', description: 'MPEG-4 audio' };
+  }
+  if (HEIF_BRANDS.has(brand)) {
+    return { format: 'image', mimeType: brand.startsWith('avi') ? 'image/avif' : 'image/heif', description: 'HEIF/AVIF image' };
+  }
+  if (brand === 'qt  ') {
+    return { format: 'video', mimeType: 'video/quicktime', description: 'QuickTime video' };
+  }
+  return { format: 'video', mimeType: 'video/mp4', description: 'MP4 video' };
+}
+
+function sniffRiff(header: Buffer): SniffedFormat | undefined {
+  const type = header.toString('latin1', 8, 12);
+  if (type === 'AVI ') {
+    return { format: 'video', mimeType: 'video/x-msvideo', description: 'AVI video' };
+  }
+  if (type === 'WAVE') {
+    return { format: 'wav', mimeType: 'audio/wav', description: 'WAV audio' };
+  }
+  if (type === 'WEBP') {
+    return { format: 'image', mimeType: 'image/webp', description: 'WebP image' };
+  }
+  return undefined;
+}
+
+/**
+ * Recognize a file's format from its first bytes (magic numbers)
+ * Returns undefined when the content is not recognized
+ */
+export function sniffFormat(header: Buffer): SniffedFormat | undefined {
+  if (hasBytes(header, [0xff, 0xd8, 0xff])) {
+    return { format: 'image', mimeType: 'image/jpeg', description: 'JPEG image' };
+  }
+  if (hasBytes(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { format: 'image', mimeType: 'image/png', description: 'PNG image' };
+  }
+  if (hasAscii(header, 'GIF87a') || hasAscii(header, 'GIF89a')) {
+    // FFmpeg treats GIFs as video streams
+    return { format: 'video', mimeType: 'image/gif', description: 'GIF animation' };
+  }
+  if (hasAscii(header, 'BM') && header.length >= 18 && BMP_HEADER_SIZES.has(header.readUInt32LE(14))) {
+    return { format: 'image', mimeType: 'image/bmp', description: 'BMP image' };
+  }
+  if (hasAscii(header, 'YUV4MPEG2')) {
+    return { format: 'y4m', mimeType: 'video/x-yuv4mpeg', description: 'Y4M video' };
+  }
+  if (hasAscii(header, 'ftyp', 4)) {
+    return sniffIsoBmff(header);
+  }
+  if (hasBytes(header, [0x1a, 0x45, 0xdf, 0xa3])) {
+    // The EBML header names the document type within its first bytes
+    return header.includes('webm', 0, 'latin1')
+      ? { format: 'video', mimeType: 'video/webm', description: 'WebM video' }
+      : { format: 'video', mimeType: 'video/x-matroska', description: 'Matroska video' };
+  }
+  if (hasAscii(header, 'RIFF')) {
+    return sniffRiff(header);
+  }
+  if (hasAscii(header, 'OggS')) {
+    return { format: 'audio', mimeType: 'audio/ogg', description: 'Ogg audio' };
+  }
+  if (hasAscii(header, 'fLaC')) {
+    return { format: 'audio', mimeType: 'audio/flac', description: 'FLAC audio' };
+  }
+  if (hasAscii(header, 'ID3')) {
+    return { format: 'audio', mimeType: 'audio/mpeg', description: 'MP3 audio' };
+  }
+  if (header.length >= 2 && header[0] === 0xff && (header[1] & 0xf6) === 0xf0) {
+    return { format: 'audio', mimeType: 'audio/aac', description: 'AAC audio' };
+  }
+  if (header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0) {
+    return { format: 'audio', mimeType: 'audio/mpeg', description: 'MP3 audio' };
+  }
+  if (hasAscii(header, 'II*\0') || hasAscii(header, 'MM\0*')) {
+    return { format: 'image', mimeType: 'image/tiff', description: 'TIFF image' };
+  }
+  if (hasAscii(header, '%PDF')) {
+    return { format: 'unknown', mimeType: 'application/pdf', description: 'PDF document' };
+  }
+  if (hasBytes(header, [0x50, 0x4b, 0x03, 0x04])) {
+    return { format: 'unknown', mimeType: 'application/zip', description: 'ZIP archive' };
+  }
+  const text = header.toString('utf8').trimStart().toLowerCase();
+  if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) {
+    return { format: 'image', mimeType: 'image/svg+xml', description: 'SVG image' };
+  }
+  // Typically an error page saved in place of a download
+  if (text.startsWith('<!doctype html') || text.startsWith('<html')) {
+    return { format: 'unknown', mimeType: 'text/html', description: 'HTML document' };
+  }
+  return undefined;
+}
+
+/**
+ * Read the first bytes of a file, or undefined when it cannot be read
+ */
+export function readFileHeader(filePath: string, length = SNIFF_LENGTH): Buffer | undefined {
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(filePath, 'r');
+    const header = Buffer.alloc(length);
+    const bytesRead = fs.readSync(fd, header, 0, length, 0);
+    return header.subarray(0, bytesRead);
+  } catch {
+    return undefined;
+  } finally {
+    if (fd !== undefined) {
+      fs.closeSync(fd);
+    }
+  }
+}
+
+/**
+ * Recognize a file's format from its content, undefined when it is unreadable or not recognized
+ */
+export function sniffFileFormat(filePath: string): SniffedFormat | undefined {
+  const header = readFileHeader(filePath);
+  return header ? sniffFormat(header) : undefined;
+}
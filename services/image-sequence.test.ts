@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { buildConcatList, isImageSequence, isSequencePattern, listSequenceFrames, withSequenceFps } from './image-sequence.js';
+
+describe('image-sequence', () => {
+  let directory: string;
+
+  const createFiles = (...fileNames: string[]) => {
+    for (const fileName of fileNames) {
+      fs.writeFileSync(path.join(directory, fileName), '');
+    }
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'camera-sequence-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('isImageSequence', () => {
+    it('should accept frame patterns and directories', () => {
+      expect(isSequencePattern('/frames/frame_%04d.png')).toBe(true);
+      expect(isImageSequence('/frames/%d.jpg')).toBe(true);
+      expect(isImageSequence(directory)).toBe(true);
+    });
+
+    it('should reject files and missing paths', () => {
+      createFiles('image.png');
+
+      expect(isImageSequence(path.join(directory, 'image.png'))).toBe(false);
+      expect(isImageSequence(path.join(directory, 'missing'))).toBe(false);
+      // A percent sign in a directory name is not a pattern
+      expect(isSequencePattern('/100%done/image.png')).toBe(false);
+    });
+  });
+
+  describe('listSequenceFrames', () => {
+    it('should list the files matching a pattern by frame number', () => {
+      createFiles('frame_0010.png', 'frame_0002.png', 'frame_12345.png', 'frame_2.png', 'frame_0003.jpg', 'other_0001.png');
+
+      expect(listSequenceFrames(path.join(directory, 'frame_%04d.png'))).toEqual([
+        path.join(directory, 'frame_0002.png'),
+        path.join(directory, 'frame_0010.png'),
+        path.join(directory, 'frame_12345.png'),
+      ]);
+    });
+
+    it('should match any number for %d', () => {
+      createFiles('10.png', '9.png', '0.png');
+
+      expect(listSequenceFrames(path.join(directory, '%d.png')).map((frame) => path.basename(frame))).toEqual(['0.png', '9.png', '10.png']);
+    });
+
+    it('should list the images of a directory in natural order', () => {
+      createFiles('shot10.png', 'shot2.JPG', 'shot1.webp', 'README.md');
+
+      expect(listSequenceFrames(directory).map((frame) => path.basename(frame))).toEqual(['shot1.webp', 'shot2.JPG', 'shot10.png']);
+    });
+
+    it('should return no frames for a pattern in a missing directory', () => {
+      expect(listSequenceFrames(path.join(directory, 'missing', 'frame_%d.png'))).toEqual([]);
+    });
+  });
+
+  describe('buildConcatList', () => {
+    it('should show each frame for 1/fps seconds, escaping quotes', () => {
+      expect(buildConcatList(['/frames/a.png', '/frames/it\'s.png'], 4)).toBe(
+        'ffconcat version 1.0\nfile \'/frames/a.png\'\nduration 0.25\nfile \'/frames/it\'\\\'\'s.png\'\nduration 0.25\n',
+      );
+    });
+  });
+
+  describe('withSequenceFps', () => {
+    it('should default the fps option', () => {
+      expect(withSequenceFps(undefined)).toEqual({ fps: 30 });
+      expect(withSequenceFps({ fps: 5, mirror: true })).toEqual({ fps: 5, mirror: true });
+    });
+  });
+});
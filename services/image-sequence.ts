@@ -0,0 +1,94 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ConversionOptions } from './conversion-options.js';
+
+/** Frame rate of an image sequence when the fps option is not set */
+export const DEFAULT_SEQUENCE_FPS = 30;
+
+/** Files of a directory used as frames, other files (e.g. a README) are skipped */
+const FRAME_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.bmp', '.webp', '.tif', '.tiff']);
+
+/** printf-style frame number, as in FFmpeg's image2 patterns: %d or %04d */
+const FRAME_NUMBER = /%(0\d+)?d/;
+
+/**
+ * Check if a source path is a frame pattern like `frames/frame_%04d.png`
+ */
+export function isSequencePattern(source: string): boolean {
+  return FRAME_NUMBER.test(path.basename(source));
+}
+
+/**
+ * Check if a source path is an image sequence: a frame pattern or a directory of images
+ */
+export function isImageSequence(source: string): boolean {
+  if (isSequencePattern(source)) {
+    return true;
+  }
+  try {
+    return fs.statSync(source).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * List the frames matching a pattern, ordered by frame number
+ * %04d matches numbers padded to at least 4 digits, %d any number
+ */
+function listPatternFrames(pattern: string): string[] {
+  const directory = path.dirname(pattern);
+  const basename = path.basename(pattern);
+  const match = FRAME_NUMBER.exec(basename) as RegExpExecArray;
+  const width = match[1] ? Number(match[1]) : 1;
+  const matcher = new RegExp(
+    `^${escapeRegExp(basename.slice(0, match.index))}(\\d{${width},})${escapeRegExp(basename.slice(match.index + match[0].length))}$`,
+  );
+
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+  return fs.readdirSync(directory)
+    .map((fileName) => ({ fileName, frame: matcher.exec(fileName) }))
+    .filter((entry): entry is { fileName: string; frame: RegExpExecArray } => entry.frame !== null)
+    .sort((a, b) => Number(a.frame[1]) - Number(b.frame[1]))
+    .map(({ fileName }) => path.join(directory, fileName));
+}
+
+/**
+ * List the frames of an image sequence in playback order: the files matching a frame pattern,
+ * or the images of a directory in natural name order (frame2 before frame10)
+ */
+export function listSequenceFrames(source: string): string[] {
+  if (isSequencePattern(source)) {
+    return listPatternFrames(source);
+  }
+  return fs.readdirSync(source)
+    .filter((fileName) => FRAME_EXTENSIONS.has(path.extname(fileName).toLowerCase()))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map((fileName) => path.join(source, fileName));
+}
+
+/**
+ * Options of an image sequence conversion, the fps option defaulting to DEFAULT_SEQUENCE_FPS
+ */
+export function withSequenceFps(options: ConversionOptions | undefined): ConversionOptions {
+  return { ...options, fps: options?.fps ?? DEFAULT_SEQUENCE_FPS };
+}
+
+/**
+ * Build an FFmpeg concat demuxer list showing each frame for 1/fps seconds
+ * (MJPEG output resamples the list to 30 fps, repeating each frame 30/fps times)
+ * Paths are single-quoted, quotes in them escaped as '\''
+ */
+export function buildConcatList(frames: string[], fps: number): string {
+  const lines = ['ffconcat version 1.0'];
+  for (const frame of frames) {
+    lines.push(`file '${frame.replace(/'/g, '\'\\\'\'')}'`, `duration ${1 / fps}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
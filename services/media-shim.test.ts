@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import jpeg from 'jpeg-js';
+import { decodeImage } from './native-image.js';
+import { createPreloadScript, extractMjpegFrames, splitMjpegFrames, SHIM_GLOBAL } from './media-shim.js';
+
+/**
+ * A JPEG of a size with noisy pixels, so its entropy-coded data holds stuffed FF 00 bytes
+ */
+function noisyJpeg(size: number): Buffer {
+  const data = Buffer.alloc(size * size * 4, 0xff).map((value, index) => (index % 4 === 3 ? value : (index * 7919) % 251));
+  return jpeg.encode({ width: size, height: size, data }, 95).data;
+}
+
+/**
+ * A camera photo: a 32x16 JPEG with an APP1 EXIF segment embedding an 8x8 JPEG thumbnail
+ * (the IFDs pointing at the thumbnail are left out, decoders skip the segment anyway)
+ */
+function photoWithThumbnail(): Buffer {
+  const photo = jpeg.encode({ width: 32, height: 16, data: Buffer.alloc(32 * 16 * 4, 0x80) }, 90).data;
+  const exif = Buffer.concat([Buffer.from('Exif\0\0II*\0\x08\0\0\0', 'latin1'), noisyJpeg(8)]);
+  const app1 = Buffer.concat([Buffer.from([0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff]), exif]);
+  return Buffer.concat([photo.subarray(0, 2), app1, photo.subarray(2)]);
+}
+
+describe('media-shim', () => {
+  /** A JPEG frame: SOI, an APP0 segment holding the payload, EOI */
+  const frame = (payload: number[]) => Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 2 + payload.length, ...payload, 0xff, 0xd9]);
+
+  describe('extractMjpegFrames', () => {
+    it('should split concatenated JPEG frames', () => {
+      const first = frame([0x01]);
+      const second = frame([0x02, 0x03]);
+
+      const frames = extractMjpegFrames(Buffer.concat([first, second]));
+
+      expect(frames).toEqual([first.toString('base64'), second.toString('base64')]);
+    });
+
+    it('should skip bytes between frames', () => {
+      const first = frame([0x01]);
+
+      const frames = extractMjpegFrames(Buffer.concat([Buffer.from([0x00, 0x00]), first, Buffer.from([0x00])]));
+
+      expect(frames).toEqual([first.toString('base64')]);
+    });
+
+    it('should ignore a truncated trailing frame', () => {
+      const first = frame([0x01]);
+      const truncated = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x05]);
+
+      const frames = extractMjpegFrames(Buffer.concat([first, truncated]));
+
+      expect(frames).toHaveLength(1);
+    });
+
+    it('should return an empty array for non-JPEG data', () => {
+      expect(extractMjpegFrames(Buffer.from('not a jpeg'))).toEqual([]);
+    });
+  });
+
+  describe('splitMjpegFrames', () => {
+    it('should return the JPEG frames as buffers', () => {
+      const first = frame([0x01]);
+      const second = frame([0x02, 0x03]);
+
+      expect(splitMjpegFrames(Buffer.concat([first, Buffer.from([0x00]), second]))).toEqual([first, second]);
+    });
+
+    it('should keep an embedded EXIF thumbnail within its frame', () => {
+      const photo = photoWithThumbnail();
+
+      const frames = splitMjpegFrames(Buffer.concat([photo, photo]));
+
+      expect(frames).toEqual([photo, photo]);
+      expect(decodeImage(frames[0])).toMatchObject({ width: 32, height: 16 });
+    });
+
+    it('should skip stuffed bytes in the image data', () => {
+      const image = noisyJpeg(16);
+      expect(image.includes(Buffer.from([0xff, 0x00]))).toBe(true);
+
+      expect(splitMjpegFrames(Buffer.concat([image, image]))).toEqual([image, image]);
+    });
+
+    it('should skip restart markers in the image data', () => {
+      // SOI, SOS header, data with an RST0 marker and a stuffed FF byte, EOI
+      const image = Buffer.from([0xff, 0xd8, 0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00, 0x12, 0xff, 0xd0, 0x13, 0xff, 0x00, 0xff, 0xd9]);
+
+      expect(splitMjpegFrames(Buffer.concat([image, image]))).toEqual([image, image]);
+    });
+  });
+
+  describe('createPreloadScript', () => {
+    it('should produce a function declaration embedding the feed', () => {
+      const script = createPreloadScript({ frames: ['AAAA'], fps: 15 });
+
+      expect(script.startsWith('() => {')).toBe(true);
+      expect(script).toContain('{"frames":["AAAA"],"fps":15}');
+      expect(script).toContain(JSON.stringify(SHIM_GLOBAL));
+    });
+
+    it('should produce syntactically valid JavaScript', () => {
+      const script = createPreloadScript({ frames: ['AAAA'], fps: 15 });
+
+      expect(() => new Function(`return (${script})`)).not.toThrow();
+    });
+  });
+});
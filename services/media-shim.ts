@@ -0,0 +1,203 @@
+/**
+ * Frame rate used by the getUserMedia shim when playing back an MJPEG feed
+ */
+export const DEFAULT_SHIM_FRAME_RATE = 30;
+
+/**
+ * Largest MJPEG feed played by the getUserMedia shim, in bytes
+ * Its frames are embedded as base64 in the preload script that runs on every page load
+ */
+export const MAX_SHIM_FEED_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Name of the page-global object exposed by the shim to swap feeds at runtime
+ */
+export const SHIM_GLOBAL = '__wdioCameraShim';
+
+export interface ShimFeed {
+  /** Base64-encoded JPEG frames */
+  frames: string[];
+  fps: number;
+}
+
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+const JPEG_EOI = 0xd9;
+const JPEG_SOS = 0xda;
+
+/**
+ * Check if a marker stands alone, without a length field (TEM and the RST0-RST7 restart markers)
+ */
+function isStandaloneMarker(marker: number): boolean {
+  return marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7);
+}
+
+/**
+ * Skip the entropy-coded data after a scan header, up to the next marker
+ * 0xFF bytes of the data are stuffed as FF 00, restart markers (FF D0-D7) sit inside the data
+ */
+function skipEntropyCodedData(data: Buffer, offset: number): number {
+  let position = data.indexOf(0xff, offset);
+  while (position !== -1 && position + 1 < data.length) {
+    const next = data[position + 1];
+    if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) {
+      return position;
+    }
+    position = data.indexOf(0xff, position + 2);
+  }
+  return data.length;
+}
+
+/**
+ * Find the end of the JPEG image starting at an SOI marker, or -1 when it is truncated or malformed
+ * The marker segments are skipped by their length, so the EOI of an embedded EXIF thumbnail
+ * (inside the APP1 segment) does not end the frame
+ */
+function findJpegEnd(data: Buffer, start: number): number {
+  let offset = start + 2;
+  while (offset + 2 <= data.length) {
+    if (data[offset] !== 0xff) {
+      return -1;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset++;
+    } else if (marker === JPEG_EOI) {
+      return offset + 2;
+    } else if (isStandaloneMarker(marker)) {
+      offset += 2;
+    } else {
+      if (offset + 4 > data.length) {
+        return -1;
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+      if (marker === JPEG_SOS) {
+        offset = skipEntropyCodedData(data, offset);
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split an MJPEG stream (concatenated JPEG images) into its JPEG frames
+ * Each frame starts at an SOI marker (FF D8 FF) and ends at its EOI marker (FF D9), found by walking
+ * its marker segments. Bytes between frames are skipped, the split stops at a truncated frame
+ */
+export function splitMjpegFrames(data: Buffer): Buffer[] {
+  const frames: Buffer[] = [];
+  let offset = 0;
+
+  while (offset < data.length - 3) {
+    const start = data.indexOf(JPEG_SOI, offset);
+    if (start === -1) {
+      break;
+    }
+
+    const end = findJpegEnd(data, start);
+    if (end === -1) {
+      break;
+    }
+
+    frames.push(data.subarray(start, end));
+    offset = end;
+  }
+
+  return frames;
+}
+
+/**
+ * Split an MJPEG stream into base64-encoded frames
+ */
+export function extractMjpegFrames(data: Buffer): string[] {
+  return splitMjpegFrames(data).map((frame) => frame.toString('base64'));
+}
+
+/**
+ * Runs inside the page: replaces navigator.mediaDevices.getUserMedia with a canvas-backed
+ * MediaStream that plays the given JPEG frames in a loop.
+ * Must stay self-contained, it is serialized with Function.prototype.toString().
+ */
+function installCameraShim(initialFeed: ShimFeed, globalName: string): void {
+  const mediaDevices = navigator.mediaDevices;
+  if (!mediaDevices || (window as unknown as Record<string, unknown>)[globalName]) {
+    return;
+  }
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  let images: HTMLImageElement[] = [];
+  let frameIndex = 0;
+  let fps = initialFeed.fps;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const drawFrame = () => {
+    const image = images[frameIndex % images.length];
+    if (image?.complete && image.naturalWidth > 0 && context) {
+      if (canvas.width !== image.naturalWidth || canvas.height !== image.naturalHeight) {
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+      }
+      context.drawImage(image, 0, 0);
+    }
+    frameIndex++;
+  };
+
+  const setFeed = (feed: ShimFeed) => {
+    images = feed.frames.map((frame) => {
+      const image = new Image();
+      image.src = `data:image/jpeg;base64,${frame}`;
+      return image;
+    });
+    frameIndex = 0;
+    fps = feed.fps;
+    if (timer) {
+      clearInterval(timer);
+    }
+    timer = setInterval(drawFrame, 1000 / fps);
+  };
+
+  const originalGetUserMedia = mediaDevices.getUserMedia.bind(mediaDevices);
+  const originalEnumerateDevices = mediaDevices.enumerateDevices.bind(mediaDevices);
+
+  mediaDevices.getUserMedia = async (constraints?: MediaStreamConstraints) => {
+    if (!constraints?.video) {
+      return originalGetUserMedia(constraints);
+    }
+
+    const stream = canvas.captureStream(fps);
+    if (constraints.audio) {
+      const audioStream = await originalGetUserMedia({ audio: constraints.audio });
+      audioStream.getAudioTracks().forEach((track) => stream.addTrack(track));
+    }
+    return stream;
+  };
+
+  mediaDevices.enumerateDevices = async () => {
+    const devices = await originalEnumerateDevices();
+    if (devices.some((device) => device.kind === 'videoinput')) {
+      return devices;
+    }
+    const fakeCamera = {
+      deviceId: 'wdio-camera-service',
+      groupId: 'wdio-camera-service',
+      kind: 'videoinput',
+      label: 'WebdriverIO Camera Service',
+      toJSON() {
+        return this;
+      },
+    } as MediaDeviceInfo;
+    return [...devices, fakeCamera];
+  };
+
+  (window as unknown as Record<string, unknown>)[globalName] = { setFeed };
+  setFeed(initialFeed);
+}
+
+/**
+ * Build the function declaration registered via WebDriver BiDi script.addPreloadScript
+ * The feed is embedded as a literal since preload scripts only accept channel arguments
+ */
+export function createPreloadScript(feed: ShimFeed): string {
+  return `() => { (${installCameraShim.toString()})(${JSON.stringify(feed)}, ${JSON.stringify(SHIM_GLOBAL)}); }`;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { UnsupportedFormatError } from './errors.js';
+import { getFormatHintExtension, isInMemorySource, writeInMemorySource } from './memory-source.js';
+
+const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+
+describe('memory-source', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'camera-memory-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('isInMemorySource', () => {
+    it('should accept Buffers, Uint8Arrays and streams', () => {
+      expect(isInMemorySource(Buffer.from('frame'))).toBe(true);
+      expect(isInMemorySource(new Uint8Array([1, 2, 3]))).toBe(true);
+      expect(isInMemorySource(Readable.from(['frame']))).toBe(true);
+      expect(isInMemorySource('./feeds/qr.png')).toBe(false);
+      expect(isInMemorySource({ pattern: 'bars' })).toBe(false);
+    });
+  });
+
+  describe('getFormatHintExtension', () => {
+    it('should turn format hints into extensions', () => {
+      expect(getFormatHintExtension('png')).toBe('.png');
+      expect(getFormatHintExtension('.MP4')).toBe('.mp4');
+      expect(getFormatHintExtension(undefined)).toBe('');
+    });
+
+    it('should reject unsupported formats', () => {
+      expect(() => getFormatHintExtension('docx')).toThrow(UnsupportedFormatError);
+      expect(() => getFormatHintExtension('docx')).toThrow('Unsupported format for file "in-memory source" (extension: .docx');
+    });
+  });
+
+  describe('writeInMemorySource', () => {
+    it('should write a Buffer to a content-addressed file', async () => {
+      const filePath = await writeInMemorySource(Buffer.from('frame data'), 'png', path.join(directory, 'sources'));
+
+      expect(filePath).toBe(path.join(directory, 'sources', `${sha256('frame data')}.png`));
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('frame data');
+    });
+
+    it('should write the same data once', async () => {
+      const first = await writeInMemorySource(Buffer.from('frame data'), 'png', directory);
+      fs.utimesSync(first, new Date(0), new Date(0));
+
+      const second = await writeInMemorySource(new TextEncoder().encode('frame data'), 'png', directory);
+
+      expect(second).toBe(first);
+      expect(fs.statSync(second).mtimeMs).toBe(0);
+      expect(fs.readdirSync(directory)).toEqual([path.basename(first)]);
+    });
+
+    it('should write a stream without an extension when no format is given', async () => {
+      const filePath = await writeInMemorySource(Readable.from([Buffer.from('frame '), 'data']), undefined, directory);
+
+      expect(filePath).toBe(path.join(directory, sha256('frame data')));
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('frame data');
+      expect(fs.readdirSync(directory)).toEqual([sha256('frame data')]);
+    });
+
+    it('should clean up after a failing stream', async () => {
+      const stream = new Readable({
+        read() {
+          this.push('partial');
+          this.destroy(new Error('Renderer crashed'));
+        },
+      });
+
+      await expect(writeInMemorySource(stream, 'mp4', directory)).rejects.toThrow('Renderer crashed');
+      expect(fs.readdirSync(directory)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { UnsupportedFormatError } from './errors.js';
+import type { ConversionOptions } from './conversion-options.js';
+
+/** Directory of the conversion cache where in-memory sources are written */
+export const MEMORY_SOURCES_DIRECTORY = 'sources';
+
+/**
+ * Camera source data held in memory: a Buffer, a Uint8Array or a Node.js stream
+ */
+export type InMemorySource = Buffer | Uint8Array | Readable;
+
+/**
+ * Conversion options of an in-memory source, with the format of its data
+ */
+export interface InMemorySourceOptions extends ConversionOptions {
+  /**
+   * Format of the data, as a file extension ('png', 'mp4', 'mjpeg'...)
+   * Without it the content decides, and JPEG data is played as an MJPEG stream
+   */
+  format?: string;
+}
+
+/**
+ * Check if a camera source is data held in memory rather than a path or a descriptor
+ */
+export function isInMemorySource(source: unknown): source is InMemorySource {
+  return source instanceof Uint8Array || source instanceof Readable;
+}
+
+/**
+ * File extension of a format hint ('PNG' → '.png'), an empty string without hint
+ */
+export function getFormatHintExtension(format: string | undefined): string {
+  if (format === undefined) {
+    return '';
+  }
+  const extension = `.${format.replace(/^\./, '').toLowerCase()}`;
+  if (!UnsupportedFormatError.SUPPORTED_FORMATS.includes(extension)) {
+    throw new UnsupportedFormatError('in-memory source', extension);
+  }
+  return extension;
+}
+
+/**
+ * Write a stream to a file, returning the SHA-256 of its content
+ */
+async function writeStream(stream: Readable, filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  const fd = fs.openSync(filePath, 'w');
+  try {
+    for await (const chunk of stream) {
+      const bytes = typeof chunk === 'string' ? Buffer.from(chunk) : chunk as Uint8Array;
+      hash.update(bytes);
+      fs.writeSync(fd, bytes);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Write in-memory data to a content-addressed file in `directory` (`<sha256><extension>`),
+ * so the same data is written once and converted once like any file
+ * Streams are written to a temporary file while they are hashed, then renamed
+ */
+export async function writeInMemorySource(source: InMemorySource, format: string | undefined, directory: string): Promise<string> {
+  const extension = getFormatHintExtension(format);
+  fs.mkdirSync(directory, { recursive: true });
+
+  if (!(source instanceof Readable)) {
+    const filePath = path.join(directory, `${crypto.createHash('sha256').update(source).digest('hex')}${extension}`);
+    if (!fs.existsSync(filePath)) {
+      // Unique per process, parallel workers may write the same data at once
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, source);
+      fs.renameSync(tempPath, filePath);
+    }
+    return filePath;
+  }
+
+  const tempPath = path.join(directory, `${process.pid}-${crypto.randomUUID()}.tmp`);
+  try {
+    const filePath = path.join(directory, `${await writeStream(source, tempPath)}${extension}`);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(tempPath);
+    } else {
+      fs.renameSync(tempPath, filePath);
+    }
+    return filePath;
+  } catch (error) {
+    if (fs.existsSync(tempPath)) {
+      fs.unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
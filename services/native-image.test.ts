@@ -0,0 +1,260 @@
+import { describe, it, expect } from 'vitest';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import {
+  applyTransforms,
+  cropImage,
+  decodeBmp,
+  decodeImage,
+  encodeMjpeg,
+  encodeY4m,
+  flattenImage,
+  mirrorImage,
+  padImage,
+  rgbaToI420,
+  rotateImage,
+  scaleBilinear,
+  scaleNearest,
+} from './native-image.js';
+import type { RgbaImage } from './native-image.js';
+
+/**
+ * Build a solid-colour RGBA image
+ */
+function solidImage(width: number, height: number, rgba: number[]): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(rgba, i);
+  }
+  return { width, height, data };
+}
+
+/**
+ * Build a BMP file with a 40-byte BITMAPINFOHEADER
+ */
+function createBmp(width: number, height: number, bitsPerPixel: number, pixelRows: number[][], palette: number[][] = []): Buffer {
+  const rowSize = Math.floor((bitsPerPixel * width + 31) / 32) * 4;
+  const paletteBytes = palette.length * 4;
+  const pixelOffset = 14 + 40 + paletteBytes;
+  const file = Buffer.alloc(pixelOffset + rowSize * Math.abs(height));
+
+  file.write('BM', 0, 'latin1');
+  file.writeUInt32LE(file.length, 2);
+  file.writeUInt32LE(pixelOffset, 10);
+  file.writeUInt32LE(40, 14);
+  file.writeInt32LE(width, 18);
+  file.writeInt32LE(height, 22);
+  file.writeUInt16LE(1, 26);
+  file.writeUInt16LE(bitsPerPixel, 28);
+  file.writeUInt32LE(palette.length, 46);
+  palette.forEach(([r, g, b], i) => file.set([b, g, r, 0], 54 + i * 4));
+  pixelRows.forEach((row, i) => file.set(row, pixelOffset + i * rowSize));
+
+  return file;
+}
+
+describe('native-image', () => {
+  describe('decodeImage', () => {
+    it('should decode PNG images', () => {
+      const png = new PNG({ width: 2, height: 1 });
+      png.data.set([255, 0, 0, 255, 0, 0, 255, 128]);
+
+      const image = decodeImage(PNG.sync.write(png));
+
+      expect(image.width).toBe(2);
+      expect(image.height).toBe(1);
+      expect(Array.from(image.data)).toEqual([255, 0, 0, 255, 0, 0, 255, 128]);
+    });
+
+    it('should decode JPEG images', () => {
+      const encoded = jpeg.encode(solidImage(16, 8, [255, 255, 255, 255]), 90).data;
+
+      const image = decodeImage(encoded);
+
+      expect(image.width).toBe(16);
+      expect(image.height).toBe(8);
+      expect(image.data[0]).toBeGreaterThan(250);
+    });
+
+    it('should decode BMP images', () => {
+      const bmp = createBmp(1, 1, 24, [[0, 0, 255]]);
+
+      expect(Array.from(decodeImage(bmp).data)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('should reject other formats', () => {
+      expect(() => decodeImage(Buffer.from('GIF89a'))).toThrow('not a PNG, JPEG or BMP');
+    });
+  });
+
+  describe('decodeBmp', () => {
+    it('should decode bottom-up 24-bit bitmaps', () => {
+      // Bottom row first: blue, then top row: red
+      const bmp = createBmp(1, 2, 24, [[255, 0, 0], [0, 0, 255]]);
+
+      const image = decodeBmp(bmp);
+
+      expect(Array.from(image.data)).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+    });
+
+    it('should decode top-down bitmaps', () => {
+      const bmp = createBmp(1, -2, 24, [[255, 0, 0], [0, 0, 255]]);
+
+      const image = decodeBmp(bmp);
+
+      expect(image.height).toBe(2);
+      expect(Array.from(image.data)).toEqual([0, 0, 255, 255, 255, 0, 0, 255]);
+    });
+
+    it('should decode 8-bit palette bitmaps', () => {
+      const bmp = createBmp(2, 1, 8, [[1, 0]], [[0, 0, 0], [0, 255, 0]]);
+
+      expect(Array.from(decodeBmp(bmp).data)).toEqual([0, 255, 0, 255, 0, 0, 0, 255]);
+    });
+
+    it('should decode 1-bit palette bitmaps', () => {
+      const bmp = createBmp(3, 1, 1, [[0b10100000]], [[0, 0, 0], [255, 255, 255]]);
+
+      const image = decodeBmp(bmp);
+
+      expect(Array.from(image.data.filter((_, i) => i % 4 === 0))).toEqual([255, 0, 255]);
+    });
+
+    it('should treat 32-bit bitmaps without alpha as opaque', () => {
+      const bmp = createBmp(1, 1, 32, [[10, 20, 30, 0]]);
+
+      expect(Array.from(decodeBmp(bmp).data)).toEqual([30, 20, 10, 255]);
+    });
+
+    it('should reject compressed bitmaps', () => {
+      const bmp = createBmp(1, 1, 8, [[0]], [[0, 0, 0]]);
+      bmp.writeUInt32LE(1, 30);
+
+      expect(() => decodeBmp(bmp)).toThrow('Unsupported BMP compression 1');
+    });
+  });
+
+  describe('flattenImage', () => {
+    it('should composite transparent pixels over white', () => {
+      const image = flattenImage(solidImage(2, 2, [0, 0, 0, 0]));
+
+      expect(Array.from(image.data.subarray(0, 4))).toEqual([255, 255, 255, 255]);
+    });
+
+    it('should pad odd dimensions to even ones', () => {
+      const image = flattenImage(solidImage(3, 1, [10, 20, 30, 255]));
+
+      expect(image.width).toBe(4);
+      expect(image.height).toBe(2);
+      expect(Array.from(image.data.subarray(-4))).toEqual([10, 20, 30, 255]);
+    });
+  });
+
+  describe('rgbaToI420', () => {
+    it('should convert white and black to limited range luma', () => {
+      expect(Array.from(rgbaToI420(solidImage(2, 2, [255, 255, 255, 255])))).toEqual([235, 235, 235, 235, 128, 128]);
+      expect(Array.from(rgbaToI420(solidImage(2, 2, [0, 0, 0, 255])))).toEqual([16, 16, 16, 16, 128, 128]);
+    });
+
+    it('should convert pure red with BT.601 coefficients', () => {
+      expect(Array.from(rgbaToI420(solidImage(2, 2, [255, 0, 0, 255])))).toEqual([81, 81, 81, 81, 90, 240]);
+    });
+  });
+
+  describe('encodeY4m', () => {
+    it('should write a YUV4MPEG2 header and a single I420 frame', () => {
+      const y4m = encodeY4m(solidImage(4, 2, [255, 255, 255, 255]));
+      const header = 'YUV4MPEG2 W4 H2 F30:1 Ip A1:1 C420jpeg\nFRAME\n';
+
+      expect(y4m.subarray(0, header.length).toString('latin1')).toBe(header);
+      expect(y4m.length).toBe(header.length + 4 * 2 * 1.5);
+    });
+  });
+
+  describe('encodeMjpeg', () => {
+    it('should produce a decodable JPEG frame', () => {
+      const mjpeg = encodeMjpeg(solidImage(5, 3, [0, 0, 0, 255]));
+
+      expect(mjpeg.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+      expect(mjpeg.subarray(-2)).toEqual(Buffer.from([0xff, 0xd9]));
+      expect(jpeg.decode(mjpeg, { useTArray: true })).toMatchObject({ width: 6, height: 4 });
+    });
+  });
+
+  describe('scaleNearest', () => {
+    it('should repeat pixels without blending', () => {
+      const image: RgbaImage = { width: 2, height: 1, data: new Uint8Array([0, 0, 0, 255, 255, 255, 255, 255]) };
+
+      const scaled = scaleNearest(image, 4, 2);
+
+      expect(Array.from(scaled.data.filter((_, i) => i % 4 === 0))).toEqual([0, 0, 255, 255, 0, 0, 255, 255]);
+    });
+  });
+
+  describe('scaleBilinear', () => {
+    it('should blend neighbouring pixels', () => {
+      const image: RgbaImage = { width: 2, height: 1, data: new Uint8Array([0, 0, 0, 255, 255, 255, 255, 255]) };
+
+      const scaled = scaleBilinear(image, 4, 1);
+
+      expect(Array.from(scaled.data.filter((_, i) => i % 4 === 0))).toEqual([0, 64, 191, 255]);
+    });
+  });
+
+  describe('cropImage', () => {
+    it('should keep the region and clamp it to the image', () => {
+      const image: RgbaImage = { width: 3, height: 1, data: new Uint8Array([1, 0, 0, 255, 2, 0, 0, 255, 3, 0, 0, 255]) };
+
+      const cropped = cropImage(image, { x: 1, y: 0, width: 10, height: 10 });
+
+      expect(cropped).toMatchObject({ width: 2, height: 1 });
+      expect(Array.from(cropped.data.filter((_, i) => i % 4 === 0))).toEqual([2, 3]);
+    });
+  });
+
+  describe('rotateImage', () => {
+    const image: RgbaImage = { width: 2, height: 1, data: new Uint8Array([1, 0, 0, 255, 2, 0, 0, 255]) };
+
+    it('should rotate clockwise', () => {
+      const rotated = rotateImage(image, 90);
+
+      expect(rotated).toMatchObject({ width: 1, height: 2 });
+      expect(Array.from(rotated.data.filter((_, i) => i % 4 === 0))).toEqual([1, 2]);
+    });
+
+    it('should rotate by 180 and 270 degrees', () => {
+      expect(Array.from(rotateImage(image, 180).data.filter((_, i) => i % 4 === 0))).toEqual([2, 1]);
+      expect(Array.from(rotateImage(image, 270).data.filter((_, i) => i % 4 === 0))).toEqual([2, 1]);
+    });
+  });
+
+  describe('mirrorImage', () => {
+    it('should flip horizontally', () => {
+      const image: RgbaImage = { width: 2, height: 1, data: new Uint8Array([1, 0, 0, 255, 2, 0, 0, 255]) };
+
+      expect(Array.from(mirrorImage(image).data.filter((_, i) => i % 4 === 0))).toEqual([2, 1]);
+    });
+  });
+
+  describe('applyTransforms', () => {
+    it('should derive the missing dimension from the aspect ratio', () => {
+      expect(applyTransforms(solidImage(40, 20, [0, 0, 0, 255]), { width: 10 })).toMatchObject({ width: 10, height: 6 });
+      expect(applyTransforms(solidImage(40, 20, [0, 0, 0, 255]), { height: 10 })).toMatchObject({ width: 20, height: 10 });
+    });
+
+    it('should rotate before scaling', () => {
+      expect(applyTransforms(solidImage(40, 20, [0, 0, 0, 255]), { rotate: 90, width: 10 })).toMatchObject({ width: 10, height: 20 });
+    });
+  });
+
+  describe('padImage', () => {
+    it('should add a white border', () => {
+      const padded = padImage(solidImage(1, 1, [0, 0, 0, 255]), 1);
+
+      expect(padded.width).toBe(3);
+      expect(padded.height).toBe(3);
+      expect(Array.from(padded.data.subarray(16, 20))).toEqual([0, 0, 0, 255]);
+      expect(Array.from(padded.data.subarray(0, 4))).toEqual([255, 255, 255, 255]);
+    });
+  });
+});
@@ -0,0 +1,386 @@
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import type { ConversionOptions, CropRegion } from './conversion-options.js';
+
+/**
+ * A decoded image with 8-bit RGBA pixels, row by row from the top-left corner
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/** JPEG quality used for native MJPEG output, roughly FFmpeg's -q:v 2 */
+const NATIVE_JPEG_QUALITY = 90;
+
+/** Frame rate written to native Y4M headers (single frame, Chrome loops it) */
+const NATIVE_Y4M_FRAME_RATE = 30;
+
+/**
+ * Decode a PNG, JPEG or BMP image from its signature
+ */
+export function decodeImage(data: Buffer): RgbaImage {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    const png = PNG.sync.read(data);
+    return { width: png.width, height: png.height, data: new Uint8Array(png.data) };
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return jpeg.decode(data, { useTArray: true, formatAsRGBA: true });
+  }
+  if (data.subarray(0, 2).toString('latin1') === 'BM') {
+    return decodeBmp(data);
+  }
+  throw new Error('Image is not a PNG, JPEG or BMP file');
+}
+
+/**
+ * Compute the shift and bit width of a BITFIELDS channel mask
+ */
+function parseMask(mask: number): { shift: number; max: number } {
+  if (mask === 0) {
+    return { shift: 0, max: 0 };
+  }
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) {
+    shift++;
+  }
+  return { shift, max: mask >>> shift };
+}
+
+/**
+ * Decode an uncompressed BMP (1/4/8-bit palette, 16/24/32-bit, BI_RGB or BI_BITFIELDS)
+ */
+export function decodeBmp(data: Buffer): RgbaImage {
+  const pixelOffset = data.readUInt32LE(10);
+  const dibSize = data.readUInt32LE(14);
+  const width = data.readInt32LE(18);
+  const rawHeight = data.readInt32LE(22);
+  const bitsPerPixel = data.readUInt16LE(28);
+  const compression = dibSize >= 40 ? data.readUInt32LE(30) : 0;
+  const height = Math.abs(rawHeight);
+  const topDown = rawHeight < 0;
+
+  const BI_RGB = 0;
+  const BI_BITFIELDS = 3;
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS) {
+    throw new Error(`Unsupported BMP compression ${compression}, only uncompressed bitmaps can be decoded`);
+  }
+  if (![1, 4, 8, 16, 24, 32].includes(bitsPerPixel)) {
+    throw new Error(`Unsupported BMP bit depth ${bitsPerPixel}`);
+  }
+
+  // Channel masks: explicit for BITFIELDS (in the V4/V5 header or right after the 40-byte header)
+  let masks = bitsPerPixel === 16
+    ? [0x7c00, 0x03e0, 0x001f, 0]
+    : [0x00ff0000, 0x0000ff00, 0x000000ff, 0];
+  if (compression === BI_BITFIELDS) {
+    masks = [data.readUInt32LE(54), data.readUInt32LE(58), data.readUInt32LE(62), dibSize >= 56 ? data.readUInt32LE(66) : 0];
+  }
+  const [red, green, blue, alpha] = masks.map(parseMask);
+
+  const palette: number[][] = [];
+  if (bitsPerPixel <= 8) {
+    const colorsUsed = dibSize >= 40 ? data.readUInt32LE(46) : 0;
+    const paletteSize = colorsUsed || 1 << bitsPerPixel;
+    const paletteOffset = 14 + dibSize;
+    for (let i = 0; i < paletteSize; i++) {
+      const entry = paletteOffset + i * 4;
+      palette.push([data[entry + 2], data[entry + 1], data[entry]]);
+    }
+  }
+
+  const rowSize = Math.floor((bitsPerPixel * width + 31) / 32) * 4;
+  const pixels = new Uint8Array(width * height * 4);
+  // 32-bit BI_RGB bitmaps usually leave the fourth byte at zero, treat them as opaque
+  let hasAlpha = false;
+
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (topDown ? y : height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      let r: number;
+      let g: number;
+      let b: number;
+      let a = 255;
+
+      if (bitsPerPixel <= 8) {
+        const bitOffset = x * bitsPerPixel;
+        const byte = data[row + (bitOffset >> 3)];
+        const index = (byte >> (8 - bitsPerPixel - (bitOffset & 7))) & ((1 << bitsPerPixel) - 1);
+        [r, g, b] = palette[index] ?? [0, 0, 0];
+      } else if (bitsPerPixel === 24) {
+        b = data[row + x * 3];
+        g = data[row + x * 3 + 1];
+        r = data[row + x * 3 + 2];
+      } else {
+        const value = bitsPerPixel === 16 ? data.readUInt16LE(row + x * 2) : data.readUInt32LE(row + x * 4);
+        const channel = ({ shift, max }: { shift: number; max: number }) =>
+          max === 0 ? 0 : Math.round((((value >>> shift) & max) * 255) / max);
+        r = channel(red);
+        g = channel(green);
+        b = channel(blue);
+        if (alpha.max > 0) {
+          a = channel(alpha);
+        } else if (bitsPerPixel === 32) {
+          a = data[row + x * 4 + 3];
+          hasAlpha ||= a > 0;
+        }
+      }
+
+      pixels[target] = r;
+      pixels[target + 1] = g;
+      pixels[target + 2] = b;
+      pixels[target + 3] = a;
+    }
+  }
+
+  if (bitsPerPixel === 32 && alpha.max === 0 && !hasAlpha) {
+    for (let i = 3; i < pixels.length; i += 4) {
+      pixels[i] = 255;
+    }
+  }
+
+  return { width, height, data: pixels };
+}
+
+/**
+ * Scale an image with nearest-neighbour sampling (keeps the sharp module edges of codes)
+ */
+export function scaleNearest(image: RgbaImage, width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(image.height - 1, Math.floor((y * image.height) / height));
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(image.width - 1, Math.floor((x * image.width) / width));
+      const source = (sourceY * image.width + sourceX) * 4;
+      data.set(image.data.subarray(source, source + 4), (y * width + x) * 4);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Add a white border of the given size around an image
+ */
+export function padImage(image: RgbaImage, margin: number): RgbaImage {
+  const width = image.width + 2 * margin;
+  const height = image.height + 2 * margin;
+  const data = new Uint8Array(width * height * 4).fill(255);
+
+  for (let y = 0; y < image.height; y++) {
+    const row = image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4);
+    data.set(row, ((y + margin) * width + margin) * 4);
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Scale an image with bilinear filtering (for photos and video frames)
+ */
+export function scaleBilinear(image: RgbaImage, width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  const xRatio = image.width / width;
+  const yRatio = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.max(0, (y + 0.5) * yRatio - 0.5);
+    const y0 = Math.min(image.height - 1, Math.floor(sourceY));
+    const y1 = Math.min(image.height - 1, y0 + 1);
+    const yWeight = sourceY - y0;
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.max(0, (x + 0.5) * xRatio - 0.5);
+      const x0 = Math.min(image.width - 1, Math.floor(sourceX));
+      const x1 = Math.min(image.width - 1, x0 + 1);
+      const xWeight = sourceX - x0;
+      for (let channel = 0; channel < 4; channel++) {
+        const sample = (sx: number, sy: number) => image.data[(sy * image.width + sx) * 4 + channel];
+        const top = sample(x0, y0) * (1 - xWeight) + sample(x1, y0) * xWeight;
+        const bottom = sample(x0, y1) * (1 - xWeight) + sample(x1, y1) * xWeight;
+        data[(y * width + x) * 4 + channel] = Math.round(top * (1 - yWeight) + bottom * yWeight);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Keep a region of an image (clamped to the image bounds)
+ */
+export function cropImage(image: RgbaImage, region: CropRegion): RgbaImage {
+  const x = Math.min(region.x, image.width - 1);
+  const y = Math.min(region.y, image.height - 1);
+  const width = Math.min(region.width, image.width - x);
+  const height = Math.min(region.height, image.height - y);
+  const data = new Uint8Array(width * height * 4);
+
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Rotate an image clockwise by a multiple of 90 degrees
+ */
+export function rotateImage(image: RgbaImage, degrees: 0 | 90 | 180 | 270): RgbaImage {
+  if (degrees === 0) {
+    return image;
+  }
+  const swap = degrees !== 180;
+  const width = swap ? image.height : image.width;
+  const height = swap ? image.width : image.height;
+  const data = new Uint8Array(image.data.length);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const [targetX, targetY] = degrees === 90
+        ? [image.height - 1 - y, x]
+        : degrees === 180
+          ? [image.width - 1 - x, image.height - 1 - y]
+          : [y, image.width - 1 - x];
+      const source = (y * image.width + x) * 4;
+      data.set(image.data.subarray(source, source + 4), (targetY * width + targetX) * 4);
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Flip an image horizontally
+ */
+export function mirrorImage(image: RgbaImage): RgbaImage {
+  const data = new Uint8Array(image.data.length);
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const source = (y * image.width + x) * 4;
+      data.set(image.data.subarray(source, source + 4), (y * image.width + image.width - 1 - x) * 4);
+    }
+  }
+
+  return { width: image.width, height: image.height, data };
+}
+
+/**
+ * Apply crop, rotate, mirror and scale transforms in the same order as the FFmpeg filter chain
+ * Frame rate is irrelevant for single-frame output
+ */
+export function applyTransforms(image: RgbaImage, options: ConversionOptions): RgbaImage {
+  let result = image;
+
+  if (options.crop) {
+    result = cropImage(result, options.crop);
+  }
+  if (options.rotate) {
+    result = rotateImage(result, options.rotate);
+  }
+  if (options.mirror) {
+    result = mirrorImage(result);
+  }
+  if (options.width || options.height) {
+    // Same as FFmpeg's -2: the missing dimension follows the aspect ratio, rounded to an even number
+    const width = options.width ?? Math.max(2, Math.round((result.width * options.height!) / result.height / 2) * 2);
+    const height = options.height ?? Math.max(2, Math.round((result.height * width) / result.width / 2) * 2);
+    result = scaleBilinear(result, width, height);
+  }
+
+  return result;
+}
+
+/**
+ * Composite transparent pixels over white (cameras don't see through images)
+ * and pad odd dimensions to even ones by repeating the last row/column, as 4:2:0 chroma requires
+ */
+export function flattenImage(image: RgbaImage): RgbaImage {
+  const width = image.width + (image.width % 2);
+  const height = image.height + (image.height % 2);
+  const data = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(y, image.height - 1);
+    for (let x = 0; x < width; x++) {
+      const source = (sourceY * image.width + Math.min(x, image.width - 1)) * 4;
+      const target = (y * width + x) * 4;
+      const alpha = image.data[source + 3] / 255;
+      for (let channel = 0; channel < 3; channel++) {
+        data[target + channel] = Math.round(image.data[source + channel] * alpha + 255 * (1 - alpha));
+      }
+      data[target + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Convert an RGBA image with even dimensions to planar I420 (BT.601, limited range)
+ * Chroma is averaged over each 2x2 block
+ */
+export function rgbaToI420(image: RgbaImage): Uint8Array {
+  const { width, height, data } = image;
+  const chromaWidth = width / 2;
+  const lumaSize = width * height;
+  const chromaSize = chromaWidth * (height / 2);
+  const output = new Uint8Array(lumaSize + 2 * chromaSize);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = (y * width + x) * 4;
+      const r = data[pixel];
+      const g = data[pixel + 1];
+      const b = data[pixel + 2];
+      output[y * width + x] = Math.round(16 + (65.481 * r + 128.553 * g + 24.966 * b) / 255);
+    }
+  }
+
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (const [dx, dy] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+        const pixel = ((y + dy) * width + x + dx) * 4;
+        r += data[pixel];
+        g += data[pixel + 1];
+        b += data[pixel + 2];
+      }
+      r /= 4;
+      g /= 4;
+      b /= 4;
+      const chroma = (y / 2) * chromaWidth + x / 2;
+      output[lumaSize + chroma] = Math.round(128 + (-37.797 * r - 74.203 * g + 112 * b) / 255);
+      output[lumaSize + chromaSize + chroma] = Math.round(128 + (112 * r - 93.786 * g - 18.214 * b) / 255);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Encode an image as a single-frame YUV4MPEG2 (I420) stream
+ */
+export function encodeY4m(image: RgbaImage): Buffer {
+  const flattened = flattenImage(image);
+  const header = `YUV4MPEG2 W${flattened.width} H${flattened.height} F${NATIVE_Y4M_FRAME_RATE}:1 Ip A1:1 C420jpeg\n`;
+  return Buffer.concat([
+    Buffer.from(header, 'latin1'),
+    Buffer.from('FRAME\n', 'latin1'),
+    rgbaToI420(flattened),
+  ]);
+}
+
+/**
+ * Encode an image as a single-frame MJPEG stream (a baseline JPEG)
+ */
+export function encodeMjpeg(image: RgbaImage, quality: number = NATIVE_JPEG_QUALITY): Buffer {
+  const flattened = flattenImage(image);
+  return jpeg.encode({ width: flattened.width, height: flattened.height, data: flattened.data }, quality).data;
+}
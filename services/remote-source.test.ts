@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { DownloadError } from './errors.js';
+import { downloadRemoteSource, getDownloadPath, isRemoteSource } from './remote-source.js';
+
+/**
+ * Artifact store stand-in: answers each request with the next handler, the last one repeats
+ */
+function startServer(...handlers: http.RequestListener[]): Promise<{ url: string; requests: http.IncomingMessage[]; close: () => Promise<void> }> {
+  const requests: http.IncomingMessage[] = [];
+  const server = http.createServer((request, response) => {
+    requests.push(request);
+    handlers[Math.min(requests.length, handlers.length) - 1](request, response);
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise((closed) => {
+          server.closeAllConnections();
+          server.close(() => closed());
+        }),
+      });
+    });
+  });
+}
+
+const serveFile = (body: string, headers: http.OutgoingHttpHeaders = {}): http.RequestListener => (_request, response) => {
+  response.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': Buffer.byteLength(body), ...headers });
+  response.end(body);
+};
+
+const respondWith = (status: number): http.RequestListener => (_request, response) => {
+  response.writeHead(status);
+  response.end();
+};
+
+describe('remote-source', () => {
+  let directory: string;
+  let server: Awaited<ReturnType<typeof startServer>> | undefined;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'camera-download-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    fs.rmSync(directory, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('isRemoteSource', () => {
+    it('should accept http and https URLs only', () => {
+      expect(isRemoteSource('https://artifacts.example.com/feeds/qr.png')).toBe(true);
+      expect(isRemoteSource('HTTP://localhost:8080/feed.mjpeg')).toBe(true);
+      expect(isRemoteSource('./feeds/https.png')).toBe(false);
+      expect(isRemoteSource('ftp://example.com/feed.mjpeg')).toBe(false);
+      expect(isRemoteSource({ pattern: 'bars' })).toBe(false);
+    });
+  });
+
+  describe('getDownloadPath', () => {
+    it('should keep the extension of the URL path', () => {
+      const filePath = getDownloadPath('https://example.com/feeds/QR.PNG?version=2', directory);
+
+      expect(path.dirname(filePath)).toBe(directory);
+      expect(filePath).toMatch(/[0-9a-f]{32}\.png$/);
+      expect(getDownloadPath('https://example.com/feeds/QR.PNG?version=3', directory)).not.toBe(filePath);
+      expect(getDownloadPath('https://example.com/artifact?id=42', directory)).toMatch(/[0-9a-f]{32}$/);
+    });
+  });
+
+  describe('downloadRemoteSource', () => {
+    it('should download a URL into the directory', async () => {
+      server = await startServer(serveFile('feed data'));
+
+      const filePath = await downloadRemoteSource(`${server.url}/feeds/feed.mjpeg`, directory);
+
+      expect(filePath).toBe(getDownloadPath(`${server.url}/feeds/feed.mjpeg`, directory));
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('feed data');
+      expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+      expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+    });
+
+    it('should send the configured headers', async () => {
+      server = await startServer(serveFile('feed data'));
+
+      await downloadRemoteSource(`${server.url}/feed.mjpeg`, directory, { headers: { Authorization: 'Bearer token' } });
+
+      expect(server.requests[0].headers.authorization).toBe('Bearer token');
+    });
+
+    it('should revalidate the downloaded copy with its ETag and Last-Modified', async () => {
+      const lastModified = 'Tue, 01 Sep 2026 10:00:00 GMT';
+      server = await startServer(serveFile('version 1', { ETag: '"v1"', 'Last-Modified': lastModified }), respondWith(304));
+      const url = `${server.url}/feed.mjpeg`;
+
+      await downloadRemoteSource(url, directory);
+      const filePath = await downloadRemoteSource(url, directory);
+
+      expect(server.requests[1].headers['if-none-match']).toBe('"v1"');
+      expect(server.requests[1].headers['if-modified-since']).toBe(lastModified);
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('version 1');
+    });
+
+    it('should replace the downloaded copy when the content changed', async () => {
+      server = await startServer(serveFile('version 1', { ETag: '"v1"' }), serveFile('version 2', { ETag: '"v2"' }), respondWith(304));
+      const url = `${server.url}/feed.mjpeg`;
+
+      await downloadRemoteSource(url, directory);
+      const filePath = await downloadRemoteSource(url, directory);
+      await downloadRemoteSource(url, directory);
+
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('version 2');
+      expect(server.requests[2].headers['if-none-match']).toBe('"v2"');
+    });
+
+    it('should retry server errors', async () => {
+      server = await startServer(respondWith(503), respondWith(502), serveFile('feed data'));
+
+      const filePath = await downloadRemoteSource(`${server.url}/feed.mjpeg`, directory, { retryDelay: 1 });
+
+      expect(server.requests).toHaveLength(3);
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('feed data');
+    });
+
+    it('should give up after the configured retries', async () => {
+      server = await startServer(respondWith(500));
+      const url = `${server.url}/feed.mjpeg`;
+
+      const download = downloadRemoteSource(url, directory, { retries: 1, retryDelay: 1 });
+
+      await expect(download).rejects.toThrow(DownloadError);
+      await expect(download).rejects.toThrow(`Failed to download ${url}: HTTP 500 Internal Server Error`);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('should not retry client errors', async () => {
+      server = await startServer(respondWith(404));
+
+      await expect(downloadRemoteSource(`${server.url}/missing.mjpeg`, directory, { retryDelay: 1 }))
+        .rejects.toThrow(expect.objectContaining({ statusCode: 404 }));
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('should report unreachable servers', async () => {
+      server = await startServer(respondWith(200));
+      const url = `${server.url}/feed.mjpeg`;
+      await server.close();
+      server = undefined;
+
+      await expect(downloadRemoteSource(url, directory, { retries: 0 }))
+        .rejects.toThrow(expect.objectContaining({ name: 'DownloadError', statusCode: null }));
+    });
+
+    it('should use the downloaded copy when the server cannot be reached', async () => {
+      server = await startServer(serveFile('feed data', { ETag: '"v1"' }), respondWith(503));
+      const url = `${server.url}/feed.mjpeg`;
+
+      await downloadRemoteSource(url, directory);
+      const filePath = await downloadRemoteSource(url, directory, { retries: 0 });
+
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('feed data');
+    });
+
+    it('should time out slow responses', async () => {
+      server = await startServer(() => {});
+
+      await expect(downloadRemoteSource(`${server.url}/feed.mjpeg`, directory, { retries: 0, timeout: 50 }))
+        .rejects.toThrow('timed out after 50ms');
+    });
+
+    it('should refuse files over the size limit', async () => {
+      server = await startServer(serveFile('x'.repeat(100)));
+      const url = `${server.url}/feed.mjpeg`;
+
+      await expect(downloadRemoteSource(url, directory, { maxSize: 10 }))
+        .rejects.toThrow(`Failed to download ${url}: file is 100 bytes, over the 10 bytes size limit`);
+      expect(server.requests).toHaveLength(1);
+      expect(fs.readdirSync(directory)).toEqual([]);
+    });
+
+    it('should refuse an HTML page served in place of the file', async () => {
+      server = await startServer(serveFile('<!DOCTYPE html><html><body>Sign in</body></html>', { 'Content-Type': 'text/html' }));
+      const url = `${server.url}/artifact?id=42`;
+
+      await expect(downloadRemoteSource(url, directory, { retryDelay: 1 })).rejects.toThrow(
+        `Failed to download ${url}: received HTML document (Content-Type: text/html), not a supported media format`,
+      );
+      expect(server.requests).toHaveLength(1);
+      expect(fs.readdirSync(directory)).toEqual([]);
+    });
+
+    it('should refuse unrecognized content without a supported extension', async () => {
+      server = await startServer(serveFile('plain text', { 'Content-Type': 'text/plain' }));
+
+      await expect(downloadRemoteSource(`${server.url}/notes.txt`, directory))
+        .rejects.toThrow('received unrecognized content (Content-Type: text/plain), not a supported media format');
+    });
+
+    it('should stop streamed files at the size limit', async () => {
+      server = await startServer((_request, response) => {
+        response.writeHead(200, { 'Transfer-Encoding': 'chunked' });
+        response.write('x'.repeat(8));
+        response.end('x'.repeat(8));
+      });
+
+      await expect(downloadRemoteSource(`${server.url}/feed.mjpeg`, directory, { maxSize: 10 }))
+        .rejects.toThrow('file is over the 10 bytes size limit');
+      expect(fs.readdirSync(directory)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { DownloadError, UnsupportedFormatError } from './errors.js';
+import { acquireFileLock } from './file-lock.js';
+import { sniffFileFormat } from './format-sniffer.js';
+import type { CameraSource } from './camera-source.js';
+
+/** Directory of the conversion cache where downloaded sources are kept */
+export const DOWNLOADS_DIRECTORY = 'downloads';
+
+/** Largest file downloaded when the maxSize option is not set */
+const DEFAULT_MAX_DOWNLOAD_SIZE = 100 * 1024 * 1024;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500;
+const DEFAULT_DOWNLOAD_TIMEOUT = 30_000;
+
+/** A download lock not refreshed for this long was left behind by a crashed worker */
+const DOWNLOAD_LOCK_STALE_TIMEOUT = 60_000;
+
+/** Statuses worth retrying: timeouts, rate limiting and server errors */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export interface DownloadOptions {
+  /** Largest file downloaded, in bytes (defaults to 100 MB) */
+  maxSize?: number;
+  /** Extra attempts after a network error, a timeout or a 408/429/5xx response (defaults to 2) */
+  retries?: number;
+  /** Delay in milliseconds before the first retry, doubled for each next one (defaults to 500) */
+  retryDelay?: number;
+  /** Maximum time in milliseconds for one attempt, response body included (defaults to 30000) */
+  timeout?: number;
+  /** Extra request headers, e.g. an Authorization header for a private artifact store */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Validators of a downloaded file, stored next to it to revalidate it on the next use
+ */
+interface DownloadRecord {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  downloadedAt: string;
+}
+
+/**
+ * Check if a camera source is an http(s) URL
+ */
+export function isRemoteSource(source: CameraSource): source is string {
+  return typeof source === 'string' && /^https?:\/\//i.test(source);
+}
+
+/**
+ * Path of the downloaded copy of a URL: a hash of the URL, keeping the extension of its path
+ * (the content decides the format anyway, the extension only tells still JPEG images from MJPEG)
+ */
+export function getDownloadPath(url: string, directory: string): string {
+  const extension = path.extname(new URL(url).pathname).toLowerCase();
+  const hash = crypto.createHash('sha256').update(url).digest('hex').slice(0, 32);
+  return path.join(directory, `${hash}${/^\.[a-z0-9]{1,5}$/.test(extension) ? extension : ''}`);
+}
+
+/**
+ * Path of the validators stored next to a downloaded file
+ */
+export function getDownloadRecordPath(filePath: string): string {
+  return `${filePath}.json`;
+}
+
+function readDownloadRecord(recordPath: string): DownloadRecord | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(recordPath, 'utf8')) as DownloadRecord;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Describe a fetch failure: the network error behind "fetch failed", or the timeout
+ */
+function describeFetchError(error: unknown, timeout: number): string {
+  if ((error as Error).name === 'TimeoutError') {
+    return `timed out after ${timeout}ms`;
+  }
+  const cause = (error as Error & { cause?: Error }).cause;
+  return cause?.message ?? (error as Error).message;
+}
+
+/**
+ * Write a response body to a file, stopping as soon as it goes over the size limit
+ */
+async function saveBody(url: string, response: Response, filePath: string, maxSize: number): Promise<void> {
+  const declaredSize = Number(response.headers.get('content-length') ?? 0);
+  if (declaredSize > maxSize) {
+    await response.body?.cancel();
+    throw new DownloadError(url, `file is ${declaredSize} bytes, over the ${maxSize} bytes size limit`, response.status);
+  }
+
+  const fd = fs.openSync(filePath, 'w');
+  try {
+    const reader = response.body?.getReader();
+    let size = 0;
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.length;
+      if (size > maxSize) {
+        await reader.cancel();
+        throw new DownloadError(url, `file is over the ${maxSize} bytes size limit`, response.status);
+      }
+      fs.writeSync(fd, value);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Check that a downloaded body is media, not an HTML login or error page served with a 200 status
+ * Content that is not recognized is accepted when the URL path names a supported extension
+ */
+function checkDownloadedContent(url: string, response: Response, filePath: string): void {
+  const sniffed = sniffFileFormat(filePath);
+  const extension = path.extname(new URL(url).pathname).toLowerCase();
+  if (sniffed ? sniffed.format !== 'unknown' : UnsupportedFormatError.SUPPORTED_FORMATS.includes(extension)) {
+    return;
+  }
+  const contentType = response.headers.get('content-type') ?? 'none';
+  throw new DownloadError(
+    url,
+    `received ${sniffed?.description ?? 'unrecognized content'} (Content-Type: ${contentType}), not a supported media format`,
+    response.status,
+  );
+}
+
+/**
+ * Request a URL once, saving the body to `tempPath`
+ * Returns undefined when the server answers 304 Not Modified, or the validators of the new content
+ */
+async function attemptDownload(
+  url: string,
+  tempPath: string,
+  record: DownloadRecord | undefined,
+  options: DownloadOptions,
+): Promise<Omit<DownloadRecord, 'downloadedAt'> | undefined> {
+  const headers: Record<string, string> = { ...options.headers };
+  if (record?.etag) {
+    headers['If-None-Match'] = record.etag;
+  }
+  if (record?.lastModified) {
+    headers['If-Modified-Since'] = record.lastModified;
+  }
+
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(options.timeout ?? DEFAULT_DOWNLOAD_TIMEOUT) });
+  if (response.status === 304 && record) {
+    await response.body?.cancel();
+    return undefined;
+  }
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new DownloadError(url, `HTTP ${response.status} ${response.statusText}`.trim(), response.status);
+  }
+
+  await saveBody(url, response, tempPath, options.maxSize ?? DEFAULT_MAX_DOWNLOAD_SIZE);
+  checkDownloadedContent(url, response, tempPath);
+  return {
+    url,
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+  };
+}
+
+/**
+ * Download a URL into `directory`, or revalidate the copy downloaded before (ETag / Last-Modified)
+ * Network errors, timeouts and 408/429/5xx responses are retried with an exponential backoff.
+ * When the server cannot be reached, the copy downloaded before is used
+ * A lock file makes parallel workers wait for one download instead of fetching the same URL
+ */
+export async function downloadRemoteSource(url: string, directory: string, options: DownloadOptions = {}): Promise<string> {
+  fs.mkdirSync(directory, { recursive: true });
+  const filePath = getDownloadPath(url, directory);
+  const recordPath = getDownloadRecordPath(filePath);
+  const tempPath = `${filePath}.tmp`;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+
+  const release = await acquireFileLock(`${filePath}.lock`, { staleTimeout: DOWNLOAD_LOCK_STALE_TIMEOUT });
+  try {
+    const record = fs.existsSync(filePath) ? readDownloadRecord(recordPath) : undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const validators = await attemptDownload(url, tempPath, record, options);
+        if (validators) {
+          fs.renameSync(tempPath, filePath);
+          const newRecord: DownloadRecord = { ...validators, downloadedAt: new Date().toISOString() };
+          fs.writeFileSync(recordPath, JSON.stringify(newRecord, null, 2));
+        }
+        return filePath;
+      } catch (error) {
+        if (fs.existsSync(tempPath)) {
+          fs.unlinkSync(tempPath);
+        }
+        const failure = error instanceof DownloadError
+          ? error
+          : new DownloadError(url, describeFetchError(error, options.timeout ?? DEFAULT_DOWNLOAD_TIMEOUT));
+        const retryable = failure.statusCode === null || RETRYABLE_STATUSES.has(failure.statusCode);
+
+        if (retryable && attempt < retries) {
+          const delay = retryDelay * 2 ** attempt;
+          console.log(`${failure.message}, retrying in ${delay}ms`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          continue;
+        }
+        if (retryable && record) {
+          console.log(`${failure.message}, using the copy downloaded at ${record.downloadedAt}`);
+          return filePath;
+        }
+        throw failure;
+      }
+    }
+  } finally {
+    release();
+  }
+}
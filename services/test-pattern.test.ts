@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTestPatternGraph,
+  getTestPatternCacheKey,
+  isTestPattern,
+  normalizeTestPattern,
+  validateTestPattern,
+} from './test-pattern.js';
+
+describe('test-pattern', () => {
+  describe('isTestPattern', () => {
+    it('should recognise test pattern descriptors', () => {
+      expect(isTestPattern({ pattern: 'solid' })).toBe(true);
+      expect(isTestPattern({ pattern: 'bars' })).toBe(true);
+      expect(isTestPattern({ pattern: 'checkerboard' })).toBe(true);
+      expect(isTestPattern({ pattern: 'noise', seed: 1 })).toBe(true);
+    });
+
+    it('should reject file paths and unknown patterns', () => {
+      expect(isTestPattern('/path/to/video.mp4')).toBe(false);
+      expect(isTestPattern({ pattern: 'plasma' })).toBe(false);
+      expect(isTestPattern(null)).toBe(false);
+    });
+  });
+
+  describe('validateTestPattern', () => {
+    it('should accept supported patterns', () => {
+      expect(() => validateTestPattern({ pattern: 'checkerboard' })).not.toThrow();
+    });
+
+    it('should name the supported patterns for unknown ones', () => {
+      expect(() => validateTestPattern({ pattern: 'gradient' }))
+        .toThrow('Unknown test pattern "gradient", expected one of solid, bars, checkerboard, noise');
+    });
+  });
+
+  describe('normalizeTestPattern', () => {
+    it('should apply defaults', () => {
+      expect(normalizeTestPattern({ pattern: 'solid' })).toEqual({
+        pattern: 'solid',
+        color: '#00ff00',
+        seed: 0,
+        width: 640,
+        height: 480,
+        fps: 30,
+        duration: 1,
+      });
+    });
+
+    it('should reject invalid colors', () => {
+      expect(() => normalizeTestPattern({ pattern: 'solid', color: 'red" -i /etc/passwd' })).toThrow('Invalid test pattern color');
+    });
+
+    it('should reject non-positive dimensions', () => {
+      expect(() => normalizeTestPattern({ pattern: 'bars', width: 0 })).toThrow('Invalid test pattern width');
+      expect(() => normalizeTestPattern({ pattern: 'bars', duration: -1 })).toThrow('Invalid test pattern duration');
+    });
+  });
+
+  describe('getTestPatternCacheKey', () => {
+    it('should be independent of property order and explicit defaults', () => {
+      const a = getTestPatternCacheKey({ pattern: 'solid', color: '#ff0000', width: 320 });
+      const b = getTestPatternCacheKey({ width: 320, color: '#ff0000', pattern: 'solid', fps: 30 });
+
+      expect(a).toBe(b);
+    });
+
+    it('should differ for different descriptors', () => {
+      const a = getTestPatternCacheKey({ pattern: 'noise', seed: 1 });
+      const b = getTestPatternCacheKey({ pattern: 'noise', seed: 2 });
+
+      expect(a).not.toBe(b);
+    });
+  });
+
+  describe('buildTestPatternGraph', () => {
+    it('should render a solid color', () => {
+      expect(buildTestPatternGraph({ pattern: 'solid', color: '#00ff00' })).toBe('color=c=#00ff00:s=640x480:r=30:d=1');
+    });
+
+    it('should render color bars', () => {
+      expect(buildTestPatternGraph({ pattern: 'bars', width: 1280, height: 720, fps: 25, duration: 2 }))
+        .toBe('smptebars=s=1280x720:r=25:d=2');
+    });
+
+    it('should render a checkerboard with 8 columns', () => {
+      expect(buildTestPatternGraph({ pattern: 'checkerboard', width: 640 })).toContain('floor(X/80)+floor(Y/80)');
+    });
+
+    it('should render seeded noise', () => {
+      expect(buildTestPatternGraph({ pattern: 'noise', seed: 42 })).toBe(
+        'color=c=gray:s=640x480:r=30:d=1,noise=alls=100:allf=t+u:all_seed=42',
+      );
+    });
+  });
+});
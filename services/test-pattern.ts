@@ -0,0 +1,114 @@
+import crypto from 'node:crypto';
+
+export type TestPatternType = 'solid' | 'bars' | 'checkerboard' | 'noise';
+
+/**
+ * Descriptor for a synthetic camera feed generated by FFmpeg without any input file
+ */
+export interface TestPatternDescriptor {
+  pattern: TestPatternType;
+  /** Colour as #RRGGBB, 0xRRGGBB or an FFmpeg colour name (solid fill, noise base) */
+  color?: string;
+  /** Seed for the noise pattern, the same seed always renders the same frames */
+  seed?: number;
+  width?: number;
+  height?: number;
+  fps?: number;
+  /** Duration in seconds */
+  duration?: number;
+}
+
+const TEST_PATTERN_TYPES: readonly TestPatternType[] = ['solid', 'bars', 'checkerboard', 'noise'];
+
+const TEST_PATTERN_DEFAULTS = {
+  width: 640,
+  height: 480,
+  fps: 30,
+  duration: 1,
+  seed: 0,
+};
+
+const DEFAULT_COLORS: Record<TestPatternType, string> = {
+  solid: '#00ff00',
+  bars: '',
+  checkerboard: '',
+  noise: 'gray',
+};
+
+/** Squares per row of the checkerboard */
+const CHECKERBOARD_COLUMNS = 8;
+
+const COLOR_PATTERN = /^(?:(?:#|0x)[0-9a-f]{6}(?:[0-9a-f]{2})?|[a-z]+)$/i;
+
+/**
+ * Check if a camera source is a test pattern descriptor
+ */
+export function isTestPattern(source: unknown): source is TestPatternDescriptor {
+  return typeof source === 'object'
+    && source !== null
+    && TEST_PATTERN_TYPES.includes((source as TestPatternDescriptor).pattern);
+}
+
+/**
+ * Check that a source with a pattern names a supported test pattern
+ */
+export function validateTestPattern(source: { pattern?: unknown }): void {
+  if (!TEST_PATTERN_TYPES.includes(source.pattern as TestPatternType)) {
+    throw new Error(`Unknown test pattern "${String(source.pattern)}", expected one of ${TEST_PATTERN_TYPES.join(', ')}`);
+  }
+}
+
+/**
+ * Apply defaults and validate a test pattern descriptor
+ */
+export function normalizeTestPattern(descriptor: TestPatternDescriptor): Required<TestPatternDescriptor> {
+  const normalized = {
+    ...TEST_PATTERN_DEFAULTS,
+    color: DEFAULT_COLORS[descriptor.pattern],
+    ...descriptor,
+  };
+
+  if (normalized.color && !COLOR_PATTERN.test(normalized.color)) {
+    throw new Error(`Invalid test pattern color "${normalized.color}", expected #RRGGBB, 0xRRGGBB or a color name`);
+  }
+  for (const key of ['width', 'height', 'fps', 'duration'] as const) {
+    if (!(normalized[key] > 0)) {
+      throw new Error(`Invalid test pattern ${key} "${normalized[key]}", expected a positive number`);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Compute a stable cache key for a test pattern (independent of property order)
+ */
+export function getTestPatternCacheKey(descriptor: TestPatternDescriptor): string {
+  const normalized = normalizeTestPattern(descriptor);
+  const canonical = Object.keys(normalized)
+    .sort()
+    .map((key) => [key, normalized[key as keyof typeof normalized]]);
+
+  return crypto.createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+/**
+ * Build the FFmpeg lavfi filtergraph that renders a test pattern
+ */
+export function buildTestPatternGraph(descriptor: TestPatternDescriptor): string {
+  const { pattern, color, seed, width, height, fps, duration } = normalizeTestPattern(descriptor);
+  const source = `s=${width}x${height}:r=${fps}:d=${duration}`;
+
+  switch (pattern) {
+    case 'solid':
+      return `color=c=${color}:${source}`;
+    case 'bars':
+      return `smptebars=${source}`;
+    case 'checkerboard': {
+      const cellSize = Math.max(1, Math.round(width / CHECKERBOARD_COLUMNS));
+      return `nullsrc=${source},format=yuv420p,geq=lum='if(mod(floor(X/${cellSize})+floor(Y/${cellSize}),2),16,235)':cb=128:cr=128`;
+    }
+    case 'noise':
+      return `color=c=${color}:${source},noise=alls=100:allf=t+u:all_seed=${seed}`;
+  }
+}
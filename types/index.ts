@@ -1,14 +1,50 @@
 import CameraService from '../services/camera.service.js';
+import type { CameraSource } from '../services/camera-source.js';
+import type { CodeDescriptor } from '../services/code-generator.js';
+import type { ConversionOptions } from '../services/conversion-options.js';
+import type { CameraFeedMetadata } from '../services/feed-inspector.js';
+import type { InMemorySource, InMemorySourceOptions } from '../services/memory-source.js';
+import type { TimelineOptions, TimelineSegment } from '../services/camera-timeline.js';
 
 export default CameraService;
 export const launcher = CameraService;
 
+export { FormatConverter } from '../services/format-converter.js';
+export { inspectCameraFeed } from '../services/feed-inspector.js';
+export { registerCameraSteps } from '../services/cucumber-steps.js';
+export type { StepDefinitionFunction } from '../services/cucumber-steps.js';
+export type { CameraFeedMetadata, InspectOptions } from '../services/feed-inspector.js';
 export type { CameraServiceOptions } from '../services/camera.service.js';
+export type { CacheStats, ConvertControl, FormatConverterOptions, PruneResult } from '../services/format-converter.js';
+export type { ConversionProgress, ProgressCallback } from '../services/ffmpeg-progress.js';
+export type { CacheLimits } from '../services/cache-eviction.js';
+export type { CameraSource } from '../services/camera-source.js';
+export type { TestPatternDescriptor, TestPatternType } from '../services/test-pattern.js';
+export type { CodeDescriptor, CodeType } from '../services/code-generator.js';
+export type { ConversionOptions, CropRegion, LoopMode } from '../services/conversion-options.js';
+export type { DegradationOptions, DegradePreset } from '../services/degradation.js';
+export type { FeedDefinition, FeedEntry, FeedRegistry } from '../services/feed-registry.js';
+export type { DownloadOptions } from '../services/remote-source.js';
+export type { InMemorySource, InMemorySourceOptions } from '../services/memory-source.js';
+export type { TimelineOptions, TimelineSegment } from '../services/camera-timeline.js';
 
 declare global {
   namespace WebdriverIO {
     interface Browser {
-      changeCameraSource: (videoFilePath: string) => Promise<void>;
+      changeCameraSource: {
+        (source: CameraSource, options?: ConversionOptions): Promise<void>;
+        /** Data held in memory, with its format (e.g. `{ format: 'png' }`) and conversion options */
+        (source: InMemorySource, options?: InMemorySourceOptions): Promise<void>;
+      };
+      showCodeToCamera: (code: CodeDescriptor) => Promise<void>;
+      changeAudioSource: (audioFilePath: string) => Promise<void>;
+      getCameraSourceInfo: () => Promise<CameraFeedMetadata>;
+      resetCameraSource: () => Promise<void>;
+      withCameraSource: {
+        <T>(source: CameraSource, callback: () => T | Promise<T>, options?: ConversionOptions): Promise<T>;
+        <T>(source: InMemorySource, callback: () => T | Promise<T>, options?: InMemorySourceOptions): Promise<T>;
+      };
+      playCameraTimeline: (segments: TimelineSegment[], options?: TimelineOptions) => Promise<void>;
     }
   }
 }